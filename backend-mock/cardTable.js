@@ -0,0 +1,230 @@
+/**
+ * Digitaler Kartentisch für Schwimmen (31).
+ * Enthält ausschließlich Spiellogik (Deck, Austeilen, Züge, Showdown) ohne Express- oder DB-Bezug,
+ * damit server.js die Tische nur speichern und die Ergebnisse (Leben, SSE) anwenden muss.
+ */
+import { randomInt } from "node:crypto";
+import { HAND_SIZE, RANKS, SUITS, evaluateHand, handValue, showdownLosers } from "./handEvaluator.js";
+
+/** @typedef {import("./handEvaluator.js").Card} Card */
+/** @typedef {"knock"|"31"|"feuer"|"deck_empty"} ShowdownReason */
+/** @typedef {"swap"|"swap_all"|"pass"|"knock"} TableActionType */
+/**
+ * @typedef {{
+ *   roundId:string,
+ *   phase:"playing"|"showdown",
+ *   dealNumber:number,
+ *   seats:string[],
+ *   deck:Card[],
+ *   hands:Record<string,Card[]>,
+ *   middle:Card[],
+ *   turnIndex:number,
+ *   knockedBy:string|null,
+ *   passesInRow:number,
+ *   lastAction:{playerId:string,action:TableActionType,at:string}|null,
+ *   result:{reason:ShowdownReason,values:Record<string,number>,losers:string[]}|null,
+ *   updatedAt:string,
+ * }} Table
+ */
+
+export const TABLE_ACTIONS = /** @type {TableActionType[]} */ (["swap", "swap_all", "pass", "knock"]);
+
+/** Erzeugt das 32-Blatt-Deck (7 bis Ass in vier Farben) in fester Reihenfolge. */
+export function createDeck() {
+  return SUITS.flatMap((suit) => RANKS.map((rank) => ({ suit, rank })));
+}
+
+/** Mischt eine Kopie der Karten per Fisher-Yates mit kryptografischem Zufall. */
+export function shuffle(cards) {
+  const result = [...cards];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Legt einen frischen Tisch an und teilt aus.
+ * seats: Spieler-IDs in Zugreihenfolge, startIndex: wer den ersten Zug hat.
+ */
+export function createTable({ roundId, seats, startIndex = 0, timestamp }) {
+  /** @type {Table} */
+  const table = {
+    roundId,
+    phase: "playing",
+    dealNumber: 0,
+    seats: [],
+    deck: [],
+    hands: {},
+    middle: [],
+    turnIndex: 0,
+    knockedBy: null,
+    passesInRow: 0,
+    lastAction: null,
+    result: null,
+    updatedAt: timestamp,
+  };
+  deal(table, { seats, startIndex, timestamp });
+  return table;
+}
+
+/**
+ * Teilt ein neues Spiel am bestehenden Tisch aus (drei Karten pro Platz plus drei offene Karten in der Mitte).
+ * Hat direkt jemand 31 oder Feuer auf der Hand, geht der Tisch sofort in den Showdown.
+ */
+export function deal(table, { seats, startIndex = 0, timestamp }) {
+  const deck = shuffle(createDeck());
+  table.seats = [...seats];
+  table.hands = {};
+  table.seats.forEach((playerId) => {
+    table.hands[playerId] = deck.splice(0, HAND_SIZE);
+  });
+  table.middle = deck.splice(0, HAND_SIZE);
+  table.deck = deck;
+  table.dealNumber += 1;
+  table.phase = "playing";
+  table.turnIndex = table.seats.length ? ((startIndex % table.seats.length) + table.seats.length) % table.seats.length : 0;
+  table.knockedBy = null;
+  table.passesInRow = 0;
+  table.lastAction = null;
+  table.result = null;
+  table.updatedAt = timestamp;
+  const instantReason = table.seats.map((playerId) => instantShowdownReason(table.hands[playerId])).find(Boolean);
+  if (instantReason) {
+    resolveShowdown(table, instantReason);
+  }
+  return table;
+}
+
+/** Spieler-ID, die gerade am Zug ist (null im Showdown). */
+export function turnPlayerId(table) {
+  if (table.phase !== "playing") return null;
+  return table.seats[table.turnIndex] ?? null;
+}
+
+/**
+ * Prüft und wendet einen Zug an.
+ * Erwartet { action, handIndex?, middleIndex? } und liefert { ok: true, showdown } oder { ok: false, status, error, errorCode }.
+ *
+ * Beispiel: applyAction(table, "p1", { action: "swap", handIndex: 0, middleIndex: 2 }, now())
+ */
+export function applyAction(table, playerId, { action, handIndex, middleIndex }, timestamp) {
+  if (table.phase !== "playing") {
+    return fail(409, "Das Spiel ist bereits aufgedeckt.", "TABLE_SHOWDOWN");
+  }
+  if (!table.seats.includes(playerId)) {
+    return fail(403, "Du sitzt nicht an diesem Tisch.", "NOT_SEATED");
+  }
+  if (turnPlayerId(table) !== playerId) {
+    return fail(409, "Du bist nicht am Zug.", "NOT_YOUR_TURN");
+  }
+  if (!TABLE_ACTIONS.includes(action)) {
+    return fail(400, "Unbekannter Zug.", "INVALID_ACTION");
+  }
+
+  const hand = table.hands[playerId];
+  if (action === "swap") {
+    if (!isCardIndex(handIndex) || !isCardIndex(middleIndex)) {
+      return fail(400, "Zum Tauschen je eine Karte aus Hand und Mitte wählen.", "INVALID_ACTION");
+    }
+    [hand[handIndex], table.middle[middleIndex]] = [table.middle[middleIndex], hand[handIndex]];
+    table.passesInRow = 0;
+  } else if (action === "swap_all") {
+    [table.hands[playerId], table.middle] = [table.middle, hand];
+    table.passesInRow = 0;
+  } else if (action === "pass") {
+    table.passesInRow += 1;
+  } else if (action === "knock") {
+    if (table.knockedBy) return fail(409, "Es wurde bereits geklopft.", "ALREADY_KNOCKED");
+    table.knockedBy = playerId;
+    table.passesInRow = 0;
+  }
+
+  table.lastAction = { playerId, action, at: timestamp };
+  table.updatedAt = timestamp;
+
+  const instantReason = instantShowdownReason(table.hands[playerId]);
+  if (instantReason) {
+    resolveShowdown(table, instantReason);
+    return { ok: true, showdown: true };
+  }
+
+  // Alle haben hintereinander geschoben: Mitte wird erneuert, solange das Deck reicht.
+  if (!table.knockedBy && table.passesInRow >= table.seats.length) {
+    table.passesInRow = 0;
+    if (table.deck.length < HAND_SIZE) {
+      resolveShowdown(table, "deck_empty");
+      return { ok: true, showdown: true };
+    }
+    table.middle = table.deck.splice(0, HAND_SIZE);
+  }
+
+  table.turnIndex = (table.turnIndex + 1) % table.seats.length;
+  // Nach dem Klopfen darf jede:r noch einmal, dann wird aufgedeckt.
+  if (table.knockedBy && table.seats[table.turnIndex] === table.knockedBy) {
+    resolveShowdown(table, "knock");
+    return { ok: true, showdown: true };
+  }
+  return { ok: true, showdown: false };
+}
+
+/**
+ * Deckt alle Hände auf und bestimmt die Verlierer (niedrigster Wert, bei Gleichstand alle; bei Feuer alle anderen).
+ * Das Abziehen der Leben übernimmt der Aufrufer anhand von result.losers.
+ */
+export function resolveShowdown(table, reason) {
+  const values = {};
+  table.seats.forEach((playerId) => {
+    values[playerId] = handValue(table.hands[playerId]);
+  });
+  table.phase = "showdown";
+  table.result = {
+    reason,
+    values,
+    losers: showdownLosers(values),
+  };
+  return table.result;
+}
+
+/**
+ * Öffentliche Sicht auf einen Tisch: fremde Hände bleiben verdeckt, bis aufgedeckt wird.
+ * viewerId bekommt zusätzlich die eigene Hand (hand), sofern er am Tisch sitzt.
+ */
+export function toTableView(table, viewerId = null) {
+  const revealed = table.phase === "showdown";
+  return {
+    phase: table.phase,
+    dealNumber: table.dealNumber,
+    seats: table.seats.map((playerId) => ({ playerId, cardCount: table.hands[playerId]?.length ?? 0 })),
+    middle: [...table.middle],
+    deckCount: table.deck.length,
+    turnPlayerId: turnPlayerId(table),
+    knockedBy: table.knockedBy,
+    lastAction: table.lastAction,
+    hand: viewerId && table.hands[viewerId] ? [...table.hands[viewerId]] : null,
+    result: revealed && table.result
+      ? {
+          ...table.result,
+          hands: Object.fromEntries(table.seats.map((playerId) => [playerId, [...table.hands[playerId]]])),
+        }
+      : null,
+    updatedAt: table.updatedAt,
+  };
+}
+
+/** "feuer" bzw. "31", wenn die Hand das Spiel sofort beendet, sonst null. */
+function instantShowdownReason(cards) {
+  const { kind } = evaluateHand(cards);
+  if (kind === "feuer") return "feuer";
+  if (kind === "31") return "31";
+  return null;
+}
+
+function isCardIndex(value) {
+  return Number.isInteger(value) && value >= 0 && value < HAND_SIZE;
+}
+
+function fail(status, error, errorCode) {
+  return { ok: false, status, error, errorCode };
+}
@@ -0,0 +1,94 @@
+/**
+ * Regeltests für Züge am digitalen Tisch (node --test): Klopfen, Schieben, sofortiges Aufdecken.
+ * Die Tische werden von Hand gebaut, damit kein gemischtes Deck die Abläufe beeinflusst.
+ */
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyAction, turnPlayerId } from "./cardTable.js";
+
+const card = (suit, rank) => ({ suit, rank });
+const AT = "2026-01-01T00:00:00.000Z";
+
+/** Tisch im Spiel mit festen Händen (alle weit unter 31), p1 ist am Zug. */
+function tableWith({ seats = ["p1", "p2", "p3"], hands = {}, middle, deck = [] } = {}) {
+  const defaults = {
+    p1: [card("herz", "7"), card("pik", "8"), card("karo", "9")],
+    p2: [card("herz", "8"), card("pik", "9"), card("karo", "7")],
+    p3: [card("herz", "9"), card("pik", "7"), card("karo", "8")],
+  };
+  return {
+    roundId: "r1",
+    phase: "playing",
+    dealNumber: 1,
+    seats,
+    deck,
+    hands: Object.fromEntries(seats.map((id) => [id, hands[id] ?? defaults[id]])),
+    middle: middle ?? [card("kreuz", "7"), card("kreuz", "8"), card("kreuz", "9")],
+    turnIndex: 0,
+    knockedBy: null,
+    passesInRow: 0,
+    lastAction: null,
+    result: null,
+    updatedAt: AT,
+  };
+}
+
+describe("applyAction", () => {
+  it("lehnt Züge außerhalb der Reihe ab", () => {
+    const table = tableWith();
+    const result = applyAction(table, "p2", { action: "pass" }, AT);
+    assert.equal(result.ok, false);
+    assert.equal(result.errorCode, "NOT_YOUR_TURN");
+  });
+
+  it("deckt nach dem Klopfen auf, sobald alle anderen noch einmal dran waren", () => {
+    const table = tableWith();
+    assert.deepEqual(applyAction(table, "p1", { action: "knock" }, AT), { ok: true, showdown: false });
+    assert.equal(table.knockedBy, "p1");
+    assert.deepEqual(applyAction(table, "p2", { action: "pass" }, AT), { ok: true, showdown: false });
+    assert.deepEqual(applyAction(table, "p3", { action: "pass" }, AT), { ok: true, showdown: true });
+    assert.equal(table.phase, "showdown");
+    assert.equal(table.result.reason, "knock");
+    assert.equal(turnPlayerId(table), null);
+  });
+
+  it("erlaubt nur ein Klopfen pro Spiel", () => {
+    const table = tableWith();
+    applyAction(table, "p1", { action: "knock" }, AT);
+    const result = applyAction(table, "p2", { action: "knock" }, AT);
+    assert.equal(result.ok, false);
+    assert.equal(result.errorCode, "ALREADY_KNOCKED");
+  });
+
+  it("erneuert die Mitte, wenn alle hintereinander schieben, und deckt bei leerem Deck auf", () => {
+    const fresh = [card("herz", "B"), card("pik", "D"), card("karo", "K")];
+    const table = tableWith({ seats: ["p1", "p2"], deck: [...fresh] });
+    applyAction(table, "p1", { action: "pass" }, AT);
+    assert.deepEqual(applyAction(table, "p2", { action: "pass" }, AT), { ok: true, showdown: false });
+    assert.deepEqual(table.middle, fresh);
+    assert.equal(table.deck.length, 0);
+    assert.equal(table.passesInRow, 0);
+    assert.equal(turnPlayerId(table), "p1");
+
+    applyAction(table, "p1", { action: "pass" }, AT);
+    assert.deepEqual(applyAction(table, "p2", { action: "pass" }, AT), { ok: true, showdown: true });
+    assert.equal(table.result.reason, "deck_empty");
+  });
+
+  it("setzt die Schiebe-Serie nach einem Tausch zurück", () => {
+    const table = tableWith({ seats: ["p1", "p2"] });
+    applyAction(table, "p1", { action: "pass" }, AT);
+    applyAction(table, "p2", { action: "swap", handIndex: 0, middleIndex: 0 }, AT);
+    assert.equal(table.passesInRow, 0);
+  });
+
+  it("deckt sofort auf, wenn ein Tausch 31 ergibt", () => {
+    const table = tableWith({
+      hands: { p1: [card("herz", "A"), card("herz", "K"), card("pik", "7")] },
+      middle: [card("herz", "10"), card("kreuz", "8"), card("kreuz", "9")],
+    });
+    assert.deepEqual(applyAction(table, "p1", { action: "swap", handIndex: 2, middleIndex: 0 }, AT), { ok: true, showdown: true });
+    assert.equal(table.result.reason, "31");
+    assert.deepEqual(table.result.losers.sort(), ["p2", "p3"]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Lokaler In-Process-Ersatz für eine DynamoDB-Tabelle (DocumentClient-Form: put, update, delete, scan, transactWrite).
+ * Unterstützt nur die Ausdrücke, die das Mock-Backend braucht, wertet diese aber wie DynamoDB aus – inkl. ConditionalCheckFailed/TransactionCanceled.
+ * Anders als das AWS-SDK arbeitet der Fake synchron, passend zum restlichen Mock-Backend.
+ */
+
+const CONDITION_FAILED_MESSAGE = "The conditional request failed";
+/** Wie bei DynamoDB: mehr Items pro TransactWriteItems lehnt die Tabelle ab. */
+const MAX_TRANSACT_ITEMS = 100;
+
+/** Fehler im Format des AWS-SDK (name wie die Exception-Klasse, optional CancellationReasons). */
+function dynamoError(name, message, extra = {}) {
+  const err = new Error(message);
+  err.name = name;
+  Object.assign(err, extra);
+  return err;
+}
+
+const itemId = (key) => `${key.PK}\u0000${key.SK}`;
+
+/** Löst `#name` über ExpressionAttributeNames auf; einfache Namen bleiben unverändert. */
+function resolveName(token, names = {}) {
+  const trimmed = token.trim();
+  if (!trimmed.startsWith("#")) return trimmed;
+  if (!(trimmed in names)) throw dynamoError("ValidationException", `Unbekannter Attributname ${trimmed}`);
+  return names[trimmed];
+}
+
+/** Löst `:wert` über ExpressionAttributeValues auf. */
+function resolveValue(token, values = {}) {
+  const trimmed = token.trim();
+  if (!(trimmed in values)) throw dynamoError("ValidationException", `Unbekannter Platzhalter ${trimmed}`);
+  return values[trimmed];
+}
+
+const COMPARATORS = {
+  "=": (a, b) => a === b,
+  "<>": (a, b) => a !== b,
+  "<": (a, b) => a !== undefined && a < b,
+  "<=": (a, b) => a !== undefined && a <= b,
+  ">": (a, b) => a !== undefined && a > b,
+  ">=": (a, b) => a !== undefined && a >= b,
+};
+
+/** Einzelne Bedingung: attribute_exists(a), attribute_not_exists(a) oder `a <op> :wert`. */
+function evaluateClause(clause, item, names, values) {
+  const fn = clause.match(/^(attribute_exists|attribute_not_exists)\(\s*([#\w]+)\s*\)$/);
+  if (fn) {
+    const present = item !== undefined && item[resolveName(fn[2], names)] !== undefined;
+    return fn[1] === "attribute_exists" ? present : !present;
+  }
+  const cmp = clause.match(/^([#\w]+)\s*(<>|<=|>=|=|<|>)\s*(:\w+)$/);
+  if (!cmp) throw dynamoError("ValidationException", `Bedingung wird vom Fake nicht unterstützt: ${clause}`);
+  const current = item?.[resolveName(cmp[1], names)];
+  return COMPARATORS[cmp[2]](current, resolveValue(cmp[3], values));
+}
+
+/**
+ * Wertet eine ConditionExpression aus. Erlaubt sind Klauseln verbunden mit AND bzw. OR (ohne Klammern, AND bindet stärker).
+ * Ohne Ausdruck gilt die Bedingung als erfüllt.
+ */
+function evaluateCondition(expression, item, names, values) {
+  if (!expression) return true;
+  return expression
+    .split(/\s+OR\s+/i)
+    .some((group) => group.split(/\s+AND\s+/i).every((clause) => evaluateClause(clause.trim(), item, names, values)));
+}
+
+/** Wendet eine UpdateExpression mit SET-, ADD- und REMOVE-Abschnitten auf eine Kopie des Items an. */
+function applyUpdate(expression, item, names, values) {
+  const next = { ...item };
+  const sections = expression.split(/\b(SET|ADD|REMOVE)\s+/i).slice(1);
+  for (let i = 0; i < sections.length; i += 2) {
+    const action = sections[i].toUpperCase();
+    sections[i + 1]
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .forEach((part) => {
+        if (action === "SET") {
+          const [path, value] = part.split("=");
+          next[resolveName(path, names)] = resolveValue(value, values);
+        } else if (action === "ADD") {
+          const [path, value] = part.split(/\s+/);
+          const attr = resolveName(path, names);
+          next[attr] = (next[attr] ?? 0) + resolveValue(value, values);
+        } else {
+          delete next[resolveName(part, names)];
+        }
+      });
+  }
+  return next;
+}
+
+/**
+ * Erstellt eine leere Fake-Tabelle. Items werden bei jedem Lesen/Schreiben kopiert,
+ * damit sich Aufrufer und Tabelle nie ein Objekt teilen (wie bei einer echten Datenbank).
+ */
+export function createDynamoFake() {
+  /** @type {Map<string, Record<string, any>>} */
+  const items = new Map();
+
+  /** Prüft Bedingung und Schlüssel einer einzelnen Schreiboperation und liefert den neuen Zustand (null = löschen). */
+  function prepare(kind, params) {
+    const key = kind === "put" ? { PK: params.Item.PK, SK: params.Item.SK } : params.Key;
+    if (!key?.PK || !key?.SK) throw dynamoError("ValidationException", "PK und SK sind Pflicht.");
+    const current = items.get(itemId(key));
+    const ok = evaluateCondition(params.ConditionExpression, current, params.ExpressionAttributeNames, params.ExpressionAttributeValues);
+    if (!ok) return { key, failed: true };
+    if (kind === "put") return { key, next: structuredClone(params.Item) };
+    if (kind === "delete") return { key, next: null };
+    if (kind === "update") {
+      const base = current ?? { PK: key.PK, SK: key.SK };
+      return { key, next: applyUpdate(params.UpdateExpression, base, params.ExpressionAttributeNames, params.ExpressionAttributeValues) };
+    }
+    return { key, next: undefined };
+  }
+
+  /** Übernimmt vorbereitete Änderungen in die Tabelle. */
+  function commit({ key, next }) {
+    if (next === undefined) return;
+    if (next === null) items.delete(itemId(key));
+    else items.set(itemId(key), next);
+  }
+
+  /** Einzelne Schreiboperation; wirft ConditionalCheckFailedException, wenn die Bedingung nicht hält. */
+  function write(kind, params) {
+    const prepared = prepare(kind, params);
+    if (prepared.failed) throw dynamoError("ConditionalCheckFailedException", CONDITION_FAILED_MESSAGE);
+    commit(prepared);
+    return prepared.next ? { Attributes: structuredClone(prepared.next) } : {};
+  }
+
+  return {
+    put: (params) => write("put", params),
+    update: (params) => write("update", params),
+    delete: (params) => write("delete", params),
+
+    /** Liefert alle Items (optional gefiltert); Paginierung braucht der Fake nicht. */
+    scan({ FilterExpression, ExpressionAttributeNames, ExpressionAttributeValues } = {}) {
+      const list = [...items.values()].filter((item) =>
+        evaluateCondition(FilterExpression, item, ExpressionAttributeNames, ExpressionAttributeValues)
+      );
+      return { Items: structuredClone(list), Count: list.length };
+    },
+
+    /**
+     * Alles-oder-nichts über mehrere Items (Put, Update, Delete, ConditionCheck), höchstens MAX_TRANSACT_ITEMS auf einmal.
+     * Scheitert eine Bedingung, bleibt die Tabelle unverändert und es kommt TransactionCanceledException mit CancellationReasons.
+     */
+    transactWrite({ TransactItems = [] }) {
+      if (TransactItems.length > MAX_TRANSACT_ITEMS) {
+        throw dynamoError(
+          "ValidationException",
+          `Member must have length less than or equal to ${MAX_TRANSACT_ITEMS} (TransactItems: ${TransactItems.length})`
+        );
+      }
+      const seen = new Set();
+      const prepared = TransactItems.map((entry) => {
+        const [kind, params] = Object.entries(entry)[0];
+        const normalized = kind === "ConditionCheck" ? "check" : kind.toLowerCase();
+        const result = prepare(normalized, params);
+        const id = itemId(result.key);
+        if (seen.has(id)) throw dynamoError("ValidationException", "Ein Item darf nur einmal pro Transaktion vorkommen.");
+        seen.add(id);
+        return result;
+      });
+      if (prepared.some((entry) => entry.failed)) {
+        const reasons = prepared.map((entry) => ({ Code: entry.failed ? "ConditionalCheckFailed" : "None" }));
+        throw dynamoError(
+          "TransactionCanceledException",
+          `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons.map((r) => r.Code).join(", ")}]`,
+          { CancellationReasons: reasons }
+        );
+      }
+      prepared.forEach(commit);
+      return {};
+    },
+  };
+}
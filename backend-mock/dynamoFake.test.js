@@ -0,0 +1,65 @@
+/**
+ * Tests der Fake-Tabelle (node --test): Bedingungen und TransactWriteItems wie bei DynamoDB.
+ */
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createDynamoFake } from "./dynamoFake.js";
+
+const TableName = "SchwimmApp";
+const put = (PK, SK, extra = {}) => ({ Put: { TableName, Item: { PK, SK, ...extra } } });
+
+describe("transactWrite", () => {
+  it("schreibt nichts, wenn eine Bedingung scheitert, und nennt den Grund je Item", () => {
+    const client = createDynamoFake();
+    client.put({ TableName, Item: { PK: "A", SK: "A", state: "running" } });
+    assert.throws(
+      () =>
+        client.transactWrite({
+          TransactItems: [
+            put("B", "B"),
+            {
+              ConditionCheck: {
+                TableName,
+                Key: { PK: "A", SK: "A" },
+                ConditionExpression: "#s = :finished",
+                ExpressionAttributeNames: { "#s": "state" },
+                ExpressionAttributeValues: { ":finished": "finished" },
+              },
+            },
+          ],
+        }),
+      (err) => {
+        assert.equal(err.name, "TransactionCanceledException");
+        assert.deepEqual(err.CancellationReasons.map((r) => r.Code), ["None", "ConditionalCheckFailed"]);
+        return true;
+      }
+    );
+    assert.equal(client.scan().Count, 1);
+  });
+
+  it("lehnt mehr als 100 Items ab", () => {
+    const client = createDynamoFake();
+    const items = Array.from({ length: 101 }, (_, i) => put(`Q#${i}`, "Q"));
+    assert.throws(() => client.transactWrite({ TransactItems: items }), (err) => err.name === "ValidationException");
+    assert.equal(client.scan().Count, 0);
+    client.transactWrite({ TransactItems: items.slice(0, 100) });
+    assert.equal(client.scan().Count, 100);
+  });
+});
+
+describe("update", () => {
+  it("wertet ADD mit Bedingung wie DynamoDB aus", () => {
+    const client = createDynamoFake();
+    client.put({ TableName, Item: { PK: "L", SK: "L", seats: 1 } });
+    const claim = () =>
+      client.update({
+        TableName,
+        Key: { PK: "L", SK: "L" },
+        UpdateExpression: "ADD seats :one",
+        ConditionExpression: "attribute_exists(PK) AND seats < :max",
+        ExpressionAttributeValues: { ":one": 1, ":max": 2 },
+      });
+    assert.deepEqual(claim().Attributes.seats, 2);
+    assert.throws(claim, (err) => err.name === "ConditionalCheckFailedException");
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Handbewertung für Schwimmen (31).
+ * Einzige Quelle für Handwerte: genutzt vom Kartentisch (cardTable.js) und vom Endpunkt POST /hands/evaluate.
+ */
+
+/** @typedef {"kreuz"|"pik"|"herz"|"karo"} Suit */
+/** @typedef {"7"|"8"|"9"|"10"|"B"|"D"|"K"|"A"} Rank */
+/** @typedef {{suit:Suit,rank:Rank}} Card */
+/** @typedef {"feuer"|"31"|"three_of_a_kind"|"suit"} HandKind */
+/** @typedef {{value:number,kind:HandKind,label:string,suit:Suit|null}} HandEvaluation */
+
+export const SUITS = /** @type {Suit[]} */ (["kreuz", "pik", "herz", "karo"]);
+export const RANKS = /** @type {Rank[]} */ (["7", "8", "9", "10", "B", "D", "K", "A"]);
+export const HAND_SIZE = 3;
+export const MAX_SUIT_VALUE = 31;
+export const THREE_OF_A_KIND_VALUE = 30.5;
+// Feuer (drei Asse) schlägt jede andere Hand, auch 31.
+export const FEUER_VALUE = 33;
+
+const SUIT_LABELS = { kreuz: "Kreuz", pik: "Pik", herz: "Herz", karo: "Karo" };
+
+/** Punktwert einer einzelnen Karte: Ass 11, Bilder 10, sonst der Zahlenwert. */
+export function cardPoints(card) {
+  if (card.rank === "A") return 11;
+  if (card.rank === "B" || card.rank === "D" || card.rank === "K") return 10;
+  return Number(card.rank);
+}
+
+/** Prüft Form und Wertebereich einer Karte aus Request-Daten. */
+export function isCard(value) {
+  return Boolean(value) && SUITS.includes(value.suit) && RANKS.includes(value.rank);
+}
+
+/**
+ * Bewertet eine Drei-Karten-Hand.
+ * Reihenfolge: Feuer (drei Asse) > 31 > drei Gleiche (30,5) > höchste Summe einer Farbe.
+ *
+ * Beispiel: evaluateHand([{suit:"herz",rank:"A"},{suit:"herz",rank:"K"},{suit:"herz",rank:"10"}]) → { value: 31, kind: "31", ... }
+ */
+export function evaluateHand(cards) {
+  if (cards.length === HAND_SIZE && cards.every((card) => card.rank === cards[0].rank)) {
+    if (cards[0].rank === "A") {
+      return { value: FEUER_VALUE, kind: "feuer", label: "Feuer", suit: null };
+    }
+    return { value: THREE_OF_A_KIND_VALUE, kind: "three_of_a_kind", label: "Drei Gleiche", suit: null };
+  }
+
+  /** @type {Map<Suit, number>} */
+  const bySuit = new Map();
+  cards.forEach((card) => bySuit.set(card.suit, (bySuit.get(card.suit) ?? 0) + cardPoints(card)));
+  let bestSuit = /** @type {Suit|null} */ (null);
+  let best = 0;
+  bySuit.forEach((sum, suit) => {
+    if (sum > best) {
+      best = sum;
+      bestSuit = suit;
+    }
+  });
+  if (best === MAX_SUIT_VALUE) {
+    return { value: best, kind: "31", label: "Einunddreißig", suit: bestSuit };
+  }
+  return { value: best, kind: "suit", label: bestSuit ? SUIT_LABELS[bestSuit] : "-", suit: bestSuit };
+}
+
+/** Kurzform für Vergleiche, wenn nur der Zahlenwert gebraucht wird. */
+export function handValue(cards) {
+  return evaluateHand(cards).value;
+}
+
+/**
+ * Alle Werte, die eine Drei-Karten-Hand annehmen kann (einmalig aus allen Kombinationen berechnet).
+ * Dient zur Validierung, wenn Spieler nur einen Zahlenwert statt Karten melden.
+ */
+export const POSSIBLE_HAND_VALUES = (() => {
+  const deck = SUITS.flatMap((suit) => RANKS.map((rank) => ({ suit, rank })));
+  const values = new Set();
+  for (let a = 0; a < deck.length; a++) {
+    for (let b = a + 1; b < deck.length; b++) {
+      for (let c = b + 1; c < deck.length; c++) {
+        values.add(handValue([deck[a], deck[b], deck[c]]));
+      }
+    }
+  }
+  return [...values].sort((x, y) => x - y);
+})();
+
+/**
+ * Bestimmt die Verlierer eines Showdowns anhand der Handwerte (playerId → Wert).
+ * Liegt Feuer vor, verlieren alle ohne Feuer; sonst alle mit dem niedrigsten Wert.
+ */
+export function showdownLosers(values) {
+  const entries = Object.entries(values);
+  if (!entries.length) return [];
+  if (entries.some(([, value]) => value === FEUER_VALUE)) {
+    return entries.filter(([, value]) => value !== FEUER_VALUE).map(([playerId]) => playerId);
+  }
+  const lowest = Math.min(...entries.map(([, value]) => value));
+  return entries.filter(([, value]) => value === lowest).map(([playerId]) => playerId);
+}
+
+/** Ob die Hand das Spiel sofort beendet (31 oder Feuer). */
+export function endsGame(cards) {
+  const { kind } = evaluateHand(cards);
+  return kind === "31" || kind === "feuer";
+}
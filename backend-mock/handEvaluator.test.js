@@ -0,0 +1,76 @@
+/**
+ * Regeltests für die Handbewertung (node --test).
+ * Hier steht fest, was am Tisch gilt: Feuer > 31 > drei Gleiche > beste Farbe, bei Gleichstand verlieren alle mit dem niedrigsten Wert.
+ */
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FEUER_VALUE, POSSIBLE_HAND_VALUES, evaluateHand, handValue, isCard, showdownLosers } from "./handEvaluator.js";
+
+const card = (suit, rank) => ({ suit, rank });
+
+describe("evaluateHand", () => {
+  it("wertet drei Asse als Feuer (33) und damit über 31", () => {
+    const result = evaluateHand([card("herz", "A"), card("pik", "A"), card("karo", "A")]);
+    assert.equal(result.kind, "feuer");
+    assert.equal(result.value, FEUER_VALUE);
+    assert.ok(result.value > handValue([card("kreuz", "A"), card("kreuz", "10"), card("kreuz", "K")]));
+  });
+
+  it("wertet Ass, 10 und Bild einer Farbe als 31", () => {
+    const result = evaluateHand([card("kreuz", "A"), card("kreuz", "10"), card("kreuz", "D")]);
+    assert.deepEqual(result, { value: 31, kind: "31", label: "Einunddreißig", suit: "kreuz" });
+  });
+
+  it("wertet drei Gleiche als 30,5 und damit über einer Farbsumme von 30", () => {
+    const result = evaluateHand([card("herz", "7"), card("pik", "7"), card("karo", "7")]);
+    assert.equal(result.kind, "three_of_a_kind");
+    assert.equal(result.value, 30.5);
+    assert.ok(result.value > handValue([card("pik", "10"), card("pik", "B"), card("pik", "K")]));
+  });
+
+  it("zählt bei gemischten Farben nur die beste Farbe", () => {
+    const result = evaluateHand([card("herz", "A"), card("herz", "7"), card("pik", "K")]);
+    assert.deepEqual(result, { value: 18, kind: "suit", label: "Herz", suit: "herz" });
+  });
+});
+
+describe("POSSIBLE_HAND_VALUES", () => {
+  it("enthält die Sonderwerte, aber keine unmöglichen Summen", () => {
+    assert.ok(POSSIBLE_HAND_VALUES.includes(FEUER_VALUE));
+    assert.ok(POSSIBLE_HAND_VALUES.includes(31));
+    assert.ok(POSSIBLE_HAND_VALUES.includes(30.5));
+    assert.ok(!POSSIBLE_HAND_VALUES.includes(32));
+    assert.equal(POSSIBLE_HAND_VALUES.at(-1), FEUER_VALUE);
+  });
+});
+
+describe("showdownLosers", () => {
+  it("lässt bei Feuer alle anderen verlieren, auch mit 31", () => {
+    assert.deepEqual(showdownLosers({ a: FEUER_VALUE, b: 31, c: 20 }), ["b", "c"]);
+  });
+
+  it("wertet drei Gleiche über einer Farbsumme von 30", () => {
+    assert.deepEqual(showdownLosers({ a: 30.5, b: 30 }), ["b"]);
+  });
+
+  it("lässt bei Gleichstand auf dem niedrigsten Wert alle Betroffenen verlieren", () => {
+    assert.deepEqual(showdownLosers({ a: 20, b: 25, c: 20 }), ["a", "c"]);
+  });
+
+  it("liefert ohne Werte keine Verlierer", () => {
+    assert.deepEqual(showdownLosers({}), []);
+  });
+});
+
+describe("isCard", () => {
+  it("akzeptiert gültige Karten", () => {
+    assert.equal(isCard(card("karo", "10")), true);
+  });
+
+  it("lehnt kaputte Karten ab", () => {
+    assert.equal(isCard(null), false);
+    assert.equal(isCard(card("herz", "1")), false);
+    assert.equal(isCard(card("HERZ", "A")), false);
+    assert.equal(isCard({ suit: "herz" }), false);
+  });
+});
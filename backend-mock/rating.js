@@ -0,0 +1,37 @@
+/**
+ * Elo-Wertung für Schwimmen-Runden mit mehreren Teilnehmenden.
+ * Jede Runde wird als Bündel paarweiser Duelle gewertet: wer besser platziert ist, gewinnt das Duell, gleiche Plätze gelten als Remis.
+ */
+
+/** @typedef {{id:string,rating:number,place:number}} RatedParticipant */
+
+export const DEFAULT_START_RATING = 1000;
+export const DEFAULT_K_FACTOR = 32;
+
+/** Erwartetes Duell-Ergebnis (0..1) von a gegen b nach der klassischen Elo-Formel. */
+export function expectedScore(ratingA, ratingB) {
+  return 1 / (1 + 10 ** ((ratingB - ratingA) / 400));
+}
+
+/**
+ * Berechnet die Wertungsänderung aller Teilnehmenden einer Runde.
+ * place 1 ist der Sieg; der K-Faktor wird auf die n-1 Duelle verteilt, damit große Runden nicht stärker schwanken.
+ * Liefert eine Map id -> gerundetes Delta; bei weniger als zwei Teilnehmenden ist sie leer.
+ * @param {RatedParticipant[]} participants
+ * @param {number} [kFactor]
+ */
+export function computeRatingChanges(participants, kFactor = DEFAULT_K_FACTOR) {
+  const changes = new Map();
+  if (participants.length < 2) return changes;
+  const perDuel = kFactor / (participants.length - 1);
+  participants.forEach((self) => {
+    let delta = 0;
+    participants.forEach((other) => {
+      if (other === self) return;
+      const actual = self.place < other.place ? 1 : self.place === other.place ? 0.5 : 0;
+      delta += perDuel * (actual - expectedScore(self.rating, other.rating));
+    });
+    changes.set(self.id, Math.round(delta));
+  });
+  return changes;
+}
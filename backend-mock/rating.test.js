@@ -0,0 +1,55 @@
+/**
+ * Tests der paarweisen Elo-Wertung (node --test).
+ */
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { computeRatingChanges, expectedScore } from "./rating.js";
+
+describe("computeRatingChanges", () => {
+  it("gibt im Duell gleich starker Spieler den vollen halben K-Faktor weiter", () => {
+    const changes = computeRatingChanges([
+      { id: "a", rating: 1000, place: 1 },
+      { id: "b", rating: 1000, place: 2 },
+    ]);
+    assert.equal(changes.get("a"), 16);
+    assert.equal(changes.get("b"), -16);
+  });
+
+  it("verteilt den K-Faktor auf die n-1 Duelle einer größeren Runde", () => {
+    const changes = computeRatingChanges([
+      { id: "a", rating: 1000, place: 1 },
+      { id: "b", rating: 1000, place: 2 },
+      { id: "c", rating: 1000, place: 3 },
+    ]);
+    assert.deepEqual(Object.fromEntries(changes), { a: 16, b: 0, c: -16 });
+  });
+
+  it("belohnt den Sieg gegen Stärkere mehr", () => {
+    const changes = computeRatingChanges([
+      { id: "underdog", rating: 1000, place: 1 },
+      { id: "favorite", rating: 1200, place: 2 },
+    ]);
+    assert.equal(changes.get("underdog"), 24);
+    assert.equal(changes.get("favorite"), -24);
+  });
+
+  it("wertet gleiche Plätze als Remis", () => {
+    const changes = computeRatingChanges([
+      { id: "a", rating: 1000, place: 1 },
+      { id: "b", rating: 1000, place: 1 },
+    ]);
+    assert.equal(changes.get("a"), 0);
+    assert.equal(changes.get("b"), 0);
+  });
+
+  it("wertet Runden mit weniger als zwei Teilnehmenden nicht", () => {
+    assert.equal(computeRatingChanges([{ id: "a", rating: 1000, place: 1 }]).size, 0);
+  });
+});
+
+describe("expectedScore", () => {
+  it("ist symmetrisch und liegt bei gleicher Wertung bei 0,5", () => {
+    assert.equal(expectedScore(1000, 1000), 0.5);
+    assert.ok(Math.abs(expectedScore(1100, 1000) + expectedScore(1000, 1100) - 1) < 1e-12);
+  });
+});
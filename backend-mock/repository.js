@@ -0,0 +1,298 @@
+/**
+ * Repository-Schicht des Mock-Backends: eine Collection pro Tabelle, dahinter ein austauschbarer Speicher-Treiber.
+ * "memory" hält alles nur im Prozess (Daten weg nach Neustart), "file" schreibt jeden bestätigten Stand als JSON-Schnappschuss atomar auf die Platte,
+ * "dynamo" bildet die Tabellen im DynamoDB-Single-Table-Modell ab (lokale Fake-Tabelle, siehe singleTable.js).
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { createDynamoFake } from "./dynamoFake.js";
+import { DEFAULT_TABLE_NAME, createSingleTableStore } from "./singleTable.js";
+
+/** @typedef {{id:string,name:string,createdAt:string,status:"open"|"active"|"closed",mode?:"companion"|"table",seatOrder?:string[]}} LobbyRow */
+/** @typedef {{id:string,name:string,lobbyId:string|null,joinedAt:string,isActive?:boolean,sessionId?:string|null,lastSeen?:string,lastLobbyId?:string|null}} PlayerRow */
+/** @typedef {{id:string,text:string,createdAt:string}} QuoteRow */
+/** @typedef {{id:string,lobbyId:string,number:number,state:"running"|"finished",mode?:"companion"|"table",dealerPlayerId?:string|null,winnerPlayerId?:string|null,createdAt:string,endedAt?:string|null,endReason?:"claim"|"automatic"|null,endedBy?:string|null}} RoundRow */
+/** @typedef {{id:string,roundId:string,playerId:string,livesRemaining:number,updatedAt:string}} LifeRow */
+/** @typedef {{playerId:string,pointsTotal:number}} ScoreRow */
+/** @typedef {{id:string,roundId:string,lobbyId:string,state:"collecting"|"resolved"|"cancelled",participants:string[],entries:Record<string,{value:number,label:string,submittedAt:string}>,startedBy:string,createdAt:string,resolvedAt:string|null,losers:string[],feuer:boolean}} ShowdownRow */
+/** @typedef {{id:string,lobbyId:string,roundId:string,playerId:string,actorId:string|null,kind:"showdown"|"table"|"manual"|"correction",from:number,to:number,createdAt:string}} LifeEventRow */
+/** @typedef {{key:string,name:string,rating:number,updatedAt:string}} RatingRow */
+/** @typedef {{id:string,key:string,playerId:string,lobbyId:string,roundId:string,before:number,after:number,delta:number,place:number,participants:number,createdAt:string}} RatingEventRow */
+/** @typedef {{id:string,roundId:string,lobbyId:string,claimantId:string,state:"pending"|"approved"|"rejected"|"expired"|"superseded"|"revoked",voters:string[],approvals:string[],rejections:string[],quorum:number,createdAt:string,expiresAt:string,decidedAt:string|null}} ClaimRow */
+
+/**
+ * Alle Tabellen in fester Reihenfolge.
+ * tables: digitale Kartentische inkl. verdeckter Hände, showdowns: gemeldete Handwerte im Companion-Modus,
+ * lifeEvents: Protokoll jeder Lebensänderung, claims: Sieg-Meldungen samt Abstimmung,
+ * ratings/ratingEvents: Elo pro normalisiertem Spielernamen, überdauern gelöschte Lobbys.
+ */
+export const TABLES = /** @type {const} */ ([
+  "lobbies",
+  "players",
+  "quotes",
+  "rounds",
+  "lives",
+  "scores",
+  "tables",
+  "showdowns",
+  "lifeEvents",
+  "ratings",
+  "ratingEvents",
+  "claims",
+]);
+export const STORAGE_DRIVERS = ["memory", "file", "dynamo"];
+export const DEFAULT_STORAGE_FILE = "./data/schwimm-db.json";
+const SNAPSHOT_VERSION = 1;
+const CONDITION_FAILURES = ["ConditionalCheckFailedException", "TransactionCanceledException"];
+
+/** Fehler wie bei DynamoDB, wenn eine Schreibbedingung nicht (mehr) hält; die Treiber ohne Datenbank werfen denselben. */
+function conditionalCheckFailed() {
+  const err = new Error("The conditional request failed");
+  err.name = "ConditionalCheckFailedException";
+  return err;
+}
+
+/** true für gescheiterte bedingte Schreibzugriffe bzw. abgebrochene Transaktionen (409 statt 500). */
+export function isConditionFailure(err) {
+  return CONDITION_FAILURES.includes(err?.name);
+}
+
+/**
+ * @template T
+ * @typedef {{
+ *   readonly length: number,
+ *   [Symbol.iterator](): Iterator<T>,
+ *   all(): T[],
+ *   find(fn: (row: T) => boolean): T | undefined,
+ *   findLast(fn: (row: T) => boolean): T | undefined,
+ *   filter(fn: (row: T) => boolean): T[],
+ *   some(fn: (row: T) => boolean): boolean,
+ *   map<U>(fn: (row: T) => U): U[],
+ *   forEach(fn: (row: T) => void): void,
+ *   insert(row: T): T,
+ *   removeWhere(fn: (row: T) => boolean): T[],
+ *   updateWhere(fn: (row: T) => boolean, patch: (row: T) => Partial<T>): number,
+ *   reset(rows: T[]): void,
+ * }} Collection
+ */
+
+/**
+ * Baut eine Collection über ein Array. Lesen geht wie bei Arrays; ganze Zeilen kommen nur über insert/removeWhere hinzu bzw. weg.
+ * Felder einer gelesenen Zeile dürfen die Routen weiterhin direkt ändern, der Treiber sichert beim nächsten flush den kompletten Stand.
+ * @template T
+ * @param {T[]} [initialRows]
+ * @returns {Collection<T>}
+ */
+export function createCollection(initialRows = []) {
+  let rows = [...initialRows];
+  return {
+    get length() {
+      return rows.length;
+    },
+    [Symbol.iterator]: () => rows[Symbol.iterator](),
+    all: () => [...rows],
+    find: (fn) => rows.find(fn),
+    findLast: (fn) => rows.findLast(fn),
+    filter: (fn) => rows.filter(fn),
+    some: (fn) => rows.some(fn),
+    map: (fn) => rows.map(fn),
+    forEach: (fn) => rows.forEach(fn),
+    insert(row) {
+      rows.push(row);
+      return row;
+    },
+    removeWhere(fn) {
+      const removed = [];
+      rows = rows.filter((row) => {
+        if (!fn(row)) return true;
+        removed.push(row);
+        return false;
+      });
+      return removed;
+    },
+    updateWhere(fn, patch) {
+      let count = 0;
+      rows.forEach((row) => {
+        if (!fn(row)) return;
+        Object.assign(row, patch(row));
+        count += 1;
+      });
+      return count;
+    },
+    reset(next) {
+      rows = [...next];
+    },
+  };
+}
+
+/** Treiber ohne Ablage: entspricht dem bisherigen reinen In-Memory-Betrieb. */
+function createMemoryStore() {
+  return {
+    location: null,
+    load: () => null,
+    save: () => {},
+  };
+}
+
+/**
+ * Treiber mit JSON-Datei. Geschrieben wird erst in eine Temp-Datei, dann per rename ersetzt;
+ * ein Absturz mitten im Schreiben lässt so immer den letzten vollständigen Stand zurück.
+ * Unveränderte Stände werden nicht erneut geschrieben.
+ */
+function createFileStore(file) {
+  const location = path.resolve(file || DEFAULT_STORAGE_FILE);
+  let lastWritten = null;
+  return {
+    location,
+    load() {
+      if (!fs.existsSync(location)) return null;
+      const raw = fs.readFileSync(location, "utf8");
+      const parsed = JSON.parse(raw);
+      if (parsed?.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unbekannte Version ${parsed?.version} in ${location}`);
+      }
+      lastWritten = JSON.stringify(parsed.tables);
+      return parsed.tables;
+    },
+    save(tables) {
+      const serialized = JSON.stringify(tables);
+      if (serialized === lastWritten) return;
+      fs.mkdirSync(path.dirname(location), { recursive: true });
+      const tmp = `${location}.tmp`;
+      const fd = fs.openSync(tmp, "w");
+      try {
+        fs.writeSync(fd, `{"version":${SNAPSHOT_VERSION},"savedAt":"${new Date().toISOString()}","tables":${serialized}}`);
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tmp, location);
+      lastWritten = serialized;
+    },
+  };
+}
+
+/**
+ * Erstellt das Repository mit allen Tabellen (siehe TABLES) und lädt ggf. den gespeicherten Stand.
+ * flush() sichert den aktuellen Stand; transaction(fn) führt fn ganz oder gar nicht aus:
+ * wirft fn, werden alle Tabellen auf den Stand davor zurückgesetzt, sonst wird einmal am Ende gesichert.
+ * Der Rollback stellt die bisherigen Zeilen-Objekte an Ort und Stelle wieder her, Referenzen der Routen (round, claim, ...) bleiben also gültig.
+ * Verschachtelte Transaktionen laufen in der äußersten mit (ein gemeinsamer Rollback-Punkt).
+ * "dynamo" legt die Daten im Single-Table-Modell (singleTable.js) in einer lokalen Fake-Tabelle ab; wie "memory" nur bis zum Neustart.
+ * client ersetzt dabei die Fake-Tabelle (z. B. in Tests, die die Items direkt prüfen).
+ * @param {{ driver?: string, file?: string, tableName?: string, client?: ReturnType<typeof createDynamoFake> }} [options]
+ */
+export function createRepository({ driver = "memory", file, tableName = DEFAULT_TABLE_NAME, client } = {}) {
+  const name = String(driver || "memory").toLowerCase();
+  if (!STORAGE_DRIVERS.includes(name)) {
+    throw new Error(`Unbekannter STORAGE_DRIVER "${driver}" (erlaubt: ${STORAGE_DRIVERS.join(", ")})`);
+  }
+  const store =
+    name === "file"
+      ? createFileStore(file)
+      : name === "dynamo"
+        ? createSingleTableStore({ client: client ?? createDynamoFake(), tableName })
+        : createMemoryStore();
+  const stored = store.load() ?? {};
+  /** @type {Record<(typeof TABLES)[number], Collection<any>>} */
+  const tables = /** @type {any} */ (Object.fromEntries(TABLES.map((table) => [table, createCollection(stored[table] ?? [])])));
+  let depth = 0;
+  /** Innerhalb der laufenden Transaktion vergebene Plätze; ein Rollback gibt genau diese wieder frei. */
+  let claimedSeats = [];
+
+  const snapshot = () => Object.fromEntries(TABLES.map((table) => [table, tables[table].all()]));
+
+  /** Rücksprungpunkt: pro Tabelle die Zeilen-Objekte selbst plus eine tiefe Kopie ihrer Felder. */
+  const checkpoint = () =>
+    Object.fromEntries(TABLES.map((table) => [table, tables[table].all().map((row) => [row, structuredClone(row)])]));
+
+  /** Setzt Felder und Zeilenbestand auf den Rücksprungpunkt zurück; neu eingefügte Zeilen fallen weg, entfernte kommen zurück. */
+  function rollback(saved) {
+    TABLES.forEach((table) => {
+      saved[table].forEach(([row, fields]) => {
+        Object.keys(row).forEach((key) => {
+          if (!(key in fields)) delete row[key];
+        });
+        Object.assign(row, fields);
+      });
+      tables[table].reset(saved[table].map(([row]) => row));
+    });
+    store.reset?.();
+  }
+
+  /** Sichert den Stand über den Treiber; innerhalb einer Transaktion erst an deren Ende. */
+  function flush() {
+    if (depth > 0) return;
+    store.save(snapshot());
+  }
+
+  /**
+   * @template R
+   * @param {() => R} fn
+   * @returns {R}
+   */
+  function transaction(fn) {
+    const saved = depth === 0 ? checkpoint() : null;
+    if (saved) claimedSeats = [];
+    depth += 1;
+    let result;
+    try {
+      result = fn();
+    } catch (err) {
+      if (saved) {
+        rollback(saved);
+        claimedSeats.forEach(releaseSeat);
+      }
+      throw err;
+    } finally {
+      depth -= 1;
+    }
+    flush();
+    return result;
+  }
+
+  /**
+   * Vergibt einen Platz in einer Lobby, sofern weniger als maxPlayers aktiv sind; sonst ConditionalCheckFailedException.
+   * Mit DynamoDB entscheidet das bedingte Update auf das Lobby-Item, sonst die aktiven Spieler:innen in players.
+   * Scheitert die umgebende Transaktion, gibt der Rollback den Platz wieder frei.
+   */
+  function claimSeat(lobbyId, maxPlayers) {
+    if (store.claimSeat) {
+      store.claimSeat(lobbyId, maxPlayers);
+      if (depth > 0) claimedSeats.push(lobbyId);
+      return;
+    }
+    const active = tables.players.filter((p) => p.lobbyId === lobbyId && p.isActive !== false).length;
+    if (active >= maxPlayers) throw conditionalCheckFailed();
+  }
+
+  /**
+   * Gibt den Platz einer inaktiv gewordenen Person wieder frei. Nur DynamoDB führt dafür einen Zähler;
+   * die übrigen Treiber zählen in claimSeat direkt die aktiven Spieler:innen.
+   */
+  function releaseSeat(lobbyId) {
+    store.releaseSeat?.(lobbyId);
+  }
+
+  /**
+   * Ändert eine Zeile nur, wenn alle Felder aus expected noch den erwarteten Wert haben (z. B. Runde noch "running").
+   * Wirft sonst ConditionalCheckFailedException und lässt die Zeile unverändert.
+   */
+  function updateIf(table, row, expected, changes) {
+    if (store.updateIf) store.updateIf(table, row, expected, changes);
+    else if (Object.entries(expected).some(([field, value]) => row[field] !== value)) throw conditionalCheckFailed();
+    Object.assign(row, changes);
+  }
+
+  return {
+    driver: name,
+    location: store.location,
+    restored: Object.keys(stored).length > 0,
+    ...tables,
+    flush,
+    transaction,
+    claimSeat,
+    releaseSeat,
+    updateIf,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests der Repository-Schicht (node --test): Transaktionen samt Rollback und der Datei-Treiber.
+ */
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { createRepository, isConditionFailure } from "./repository.js";
+
+/** Repository mit einer laufenden Runde, einem Leben und einer offenen Sieg-Meldung. */
+function seeded(options) {
+  const db = createRepository(options);
+  const round = db.rounds.insert({ id: "r1", lobbyId: "l1", number: 1, state: "running", createdAt: "t0" });
+  const life = db.lives.insert({ id: "ls1", roundId: "r1", playerId: "p1", livesRemaining: 4, updatedAt: "t0" });
+  const claim = db.claims.insert({ id: "c1", roundId: "r1", state: "pending", approvals: [], decidedAt: null });
+  db.flush();
+  return { db, round, life, claim };
+}
+
+describe("transaction", () => {
+  it("setzt nach einem Fehler alle Tabellen auf den Stand davor zurück", () => {
+    const { db, round, life, claim } = seeded();
+    assert.throws(
+      () =>
+        db.transaction(() => {
+          claim.state = "approved";
+          claim.approvals.push("p2");
+          round.winnerPlayerId = "p1";
+          db.lives.removeWhere((l) => l.id === life.id);
+          db.lifeEvents.insert({ id: "e1", roundId: "r1" });
+          throw new Error("kaputt");
+        }),
+      /kaputt/
+    );
+    assert.equal(db.lives.length, 1);
+    assert.equal(db.lifeEvents.length, 0);
+    assert.deepEqual(db.claims.find((c) => c.id === "c1"), { id: "c1", roundId: "r1", state: "pending", approvals: [], decidedAt: null });
+    assert.equal("winnerPlayerId" in db.rounds.find((r) => r.id === "r1"), false);
+  });
+
+  it("lässt gehaltene Zeilen-Referenzen nach dem Rollback gültig", () => {
+    const { db, round, life, claim } = seeded();
+    assert.throws(() =>
+      db.transaction(() => {
+        claim.state = "approved";
+        life.livesRemaining = 0;
+        db.rounds.removeWhere((r) => r.id === round.id);
+        throw new Error("kaputt");
+      })
+    );
+    assert.equal(db.claims.find((c) => c.id === "c1"), claim);
+    assert.equal(db.lives.find((l) => l.id === "ls1"), life);
+    assert.equal(db.rounds.find((r) => r.id === "r1"), round);
+    assert.equal(claim.state, "pending");
+    assert.equal(life.livesRemaining, 4);
+  });
+
+  it("rollt verschachtelte Transaktionen mit der äußersten zurück", () => {
+    const { db, life } = seeded();
+    assert.throws(() =>
+      db.transaction(() => {
+        db.transaction(() => {
+          life.livesRemaining = 3;
+        });
+        throw new Error("kaputt");
+      })
+    );
+    assert.equal(life.livesRemaining, 4);
+  });
+
+  it("bricht bei gescheitertem updateIf ab, ohne etwas zu ändern", () => {
+    const { db, round, claim } = seeded();
+    round.state = "finished";
+    assert.throws(
+      () =>
+        db.transaction(() => {
+          claim.state = "approved";
+          db.updateIf("rounds", round, { state: "running" }, { state: "finished", winnerPlayerId: "p1" });
+        }),
+      (err) => isConditionFailure(err)
+    );
+    assert.equal(claim.state, "pending");
+    assert.equal(round.winnerPlayerId, undefined);
+  });
+});
+
+describe("Datei-Treiber", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "schwimm-repo-"));
+  const file = path.join(dir, "db.json");
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("schreibt nur bestätigte Stände und lädt sie beim nächsten Start", () => {
+    const { db, life } = seeded({ driver: "file", file });
+    db.transaction(() => {
+      life.livesRemaining = 3;
+    });
+    const committed = fs.readFileSync(file, "utf8");
+    assert.throws(() =>
+      db.transaction(() => {
+        life.livesRemaining = 1;
+        db.flush();
+        throw new Error("kaputt");
+      })
+    );
+    assert.equal(fs.readFileSync(file, "utf8"), committed);
+    assert.equal(fs.existsSync(`${file}.tmp`), false);
+
+    const reloaded = createRepository({ driver: "file", file });
+    assert.equal(reloaded.restored, true);
+    assert.equal(reloaded.lives.find((l) => l.id === "ls1").livesRemaining, 3);
+  });
+});
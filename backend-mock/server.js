@@ -1,19 +1,35 @@
 ﻿/**
  * Mock-Backend für die Schwimm-App.
  * Dieser Express-Server wird von der lokalen Vite-Frontend-App konsumiert, um Lobby-, Runden- und Leaderboard-Daten bereitzustellen.
- * Dient als In-Memory-Ersatz für echte Services, damit sich das Frontend über REST-Endpunkte mit realistischen Szenarien verbinden kann.
+ * Dient als Ersatz für echte Services, damit sich das Frontend über REST-Endpunkte mit realistischen Szenarien verbinden kann.
+ * Die Daten liegen hinter repository.js (im RAM oder als Datei, siehe STORAGE_DRIVER).
  */
 // Framework- und Utility-Importe -------------------------------------------------
-// express: HTTP-Routing, cors: Browser-Zugriffe erlauben, nanoid: kurze IDs, dotenv: .env laden
+// express: HTTP-Routing, cors: Browser-Zugriffe erlauben, nanoid: kurze IDs, dotenv: .env laden, ws: WebSocket-Transport für Events
+import { createHash } from "node:crypto";
 import express from "express";
 import cors from "cors";
 import { nanoid } from "nanoid";
 import dotenv from "dotenv";
+import { WebSocket, WebSocketServer } from "ws";
+import { applyAction, createTable, deal, toTableView } from "./cardTable.js";
+import { DEFAULT_K_FACTOR, DEFAULT_START_RATING, computeRatingChanges } from "./rating.js";
+import { createRepository, isConditionFailure } from "./repository.js";
+import { decodeRequest, endpoints, safeDecode } from "@schwimm/contracts";
+import { FEUER_VALUE, HAND_SIZE, MAX_SUIT_VALUE, POSSIBLE_HAND_VALUES, THREE_OF_A_KIND_VALUE, evaluateHand, isCard, showdownLosers } from "./handEvaluator.js";
 dotenv.config();
 
 // Grundkonfiguration ----------------------------------------------------------
 const app = express();
-app.use(cors());
+// X-Request-Id und ETag freigeben, damit der Browser Korrelations-ID und Version lesen darf; Preflights 10 min cachen (jeder Request trägt den Header).
+app.use(cors({ exposedHeaders: ["X-Request-Id", "ETag"], maxAge: 600 }));
+// Korrelations-ID: vom Client übernommen (bleibt über Wiederholungen gleich) oder neu vergeben, in der Antwort gespiegelt und in Logs zitiert.
+app.use((req, res, next) => {
+  const incoming = String(req.get("x-request-id") || "").trim();
+  req.requestId = /^[\w.-]{1,64}$/.test(incoming) ? incoming : nanoid();
+  res.set("X-Request-Id", req.requestId);
+  next();
+});
 app.use(express.json());
 const PORT = Number(process.env.PORT || 4000);
 const MAX_PORT_RETRY = 10;
@@ -27,20 +43,103 @@ const NAME_ACTIVE_MESSAGE = "Dieser Name ist bereits aktiv angemeldet.";
 const NAME_TAKEN_MESSAGE = "Name existiert bereits in dieser Lobby.";
 const SSE_RETRY_MS = 8000;
 const SSE_HEARTBEAT_MS = 15000;
+// Replay nach Verbindungsabbruch: so viele Events hält jede Lobby für Clients mit Last-Event-ID vor; reicht das nicht, kommt ein Resync.
+const SSE_REPLAY_LIMIT = Math.max(0, Number(process.env.SSE_REPLAY_LIMIT || 200));
+// Der Puffer einer gelöschten Lobby bleibt noch so lange, damit auch kurz getrennte Geräte lobby_deleted nachgeliefert bekommen.
+const SSE_REPLAY_RETENTION_MS = 10 * 60 * 1000;
+// Long-Polls (/events/poll, /lobbies/:id/state?since=) antworten spätestens nach dieser Zeit, damit Proxys die Anfrage nicht abbrechen.
+const LONG_POLL_TIMEOUT_MS = 25000;
 const SESSION_TAKEN_OVER_MESSAGE = "Session wurde von einem anderen Login übernommen.";
 const LOBBY_FULL_MESSAGE_CLEAN = "Lobby ist voll (max. 8 Spieler).";
+// Presence: Spieler ohne Heartbeat innerhalb der Grace-Periode gelten als abwesend und geben ihren Slot frei.
+const PRESENCE_GRACE_MS = Number(process.env.PRESENCE_GRACE_MS || 45000);
+const PRESENCE_SWEEP_MS = Number(process.env.PRESENCE_SWEEP_MS || 5000);
+const START_LIVES = 4;
+const ROUND_MODES = ["companion", "table"];
+const TABLE_MODE_MESSAGE = "Am digitalen Tisch werden die Leben automatisch vergeben.";
+// Manuelle Leben-Edits (PATCH life) nur noch auf ausdrücklichen Wunsch; Standard ist der regelbasierte Showdown.
+const MANUAL_LIVES = String(process.env.MANUAL_LIVES || "").toLowerCase() === "true";
+const SHOWDOWN_RULES_MESSAGE = "Leben werden per Showdown vergeben.";
+// Sieg-Meldungen: so viele Zustimmungen anderer Spieler braucht ein Sieg (gedeckelt auf die Zahl der Stimmberechtigten).
+const CLAIM_QUORUM = Math.max(1, Number(process.env.CLAIM_QUORUM || 1));
+const CLAIM_TIMEOUT_MS = Number(process.env.CLAIM_TIMEOUT_MS || 60000);
+const HISTORY_DEFAULT_LIMIT = 20;
+const HISTORY_MAX_LIMIT = 100;
+// Zeitfenster nach Rundenende, in dem ein versehentlich gemeldeter Sieg zurückgenommen werden kann (0 deaktiviert).
+const REOPEN_WINDOW_MS = Number(process.env.REOPEN_WINDOW_MS || 30000);
+// Elo-Wertung pro Spielername (lobbyübergreifend); K bestimmt, wie stark eine einzelne Runde zählt.
+const RATING_START = Number(process.env.RATING_START || DEFAULT_START_RATING);
+const RATING_K = Number(process.env.RATING_K || DEFAULT_K_FACTOR);
+const RATING_HISTORY_LIMIT = 50;
+// Eigene Antworten gegen @schwimm/contracts prüfen: "warn" loggt Abweichungen, "strict" antwortet stattdessen mit 500, "off" prüft nicht.
+const CONTRACT_RESPONSES = String(process.env.CONTRACT_RESPONSES || "warn").toLowerCase();
 
-const db = {
-  // In-Memory-"Datenbank" mit einfachen Arrays pro Tabelle
-  lobbies: /** @type {Array<{id:string,name:string,createdAt:string,status:"open"|"active"|"closed"}>} */([]),
-  players: /** @type {Array<{id:string,name:string,lobbyId:string|null,joinedAt:string,isActive?:boolean,sessionId?:string|null,lastSeen?:string,lastLobbyId?:string|null}>} */([]),
-  quotes: /** @type {Array<{id:string,text:string,createdAt:string}>} */([]),
-  rounds: /** @type {Array<{id:string,lobbyId:string,number:number,state:"running"|"finished",winnerPlayerId?:string|null,createdAt:string,endedAt?:string|null}>} */([]),
-  lives:  /** @type {Array<{id:string,roundId:string,playerId:string,livesRemaining:number,updatedAt:string}>} */([]),
-  scores: /** @type {Array<{playerId:string,pointsTotal:number}>} */([]),
-};
-/** Liste aller aktiven SSE-Verbindungen (per Lobby/Topic filterbar). */
+// Repository mit allen Tabellen; STORAGE_DRIVER=file sichert den Stand in STORAGE_FILE und lädt ihn beim Start wieder,
+// STORAGE_DRIVER=dynamo nutzt das Single-Table-Modell gegen eine lokale Fake-Tabelle (DYNAMO_TABLE).
+const db = createRepository({
+  driver: process.env.STORAGE_DRIVER,
+  file: process.env.STORAGE_FILE,
+  tableName: process.env.DYNAMO_TABLE || undefined,
+});
+// Schreibende Requests ändern Zeilen teils direkt; nach jeder Antwort wird deshalb der Stand gesichert (no-op im Memory-Treiber).
+app.use((req, res, next) => {
+  if (req.method !== "GET" && req.method !== "HEAD") res.on("finish", () => db.flush());
+  next();
+});
+
+/**
+ * Middleware für einen Endpunkt-Vertrag: Bodies, die nicht zum Request-Schema passen, enden mit 400 INVALID_REQUEST (inkl. issues),
+ * bevor die Route sie sieht. Fachliche Regeln (Namenslängen, gültige Karten …) prüfen weiterhin die Routen selbst.
+ * Erfolgsantworten (< 300) werden je nach CONTRACT_RESPONSES gegen das Response-Schema geprüft.
+ */
+function enforceContract(endpoint) {
+  return (req, res, next) => {
+    const body = decodeRequest(endpoint, req.body ?? {});
+    if (!body.ok) {
+      return res.status(400).json({ error: body.error.message, errorCode: "INVALID_REQUEST", issues: body.error.issues });
+    }
+    if (CONTRACT_RESPONSES !== "off") {
+      const send = res.json.bind(res);
+      res.json = (payload) => {
+        if (res.statusCode >= 300) return send(payload);
+        const checked = safeDecode(endpoint.response, payload, `${endpoint.name}.response`);
+        if (checked.ok) return send(payload);
+        if (CONTRACT_RESPONSES === "strict") {
+          return res.status(500).json({ error: checked.error.message, errorCode: "CONTRACT_VIOLATION", issues: checked.error.issues });
+        }
+        console.warn(`[contracts] ${req.method} ${req.originalUrl} (${req.requestId}): ${checked.error.message}`);
+        return send(payload);
+      };
+    }
+    next();
+  };
+}
+
+// Jede Route (inkl. Legacy-Aliase) aus den Verträgen bekommt ihre Prüfung vor den eigentlichen Handlern registriert.
+Object.values(endpoints).forEach((endpoint) => {
+  [endpoint.route, ...(endpoint.aliases ?? [])].forEach((route) => {
+    const [method, path] = route.split(" ");
+    app[method.toLowerCase()](path, enforceContract(endpoint));
+  });
+});
+/** Liste aller aktiven Echtzeit-Verbindungen (SSE, WebSocket, Long-Poll; per Lobby/Topic filterbar). */
 const sseClients = [];
+/**
+ * Ringpuffer der zuletzt gesendeten SSE-Events je Lobby ("*" für lobbyübergreifende Events): { events, droppedId }.
+ * droppedId ist die ID des zuletzt verdrängten Events; wer davor stehen geblieben ist, hat eine Lücke.
+ */
+const sseHistory = new Map();
+// Event-IDs zählen ab der Startzeit in ms weiter, damit sie auch über Neustarts steigen; kleinere IDs stammen aus einem früheren Lauf.
+const sseBootId = Date.now();
+let sseLastId = sseBootId;
+/**
+ * Zustandsversion je Lobby für GET /lobbies/:id/state. Steigt bei jedem Event der Lobby (broadcastSse) und bei Änderungen ohne Event;
+ * wie die Event-IDs zählt sie ab der Startzeit, eine Lobby ohne Änderung seit dem Start hat die Version sseBootId.
+ */
+const lobbyStateVersions = new Map();
+let lobbyStateSeq = sseBootId;
+/** Wartende Long-Polls auf /lobbies/:id/state je Lobby (Set von Callbacks). */
+const lobbyStateWaiters = new Map();
 
 // Hilfsfunktionen für konsistente Werte ---------------------------------------
 /**
@@ -78,7 +177,7 @@ const listPlayers = (lobbyId) => db.players.filter((p)=>p.lobbyId===lobbyId).map
  * Gibt das Score-Objekt eines Spielers zurück und legt bei Bedarf ein neues an,
  * damit die Score-Liste niemals undefined enthält.
  */
-const scoreFor = (playerId) => db.scores.find(s=>s.playerId===playerId) || (db.scores.push({playerId,pointsTotal:0}), db.scores[db.scores.length-1]);
+const scoreFor = (playerId) => db.scores.find(s=>s.playerId===playerId) ?? db.scores.insert({playerId,pointsTotal:0});
 /**
  * Ermittelt die jüngste Runde einer Lobby über die höchste Rundennummer,
  * um z. B. beim Finish-Endpunkt immer auf die aktuell laufende Runde zugreifen zu können.
@@ -152,36 +251,685 @@ function latestLifeSnapshotForPlayer(lobbyId, playerId) {
   return { ...life, roundNumber: round.number };
 }
 
-function registerSseClient(res, { lobbyId, topics } = {}) {
+/** Prüft, ob die Session eines Spielers von einem anderen Login übernommen wurde (gleiche Regel wie bei Life/Finish). */
+function isSessionStale(player, clientSessionId) {
+  const storedSessionId = sanitizeSessionId(player.sessionId);
+  return Boolean(storedSessionId && storedSessionId !== sanitizeSessionId(clientSessionId));
+}
+
+/**
+ * Sitzordnung einer Lobby: gespeicherte Reihenfolge ohne ausgeschiedene Spieler, neue Spieler hinten nach Beitritt.
+ * Normalisiert lobby.seatOrder dabei direkt, damit alle Antworten dieselbe Reihenfolge liefern.
+ */
+function seatOrderFor(lobby) {
+  const players = listPlayers(lobby.id);
+  const known = new Set(players.map((p) => p.id));
+  const stored = (lobby.seatOrder ?? []).filter((id) => known.has(id));
+  const seated = new Set(stored);
+  const newcomers = players
+    .filter((p) => !seated.has(p.id))
+    .sort((a, b) => (a.joinedAt || "").localeCompare(b.joinedAt || ""))
+    .map((p) => p.id);
+  lobby.seatOrder = [...stored, ...newcomers];
+  return lobby.seatOrder;
+}
+
+/** Lobby-Objekt für Antworten, immer mit aktueller Sitzordnung. */
+function toPublicLobby(lobby) {
+  return { ...lobby, mode: lobby.mode ?? "companion", seatOrder: seatOrderFor(lobby) };
+}
+
+/**
+ * Nächste:r Geber:in reihum nach der Sitzordnung; abwesende Spieler werden übersprungen.
+ * Ohne vorherige:n Geber:in beginnt der erste Platz.
+ */
+function nextDealerId(lobby, previousDealerId) {
+  const seats = seatOrderFor(lobby);
+  if (!seats.length) return null;
+  const activeIds = new Set(listPlayers(lobby.id).filter((p) => p.isActive !== false).map((p) => p.id));
+  const start = previousDealerId ? seats.indexOf(previousDealerId) : -1;
+  for (let step = 1; step <= seats.length; step++) {
+    const candidate = seats[(start + step + seats.length) % seats.length];
+    if (activeIds.has(candidate)) return candidate;
+  }
+  return null;
+}
+
+/** Liefert den Kartentisch einer Runde oder null (Companion-Modus). */
+const findTable = (roundId) => db.tables.find((t) => t.roundId === roundId) ?? null;
+
+/**
+ * Formt eine Runde für API-Antworten: ergänzt den Modus und hängt im Tischmodus die öffentliche Tischsicht an.
+ * viewerId erhält zusätzlich die eigene Hand; alle anderen Hände bleiben bis zum Aufdecken verborgen.
+ */
+function toPublicRound(round, viewerId = null) {
+  const table = round.mode === "table" ? findTable(round.id) : null;
+  const showdown = latestShowdown(round.id);
+  const lobby = round.state === "finished" ? findLobby(round.lobbyId) : null;
+  return {
+    ...round,
+    mode: round.mode ?? "companion",
+    dealerPlayerId: round.dealerPlayerId ?? null,
+    // Vorschau für den Win-Screen: wer die nächste Runde gibt, sobald sie gestartet wird
+    nextDealerPlayerId: lobby ? nextDealerId(lobby, round.dealerPlayerId ?? null) : null,
+    reopenableUntil: reopenDeadline(round),
+    // Eigene Streichholz-Tipps (PATCH life) gibt es nur mit MANUAL_LIVES und nie am digitalen Tisch.
+    manualLives: MANUAL_LIVES && round.mode !== "table",
+    correctableLifeEventId: viewerId && round.state === "running" ? correctableLifeEvent(round.id, viewerId)?.id ?? null : null,
+    table: table ? toTableView(table, viewerId) : null,
+    showdown: showdown ? toPublicShowdown(showdown) : null,
+    claims: db.claims.filter((c) => c.roundId === round.id).map(toPublicClaim),
+  };
+}
+
+/**
+ * Sitzordnung für ein neues Spiel am Tisch: alle Spieler der Runde mit Restleben in Lobby-Sitzreihenfolge.
+ */
+function tableSeatsFor(round) {
+  const alive = new Set(
+    db.lives.filter((l) => l.roundId === round.id && l.livesRemaining > 0).map((l) => l.playerId)
+  );
+  const lobby = findLobby(round.lobbyId);
+  return (lobby ? seatOrderFor(lobby) : []).filter((id) => alive.has(id));
+}
+
+/**
+ * Erster Zug eines Tisch-Spiels: links neben der Geberin/dem Geber der Runde, pro weiterem Spiel einen Platz weiter.
+ */
+function tableStartIndex(round, seats, dealOffset) {
+  const dealerIndex = round.dealerPlayerId ? seats.indexOf(round.dealerPlayerId) : -1;
+  return dealerIndex + 1 + dealOffset;
+}
+
+/**
+ * Eröffnet den Kartentisch für eine Runde und teilt das erste Spiel aus.
+ * Wird von /rounds/start (Lobby im Tischmodus) und beim Umschalten einer frischen Runde genutzt.
+ */
+function openTableForRound(round) {
+  round.mode = "table";
+  db.tables.removeWhere((t) => t.roundId === round.id);
+  const seats = tableSeatsFor(round);
+  const table = createTable({ roundId: round.id, seats, startIndex: tableStartIndex(round, seats, 0), timestamp: now() });
+  db.tables.insert(table);
+  if (table.phase === "showdown") applyTableShowdown(round, table);
+  return table;
+}
+
+/**
+ * Schreibt eine Lebensänderung ins Rundenprotokoll. actorId ist null, wenn der Server selbst entschieden hat.
+ */
+function recordLifeEvent(round, { playerId, actorId = null, kind, from, to }) {
+  const entry = { id: nanoid(10), lobbyId: round.lobbyId, roundId: round.id, playerId, actorId, kind, from, to, createdAt: now() };
+  db.lifeEvents.insert(entry);
+  return entry;
+}
+
+/**
+ * Der eigene Tipp (kind "manual"), den ein Spieler noch zurücknehmen darf: nur sein jüngstes Lebensereignis der Runde.
+ * Folgt ein Showdown- oder Tisch-Abzug oder wurde der Tipp schon korrigiert, gibt es nichts mehr zurückzunehmen;
+ * wer sich selbst auf 0 getippt hat, ist ausgeschieden und bleibt es.
+ */
+function correctableLifeEvent(roundId, playerId) {
+  const last = db.lifeEvents.findLast((e) => e.roundId === roundId && e.playerId === playerId);
+  return last && last.kind === "manual" && last.to > 0 ? last : null;
+}
+
+/**
+ * Zieht den angegebenen Spielern in einem Schritt je ein Leben ab (nie unter 0) und liefert die tatsächlich Betroffenen.
+ * Würden dabei alle Verbliebenen gleichzeitig ausscheiden, zählt das Spiel nicht (Stechen) und niemand verliert.
+ * Bleibt danach genau eine Person übrig, wird die Runde automatisch beendet. kind landet im Lebensprotokoll.
+ */
+function deductLives(round, playerIds, kind) {
+  const roundLives = db.lives.filter((l) => l.roundId === round.id);
+  const targets = roundLives.filter((l) => playerIds.includes(l.playerId) && l.livesRemaining > 0);
+  const survivors = roundLives.filter((l) => l.livesRemaining > (targets.includes(l) ? 1 : 0));
+  if (!survivors.length) return [];
+  const timestamp = now();
+  targets.forEach((ls) => {
+    const from = ls.livesRemaining;
+    ls.livesRemaining = Math.max(0, ls.livesRemaining - 1);
+    ls.updatedAt = timestamp;
+    recordLifeEvent(round, { playerId: ls.playerId, kind, from, to: ls.livesRemaining });
+  });
+  if (targets.length) broadcastLivesUpdated(round, kind);
+  finishIfDecided(round);
+  return targets.map((ls) => ls.playerId);
+}
+
+/** Meldet die neuen Leben einer Runde per SSE (life_updated); ein dadurch entschiedenes Rundenende folgt als round_finished. */
+function broadcastLivesUpdated(round, kind) {
+  broadcastSse("life_updated", {
+    type: "LIFE_UPDATED",
+    lobbyId: round.lobbyId,
+    roundId: round.id,
+    kind,
+    lives: db.lives.filter((l) => l.roundId === round.id),
+    timestamp: now(),
+  }, { lobbyId: round.lobbyId, topic: "round" });
+}
+
+/** Zieht nach dem Aufdecken am Tisch allen Verlierern ein Leben ab. */
+function applyTableShowdown(round, table) {
+  if (!table.result) return;
+  table.result.losers = deductLives(round, table.result.losers, "table");
+}
+
+/**
+ * Platzierung aller Teilnehmenden einer beendeten Runde: Sieger:in vorn, dahinter nach Restleben;
+ * Ausgeschiedene nach ihrem Ausscheiden laut Lebensprotokoll (später raus = besser). Gleichstand teilt sich den Platz.
+ */
+function roundPlacements(round) {
+  const knownIds = new Set(db.players.map((p) => p.id));
+  const eliminatedAt = (playerId) =>
+    db.lifeEvents.findLast((e) => e.roundId === round.id && e.playerId === playerId && e.to === 0)?.createdAt ?? "";
+  const rows = db.lives
+    .filter((l) => l.roundId === round.id && knownIds.has(l.playerId))
+    .map((l) => ({
+      playerId: l.playerId,
+      won: l.playerId === round.winnerPlayerId,
+      lives: l.livesRemaining,
+      out: l.livesRemaining > 0 ? "" : eliminatedAt(l.playerId),
+    }))
+    .sort((a, b) => Number(b.won) - Number(a.won) || b.lives - a.lives || b.out.localeCompare(a.out));
+  return rows.map((row, index) => {
+    let place = index + 1;
+    for (let i = index - 1; i >= 0; i--) {
+      const prev = rows[i];
+      if (prev.won !== row.won || prev.lives !== row.lives || prev.out !== row.out) break;
+      place = i + 1;
+    }
+    return { playerId: row.playerId, place };
+  });
+}
+
+/** Aktuelle Wertung eines Spielernamens (Startwert, solange noch keine Runde gewertet wurde). */
+function currentRating(key) {
+  return db.ratings.find((r) => r.key === key)?.rating ?? RATING_START;
+}
+
+/** Letzte Wertungsänderung eines Spielernamens für Trendpfeile, null ohne gewertete Runde. */
+function lastRatingDelta(key) {
+  return db.ratingEvents.findLast((e) => e.key === key)?.delta ?? null;
+}
+
+/** Wertet eine gerade beendete Runde (Elo über die Platzierung) und protokolliert jede Änderung. */
+function applyRatings(round) {
+  const playerById = new Map(db.players.map((p) => [p.id, p]));
+  const participants = roundPlacements(round).map(({ playerId, place }) => {
+    const key = playerKey(playerById.get(playerId).name);
+    return { id: playerId, key, place, rating: currentRating(key) };
+  });
+  const changes = computeRatingChanges(participants, RATING_K);
+  if (!changes.size) return;
+  const timestamp = round.endedAt ?? now();
+  participants.forEach(({ id, key, place, rating }) => {
+    const delta = changes.get(id) ?? 0;
+    let entry = db.ratings.find((r) => r.key === key);
+    if (!entry) {
+      entry = { key, name: playerById.get(id).name, rating, updatedAt: timestamp };
+      db.ratings.insert(entry);
+    }
+    entry.rating = rating + delta;
+    entry.name = playerById.get(id).name;
+    entry.updatedAt = timestamp;
+    db.ratingEvents.insert({
+      id: nanoid(12), key, playerId: id, lobbyId: round.lobbyId, roundId: round.id,
+      before: rating, after: entry.rating, delta, place, participants: participants.length, createdAt: timestamp,
+    });
+  });
+}
+
+/** Nimmt die Wertung einer wieder geöffneten Runde zurück (Deltas abziehen, Verlaufseinträge entfernen). */
+function revertRatings(round) {
+  db.ratingEvents
+    .filter((e) => e.roundId === round.id)
+    .forEach((e) => {
+      const entry = db.ratings.find((r) => r.key === e.key);
+      if (entry) entry.rating -= e.delta;
+    });
+  db.ratingEvents.removeWhere((e) => e.roundId === round.id);
+}
+
+/** Punktestände einer Lobby inkl. aktueller Wertung und letzter Wertungsänderung pro Spieler:in. */
+function lobbyScores(lobbyId) {
+  return listPlayers(lobbyId).map((p) => {
+    const key = playerKey(p.name);
+    return { ...scoreFor(p.id), rating: currentRating(key), ratingDelta: lastRatingDelta(key) };
+  });
+}
+
+/**
+ * Beendet eine Runde mit Gewinner:in, vergibt den Punkt, aktualisiert die Elo-Wertung und meldet round_finished per SSE.
+ * automatic kennzeichnet Runden, die der Server selbst beendet hat (nur noch eine Person mit Leben).
+ * Noch offene Sieg-Meldungen außer claimId gelten danach als überholt.
+ */
+function completeRound(round, winnerPlayerId, { automatic = false, claimId = null } = {}) {
+  // Rundenstatus, Punkt und Wertung werden gemeinsam festgeschrieben, damit nie ein Sieg ohne Punkt gespeichert ist.
+  db.transaction(() => {
+    // Bedingt auf state "running": zwei gleichzeitige Rundenenden können nicht beide gewinnen (ConditionalCheckFailed -> 409).
+    // Wer die Runde beendet hat: bei Sieg-Meldungen die meldende Person, sonst der Server (endedBy null).
+    db.updateIf("rounds", round, { state: "running" }, {
+      state: "finished",
+      winnerPlayerId,
+      endedAt: now(),
+      endReason: automatic ? "automatic" : "claim",
+      endedBy: automatic ? null : winnerPlayerId,
+    });
+    db.claims.forEach((claim) => {
+      if (claim.roundId !== round.id || claim.state !== "pending" || claim.id === claimId) return;
+      claim.state = "superseded";
+      claim.decidedAt = round.endedAt;
+    });
+    scoreFor(winnerPlayerId).pointsTotal += 1;
+    applyRatings(round);
+  });
+  const scores = lobbyScores(round.lobbyId);
+  broadcastSse("round_finished", {
+    type: "ROUND_FINISHED",
+    lobbyId: round.lobbyId,
+    roundId: round.id,
+    round: toPublicRound(round),
+    scores,
+    automatic,
+  }, { lobbyId: round.lobbyId, topic: "round" });
+  const lobby = findLobby(round.lobbyId);
+  if (lobby) broadcastLeaderboard("updated", lobby);
+  return scores;
+}
+
+/**
+ * Bis wann eine beendete Runde wieder geöffnet werden darf (ISO) oder null.
+ * Nur die jüngste Runde der Lobby, nur innerhalb von REOPEN_WINDOW_MS und nicht, wenn die Leben den Sieg ohnehin entschieden haben.
+ */
+function reopenDeadline(round) {
+  if (round.state !== "finished" || !round.endedAt || REOPEN_WINDOW_MS <= 0) return null;
+  if (currentRound(round.lobbyId)?.id !== round.id) return null;
+  const alive = db.lives.filter((l) => l.roundId === round.id && l.livesRemaining > 0);
+  if (alive.length <= 1) return null;
+  const deadline = Date.parse(round.endedAt) + REOPEN_WINDOW_MS;
+  return deadline > Date.now() ? new Date(deadline).toISOString() : null;
+}
+
+/** Prüft nach Lebensänderungen, ob nur noch eine Person Leben hat, und beendet die Runde dann automatisch. */
+function finishIfDecided(round) {
+  if (round.state !== "running") return false;
+  const alive = db.lives.filter((l) => l.roundId === round.id && l.livesRemaining > 0);
+  if (alive.length !== 1) return false;
+  completeRound(round, alive[0].playerId, { automatic: true });
+  return true;
+}
+
+/** Offene Sieg-Meldung einer Runde (höchstens eine gleichzeitig). */
+const pendingClaim = (roundId) => db.claims.find((c) => c.roundId === roundId && c.state === "pending") ?? null;
+
+/** Öffentliche Form einer Sieg-Meldung für Rundenantworten und SSE. */
+function toPublicClaim(claim) {
+  return {
+    id: claim.id,
+    claimantId: claim.claimantId,
+    state: claim.state,
+    voters: [...claim.voters],
+    approvals: [...claim.approvals],
+    rejections: [...claim.rejections],
+    quorum: claim.quorum,
+    createdAt: claim.createdAt,
+    expiresAt: claim.expiresAt,
+    decidedAt: claim.decidedAt,
+  };
+}
+
+/** Stimmberechtigt sind alle anderen anwesenden Spieler, die in der Runde noch Leben haben. */
+function claimVotersFor(round, claimantId) {
+  const alive = new Set(
+    db.lives.filter((l) => l.roundId === round.id && l.livesRemaining > 0).map((l) => l.playerId)
+  );
+  return listPlayers(round.lobbyId)
+    .filter((p) => p.id !== claimantId && alive.has(p.id) && p.isActive !== false)
+    .map((p) => p.id);
+}
+
+/** Meldet jede Statusänderung einer Sieg-Meldung (neu, Stimme, Entscheidung) an die Runde. */
+function broadcastClaimUpdate(round, claim) {
+  broadcastSse("winner_claim", {
+    type: "WINNER_CLAIM",
+    lobbyId: round.lobbyId,
+    roundId: round.id,
+    claim: toPublicClaim(claim),
+  }, { lobbyId: round.lobbyId, topic: "round" });
+}
+
+/**
+ * Prüft eine offene Sieg-Meldung gegen das Quorum: genug Zustimmungen beenden die Runde,
+ * sobald das Quorum durch Ablehnungen unerreichbar ist, gilt sie als abgelehnt.
+ * Liefert die Scores, falls die Runde dadurch beendet wurde.
+ * Entscheidung und Rundenende laufen in einer Transaktion: scheitert completeRound (Runde schon beendet), bleibt auch die Meldung offen.
+ */
+function settleClaim(round, claim) {
+  const scores = db.transaction(() => {
+    if (claim.approvals.length >= claim.quorum) {
+      claim.state = "approved";
+      claim.decidedAt = now();
+      return completeRound(round, claim.claimantId, { claimId: claim.id });
+    }
+    if (claim.voters.length - claim.rejections.length < claim.quorum) {
+      claim.state = "rejected";
+      claim.decidedAt = now();
+    }
+    return null;
+  });
+  broadcastClaimUpdate(round, claim);
+  return scores;
+}
+
+/** Lässt eine Sieg-Meldung nach CLAIM_TIMEOUT_MS ohne Entscheidung verfallen. */
+function expireClaim(claimId) {
+  const claim = db.claims.find((c) => c.id === claimId);
+  if (!claim || claim.state !== "pending") return;
+  const round = db.rounds.find((r) => r.id === claim.roundId);
+  claim.state = "expired";
+  claim.decidedAt = now();
+  db.flush();
+  if (round) broadcastClaimUpdate(round, claim);
+}
+
+// Nach einem Neustart mit gespeichertem Stand laufen die Verfallstimer offener Sieg-Meldungen neu an.
+db.claims
+  .filter((claim) => claim.state === "pending")
+  .forEach((claim) => setTimeout(() => expireClaim(claim.id), Math.max(0, Date.parse(claim.expiresAt) - Date.now())));
+
+/** Jüngster nicht abgebrochener Showdown einer Runde (offen oder bereits ausgewertet). */
+function latestShowdown(roundId) {
+  return db.showdowns.findLast((showdown) => showdown.roundId === roundId && showdown.state !== "cancelled") ?? null;
+}
+
+/**
+ * Öffentliche Showdown-Sicht: solange gesammelt wird, sieht niemand fremde Werte, nur wer schon gemeldet hat.
+ */
+function toPublicShowdown(showdown) {
+  const revealed = showdown.state === "resolved";
+  return {
+    id: showdown.id,
+    state: showdown.state,
+    startedBy: showdown.startedBy,
+    participants: showdown.participants.map((playerId) => {
+      const entry = showdown.entries[playerId];
+      return {
+        playerId,
+        submitted: Boolean(entry),
+        value: revealed && entry ? entry.value : null,
+        label: revealed && entry ? entry.label : null,
+      };
+    }),
+    losers: revealed ? showdown.losers : [],
+    feuer: revealed ? showdown.feuer : false,
+    createdAt: showdown.createdAt,
+    resolvedAt: showdown.resolvedAt,
+  };
+}
+
+/**
+ * Wertet einen Showdown aus, sobald alle gemeldet haben: Verlierer bestimmen und Leben in einem Durchgang abziehen.
+ * Läuft synchron innerhalb eines Requests, damit kein anderer Request einen halben Zwischenstand sieht.
+ */
+function resolveShowdown(round, showdown) {
+  const values = Object.fromEntries(showdown.participants.map((playerId) => [playerId, showdown.entries[playerId].value]));
+  showdown.feuer = Object.values(values).some((value) => value === FEUER_VALUE);
+  showdown.state = "resolved";
+  showdown.resolvedAt = now();
+  showdown.losers = deductLives(round, showdownLosers(values), "showdown");
+  broadcastSse("showdown_resolved", {
+    type: "SHOWDOWN_RESOLVED",
+    lobbyId: round.lobbyId,
+    roundId: round.id,
+    showdown: toPublicShowdown(showdown),
+    lives: db.lives.filter((l) => l.roundId === round.id),
+  }, { lobbyId: round.lobbyId, topic: "round" });
+}
+
+/** Meldet Start, Meldungen und Abbruch eines Showdowns (ohne Werte). */
+function broadcastShowdownUpdate(round, showdown) {
+  broadcastSse("showdown_updated", {
+    type: "SHOWDOWN_UPDATED",
+    lobbyId: round.lobbyId,
+    roundId: round.id,
+    showdown: toPublicShowdown(showdown),
+  }, { lobbyId: round.lobbyId, topic: "round" });
+}
+
+/** Meldet Tisch-Änderungen ohne Karteninhalt; Clients laden ihre Sicht anschließend selbst nach. */
+function broadcastTableUpdate(round, table) {
+  broadcastSse("table_updated", {
+    type: "TABLE_UPDATED",
+    lobbyId: round.lobbyId,
+    roundId: round.id,
+    phase: table.phase,
+    dealNumber: table.dealNumber,
+    turnPlayerId: toTableView(table).turnPlayerId,
+  }, { lobbyId: round.lobbyId, topic: "round" });
+}
+
+/**
+ * Meldet eine Echtzeit-Verbindung an (SSE, WebSocket oder Long-Poll): send schreibt ein Event im jeweiligen Format,
+ * keepAlive hält die Leitung offen. Mit lastEventId werden verpasste Events vorab nachgeliefert. Liefert die Abmeldung.
+ */
+function registerRealtimeClient({ lobbyId, topics, lastEventId, send, keepAlive }) {
   const id = nanoid(8);
   const topicSet = topics && topics.size ? topics : undefined;
-  sseClients.push({ id, res, lobbyId: lobbyId || null, topics: topicSet });
+  const client = { id, lobbyId: lobbyId || null, topics: topicSet, send, keepAlive };
+  if (lastEventId !== null && lastEventId !== undefined) missedEvents(client, lastEventId).forEach(send);
+  sseClients.push(client);
   return () => {
     const idx = sseClients.findIndex((c) => c.id === id);
     if (idx !== -1) sseClients.splice(idx, 1);
   };
 }
 
+/** Sendet ein Event mit fortlaufender ID an alle passenden Verbindungen und legt es im Replay-Puffer der Lobby ab. */
 function broadcastSse(eventName, payload, { lobbyId, topic } = {}) {
-  const data = JSON.stringify(payload ?? {});
-  sseClients.forEach((client) => {
-    if (client.lobbyId && lobbyId && client.lobbyId !== lobbyId) return;
-    if (client.lobbyId && !lobbyId) return;
-    if (client.topics && topic && !client.topics.has(topic)) return;
-    client.res.write(`event: ${eventName}\n`);
-    client.res.write(`data: ${data}\n\n`);
+  const entry = { id: ++sseLastId, eventName, lobbyId: lobbyId || null, topic: topic || null, data: JSON.stringify(payload ?? {}) };
+  rememberSseEvent(entry);
+  if (entry.lobbyId) touchLobbyState(entry.lobbyId);
+  // Kopie, weil sich Long-Poll-Clients beim ersten Event selbst abmelden.
+  [...sseClients].forEach((client) => {
+    if (sseClientWants(client, entry)) client.send(entry);
   });
 }
 
+/** Filter einer Verbindung: Lobby-Clients bekommen nur Events ihrer Lobby, Topic-Filter greifen nur bei Events mit Topic. */
+function sseClientWants(client, { lobbyId, topic }) {
+  if (client.lobbyId && lobbyId && client.lobbyId !== lobbyId) return false;
+  if (client.lobbyId && !lobbyId) return false;
+  if (client.topics && topic && !client.topics.has(topic)) return false;
+  return true;
+}
+
+function writeSseEvent(res, { id, eventName, data }) {
+  res.write(`${id ? `id: ${id}\n` : ""}event: ${eventName}\ndata: ${data}\n\n`);
+}
+
+/** Umschlag für WebSocket und Long-Poll: dieselben Felder wie ein SSE-Event ({ id, event, data }), data bereits als JSON. */
+function toEventEnvelope({ id, eventName, data }) {
+  return `{"id":${id ?? null},"event":${JSON.stringify(eventName)},"data":${data}}`;
+}
+
+/** connected-Event zum Verbindungsaufbau; ohne Last-Event-ID mit der aktuellen ID, damit auch ein Abbruch vor dem ersten Event nachgeholt werden kann. */
+function connectedEvent({ lobbyId, topics, lastEventId }) {
+  return {
+    id: lastEventId === null ? sseLastId : null,
+    eventName: "connected",
+    data: JSON.stringify({ ok: true, lobbyId, topics: topics ? Array.from(topics) : undefined }),
+  };
+}
+
+function rememberSseEvent(entry) {
+  if (SSE_REPLAY_LIMIT <= 0) return;
+  const key = entry.lobbyId ?? "*";
+  const buffer = sseHistory.get(key) ?? { events: [], droppedId: 0 };
+  buffer.events.push(entry);
+  if (buffer.events.length > SSE_REPLAY_LIMIT) buffer.droppedId = buffer.events.shift().id;
+  sseHistory.set(key, buffer);
+}
+
+/**
+ * Alle Events nach lastEventId, die ein Client verpasst hat, in Originalreihenfolge.
+ * Reicht der Puffer nicht so weit zurück oder stammt die ID aus einem früheren Serverlauf, kommt stattdessen nur ein resync-Event;
+ * dessen ID ist die aktuelle, damit der nächste Reconnect nicht erneut eine Lücke meldet.
+ */
+function missedEvents(client, lastEventId) {
+  const buffers = client.lobbyId
+    ? [sseHistory.get(client.lobbyId)].filter(Boolean)
+    : Array.from(sseHistory.values());
+  const reason =
+    lastEventId < sseBootId || lastEventId > sseLastId
+      ? "restart"
+      : SSE_REPLAY_LIMIT <= 0 || buffers.some((buffer) => buffer.droppedId > lastEventId)
+        ? "gap"
+        : null;
+  if (reason) {
+    return [{
+      id: sseLastId,
+      eventName: "resync",
+      data: JSON.stringify({ type: "RESYNC_REQUIRED", lobbyId: client.lobbyId, lastEventId, reason, timestamp: now() }),
+    }];
+  }
+  return buffers
+    .flatMap((buffer) => buffer.events)
+    .filter((entry) => entry.id > lastEventId && sseClientWants(client, entry))
+    .sort((a, b) => a.id - b.id);
+}
+
+/** Filter einer Stream-Anfrage: ?lobbyId= und ?topic(s)= (kommagetrennt), gleich für SSE, WebSocket und Long-Poll. */
+function readStreamFilter(query = {}) {
+  const lobbyId = typeof query.lobbyId === "string" && query.lobbyId.trim() ? query.lobbyId.trim() : null;
+  const topicsRaw = String(query.topic || query.topics || "").trim();
+  const topics =
+    topicsRaw.length > 0
+      ? new Set(
+          topicsRaw
+            .split(",")
+            .map((t) => t.trim().toLowerCase())
+            .filter(Boolean)
+        )
+      : undefined;
+  return { lobbyId, topics };
+}
+
+/** Event-ID aus Last-Event-ID bzw. ?lastEventId=; alles andere als eine positive Ganzzahl zählt als fehlend. */
+function parseEventId(raw) {
+  const value = Number(typeof raw === "string" ? raw.trim() : NaN);
+  return Number.isSafeInteger(value) && value > 0 ? value : null;
+}
+
+function lobbyStateVersion(lobbyId) {
+  return lobbyStateVersions.get(lobbyId) ?? sseBootId;
+}
+
+/** Erhöht die Zustandsversion der Lobby und weckt wartende Long-Polls – erst im nächsten Tick, damit die Route ihre Änderungen abschließt. */
+function touchLobbyState(lobbyId) {
+  lobbyStateVersions.set(lobbyId, ++lobbyStateSeq);
+  const waiters = lobbyStateWaiters.get(lobbyId);
+  if (waiters) setImmediate(() => [...waiters].forEach((wake) => wake()));
+}
+
+function removeLobbyStateWaiter(lobbyId, wake) {
+  const waiters = lobbyStateWaiters.get(lobbyId);
+  waiters?.delete(wake);
+  if (waiters && !waiters.size) lobbyStateWaiters.delete(lobbyId);
+}
+
+/**
+ * JSON-Antwort mit starkem ETag (Hash über den Body) für gepollte GETs; passt If-None-Match, kommt 304 ohne Body.
+ * Der Client nutzt dann seinen zuletzt gelesenen Stand weiter (siehe ApiClient.call).
+ */
+function sendWithEtag(req, res, payload) {
+  const etag = `"${createHash("sha1").update(JSON.stringify(payload)).digest("base64url")}"`;
+  res.set("ETag", etag);
+  // Eigener Vergleich statt req.fresh: fetch() schickt zu einem gesetzten If-None-Match immer Cache-Control: no-cache mit,
+  // was req.fresh als "nicht frisch" wertet.
+  const candidates = String(req.get("If-None-Match") || "").split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+  if (candidates.includes(etag) || candidates.includes("*")) return res.status(304).end();
+  res.json(payload);
+}
+
+/** Last-Event-ID aus dem Header (automatischer Reconnect des Browsers) oder ?lastEventId= (neu geöffnete Verbindung). */
+function readLastEventId(req) {
+  return parseEventId(req.get("Last-Event-ID") ?? req.query?.lastEventId);
+}
+
 setInterval(() => {
   sseClients.forEach((client) => {
     try {
-      client.res.write(`: keep-alive ${Date.now()}\n\n`);
+      client.keepAlive?.();
     } catch {
       /* Aufräum-Logik passiert im close-Handler */
     }
   });
 }, SSE_HEARTBEAT_MS);
+
+/**
+ * Setzt den Aktiv-Status eines Spielers und meldet echte Wechsel per SSE (player_active/player_inactive).
+ * Liefert true, wenn sich der Status tatsächlich geändert hat.
+ */
+function setPlayerPresence(player, isActive) {
+  const wasActive = player.isActive !== false;
+  player.isActive = isActive;
+  if (wasActive === isActive || !player.lobbyId) return false;
+  broadcastSse(isActive ? "player_active" : "player_inactive", {
+    type: isActive ? "PLAYER_ACTIVE" : "PLAYER_INACTIVE",
+    lobbyId: player.lobbyId,
+    playerId: player.id,
+    playerName: player.name,
+    lastSeen: player.lastSeen ?? null,
+    timestamp: now(),
+  }, { lobbyId: player.lobbyId, topic: "lobby" });
+  return true;
+}
+
+/** Meldet eine geänderte Leaderboard-Zeile an /leaderboard/stream (added/updated mit vollständigem Eintrag, removed nur mit ID). */
+function broadcastLeaderboard(type, lobby) {
+  const payload = type === "removed" ? { type, lobbyId: lobby.id } : { type, entry: toLeaderboardEntry(lobby) };
+  broadcastSse("message", payload, { topic: "leaderboard" });
+}
+
+/** Meldet einen erfolgreichen Join bzw. Rejoin per SSE (player_joined), damit Mitspielende die Liste ohne Poll erweitern. */
+function broadcastPlayerJoined(player, mode) {
+  broadcastSse("player_joined", {
+    type: "PLAYER_JOINED",
+    lobbyId: player.lobbyId,
+    player: toPublicPlayer(player),
+    mode,
+    timestamp: now(),
+  }, { lobbyId: player.lobbyId, topic: "lobby" });
+}
+
+/**
+ * Presence-Sweeper: markiert Spieler als inaktiv, deren letzter Heartbeat älter als PRESENCE_GRACE_MS ist.
+ * Inaktive Spieler zählen nicht mehr gegen MAX_PLAYERS_PER_LOBBY (siehe processJoinOrRejoin).
+ */
+function sweepInactivePlayers() {
+  const threshold = Date.now() - PRESENCE_GRACE_MS;
+  db.players.forEach((player) => {
+    if (!player.lobbyId || player.isActive === false) return;
+    const lastSeen = Date.parse(player.lastSeen ?? "");
+    if (Number.isNaN(lastSeen) || lastSeen >= threshold) return;
+    if (!setPlayerPresence(player, false)) return;
+    db.releaseSeat(player.lobbyId);
+    // Zusätzlich zu player_inactive: der Platz ist frei, bis die Person per Presence-Ping oder Rejoin zurückkommt.
+    broadcastSse("player_left", {
+      type: "PLAYER_LEFT",
+      lobbyId: player.lobbyId,
+      playerId: player.id,
+      playerName: player.name,
+      reason: "timeout",
+      timestamp: now(),
+    }, { lobbyId: player.lobbyId, topic: "lobby" });
+  });
+  db.flush();
+}
+
+if (PRESENCE_GRACE_MS > 0 && PRESENCE_SWEEP_MS > 0) {
+  setInterval(sweepInactivePlayers, PRESENCE_SWEEP_MS);
+}
 /**
  * Löscht eine Lobby inkl. aller zugehörigen Spieler, Runden, Lives und Scores.
  * Erwartet entweder eine Lobby-ID oder einen Namen und liefert das entfernte Lobby-Objekt plus Zähler zurück.
@@ -201,21 +949,21 @@ function removeLobbyCascade({ lobbyId, lobbyName }) {
   const roundIds = new Set(rounds.map((round) => round.id));
   const timestamp = now();
 
-  db.lobbies = db.lobbies.filter((entry) => entry.id !== id);
-  db.players = db.players.map((player) => {
-    if (player.lobbyId !== id) return player;
-    return {
-      ...player,
-      lobbyId: null,
-      lastLobbyId: id,
-      isActive: false,
-      sessionId: null,
-      lastSeen: timestamp,
-    };
+  // Alles in einer Transaktion: entweder ist die Lobby samt Runden, Leben usw. weg oder gar nichts davon.
+  db.transaction(() => {
+    db.lobbies.removeWhere((entry) => entry.id === id);
+    db.players.updateWhere(
+      (player) => player.lobbyId === id,
+      () => ({ lobbyId: null, lastLobbyId: id, isActive: false, sessionId: null, lastSeen: timestamp })
+    );
+    db.scores.removeWhere((score) => playerIds.has(score.playerId));
+    db.rounds.removeWhere((round) => round.lobbyId === id);
+    db.lives.removeWhere((life) => roundIds.has(life.roundId));
+    db.tables.removeWhere((table) => roundIds.has(table.roundId));
+    db.showdowns.removeWhere((showdown) => roundIds.has(showdown.roundId));
+    db.claims.removeWhere((claim) => roundIds.has(claim.roundId));
+    db.lifeEvents.removeWhere((entry) => roundIds.has(entry.roundId));
   });
-  db.scores = db.scores.filter((score) => !playerIds.has(score.playerId));
-  db.rounds = db.rounds.filter((round) => round.lobbyId !== id);
-  db.lives = db.lives.filter((life) => !roundIds.has(life.roundId));
 
   broadcastSse("lobby_deleted", {
     type: "LOBBY_DELETED",
@@ -226,6 +974,9 @@ function removeLobbyCascade({ lobbyId, lobbyName }) {
     playerIds: players.map((p) => p.id),
     timestamp,
   }, { lobbyId: lobby.id, topic: "lobby" });
+  broadcastLeaderboard("removed", lobby);
+  setTimeout(() => sseHistory.delete(lobby.id), SSE_REPLAY_RETENTION_MS).unref();
+  lobbyStateVersions.delete(lobby.id);
 
   return {
     lobby,
@@ -319,12 +1070,30 @@ function processJoinOrRejoin({ lobby, rawName, clientSessionId }) {
     const nextSessionId = sanitizedSessionId || generateServerSessionId();
     const sessionReplaced = Boolean(previousSessionId && previousSessionId !== nextSessionId);
 
+    // Wer vom Sweeper als inaktiv markiert wurde, braucht wieder einen freien Platz – wie beim Presence-Ping.
+    if (existing.isActive === false) {
+      try {
+        db.transaction(() => {
+          db.claimSeat(lobby.id, MAX_PLAYERS_PER_LOBBY);
+          existing.lastSeen = timestamp;
+          setPlayerPresence(existing, true);
+        });
+      } catch (err) {
+        if (!isConditionFailure(err)) throw err;
+        return {
+          status: 409,
+          payload: buildJoinError("MAX_PLAYERS", LOBBY_FULL_MESSAGE_CLEAN),
+        };
+      }
+    }
+
     existing.isActive = true;
     existing.sessionId = nextSessionId;
     existing.lastSeen = timestamp;
     existing.lobbyId = lobby.id;
 
     const playerLives = latestLifeSnapshotForPlayer(lobby.id, existing.id);
+    broadcastPlayerJoined(existing, "rejoin");
     return {
       status: 200,
       payload: buildJoinSuccess(existing, "rejoin", {
@@ -335,14 +1104,6 @@ function processJoinOrRejoin({ lobby, rawName, clientSessionId }) {
     };
   }
 
-  const activeCount = players.filter((player) => player.isActive !== false).length;
-  if (activeCount >= MAX_PLAYERS_PER_LOBBY) {
-    return {
-      status: 409,
-      payload: buildJoinError("MAX_PLAYERS", LOBBY_FULL_MESSAGE_CLEAN),
-    };
-  }
-
   const player = {
     id: nanoid(10),
     name,
@@ -352,9 +1113,23 @@ function processJoinOrRejoin({ lobby, rawName, clientSessionId }) {
     sessionId: sanitizedSessionId || generateServerSessionId(),
     lastSeen: timestamp,
   };
-  db.players.push(player);
-  scoreFor(player.id);
+  // Die Platzvergabe ist ein bedingter Schreibzugriff: wer den letzten Platz verpasst, bekommt MAX_PLAYERS statt eines neunten Stuhls.
+  try {
+    db.transaction(() => {
+      db.claimSeat(lobby.id, MAX_PLAYERS_PER_LOBBY);
+      db.players.insert(player);
+      scoreFor(player.id);
+    });
+  } catch (err) {
+    if (!isConditionFailure(err)) throw err;
+    return {
+      status: 409,
+      payload: buildJoinError("MAX_PLAYERS", LOBBY_FULL_MESSAGE_CLEAN),
+    };
+  }
   const playerLives = latestLifeSnapshotForPlayer(lobby.id, player.id);
+  broadcastPlayerJoined(player, "join");
+  broadcastLeaderboard("updated", lobby);
   return {
     status: 201,
     payload: buildJoinSuccess(player, "join", {
@@ -366,55 +1141,169 @@ function processJoinOrRejoin({ lobby, rawName, clientSessionId }) {
 
 /**
  * SSE-Endpoint für Events wie LOBBY_DELETED.
- * Optionaler Query-Filter: ?lobbyId=XYZ begrenzt Events auf eine Lobby.
+ * Optionaler Query-Filter: ?lobbyId=XYZ begrenzt Events auf eine Lobby, ?topic=lobby|round auf ein Thema.
+ * Ohne topic kommen alle Themen der Lobby über eine Verbindung (so nutzt es der gemeinsame Stream im Frontend).
+ * Jedes Event trägt eine fortlaufende id; mit Last-Event-ID (Header oder ?lastEventId=) werden verpasste Events nachgeliefert.
  */
 app.get("/events", (req, res) => {
+  openSseStream(req, res, readStreamFilter(req.query));
+});
+
+/** Öffnet eine SSE-Verbindung: Header, retry, connected, ggf. Replay ab Last-Event-ID; danach empfängt sie broadcastSse-Events. */
+function openSseStream(req, res, { lobbyId, topics }) {
   res.setHeader("Content-Type", "text/event-stream");
   res.setHeader("Cache-Control", "no-cache");
   res.setHeader("Connection", "keep-alive");
   if (typeof res.flushHeaders === "function") res.flushHeaders();
 
-  const lobbyId =
-    typeof req.query?.lobbyId === "string" && req.query.lobbyId.trim()
-      ? req.query.lobbyId.trim()
-      : null;
-  const topicsRaw = String(req.query?.topic || req.query?.topics || "").trim();
-  const topics =
-    topicsRaw.length > 0
-      ? new Set(
-          topicsRaw
-            .split(",")
-            .map((t) => t.trim().toLowerCase())
-            .filter(Boolean)
-        )
-      : undefined;
-
+  const lastEventId = readLastEventId(req);
   res.write(`retry: ${SSE_RETRY_MS}\n\n`);
-  res.write(
-    `event: connected\n` +
-      `data: ${JSON.stringify({
-        ok: true,
-        lobbyId,
-        topics: topics ? Array.from(topics) : undefined,
-      })}\n\n`
-  );
+  writeSseEvent(res, connectedEvent({ lobbyId, topics, lastEventId }));
 
-  const cleanup = registerSseClient(res, { lobbyId, topics });
+  const cleanup = registerRealtimeClient({
+    lobbyId,
+    topics,
+    lastEventId,
+    send: (entry) => writeSseEvent(res, entry),
+    keepAlive: () => res.write(`: keep-alive ${Date.now()}\n\n`),
+  });
   req.on("close", cleanup);
+}
+
+/**
+ * GET /events/poll
+ * Long-Polling-Variante von /events für Netze ohne SSE und WebSocket; Filter wie dort, dazu ?lastEventId=.
+ * Ohne lastEventId kommt sofort { events: [], lastEventId } als Startpunkt. Sonst antwortet der Server mit allen verpassten Events
+ * bzw. hält die Anfrage bis zum nächsten passenden Event oder LONG_POLL_TIMEOUT_MS. events enthält Umschläge { id, event, data }.
+ */
+app.get("/events/poll", (req, res) => {
+  const { lobbyId, topics } = readStreamFilter(req.query);
+  const lastEventId = parseEventId(req.query?.lastEventId);
+  const respond = (entries) =>
+    res
+      .type("application/json")
+      .send(`{"events":[${entries.map(toEventEnvelope).join(",")}],"lastEventId":${entries.at(-1)?.id ?? lastEventId}}`);
+  if (lastEventId === null) return res.json({ events: [], lastEventId: sseLastId });
+
+  const missed = missedEvents({ lobbyId, topics }, lastEventId);
+  if (missed.length) return respond(missed);
+
+  // Events aus demselben Request (z. B. life_updated + round_finished) gesammelt im nächsten Tick ausliefern.
+  const pending = [];
+  const finish = () => {
+    cleanup();
+    clearTimeout(timer);
+    if (!res.headersSent) respond(pending);
+  };
+  const cleanup = registerRealtimeClient({
+    lobbyId,
+    topics,
+    lastEventId,
+    send: (entry) => {
+      if (!pending.length) setImmediate(finish);
+      pending.push(entry);
+    },
+  });
+  const timer = setTimeout(finish, LONG_POLL_TIMEOUT_MS);
+  res.on("close", () => {
+    cleanup();
+    clearTimeout(timer);
+  });
 });
+
+/**
+ * WebSocket-Variante von /events unter /events/ws (gleiche Query-Parameter inkl. ?lastEventId=).
+ * Jede Nachricht ist ein Umschlag { id, event, data } mit denselben Events wie der SSE-Stream; gedacht für Netze,
+ * deren Proxys text/event-stream puffern. Den Upgrade nimmt startServer entgegen.
+ */
+function openWebSocketStream(socket, query) {
+  const { lobbyId, topics } = readStreamFilter(query);
+  const lastEventId = parseEventId(query.lastEventId);
+  const send = (entry) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(toEventEnvelope(entry));
+  };
+  send(connectedEvent({ lobbyId, topics, lastEventId }));
+  const cleanup = registerRealtimeClient({ lobbyId, topics, lastEventId, send, keepAlive: () => socket.ping() });
+  socket.on("close", cleanup);
+  socket.on("error", cleanup);
+}
 // ===== Lobbys & Spieler =====
 /**
  * GET /lobbies
  * Liefert alle bekannten Lobbys (inkl. Status) sortiert nach Erstellzeit.
  * Wird im Home-/Lobby-Screen genutzt, um verfügbare Räume aufzulisten.
  */
-app.get("/lobbies",(_req,res)=>{ res.json([...db.lobbies].sort((a,b)=>a.createdAt<b.createdAt?1:-1)); });
+app.get("/lobbies",(_req,res)=>{ res.json(db.lobbies.all().sort((a,b)=>a.createdAt<b.createdAt?1:-1).map(toPublicLobby)); });
 /**
  * GET /lobbies/:id
  * Gibt eine spezifische Lobby anhand ihrer ID zurück, 404 falls unbekannt.
  * Ermöglicht Detailansichten oder Datenabgleiche im Frontend.
  */
-app.get("/lobbies/:id",(req,res)=>{ const l=findLobby(req.params.id); if(!l) return res.status(404).json({error:"Lobby nicht gefunden"}); res.json(l); });
+app.get("/lobbies/:id",(req,res)=>{ const l=findLobby(req.params.id); if(!l) return res.status(404).json({error:"Lobby nicht gefunden"}); res.json(toPublicLobby(l)); });
+
+/**
+ * GET /lobbies/:id/state[?since=<version>&playerId=..&clientSessionId=..]
+ * Gesamtstand einer Lobby in einer Antwort: { version, lobby, round, lives, scores, players }; round ist null, solange es keine Runde gibt.
+ * Ersetzt die drei Abfragen (Lobby, aktuelle Runde, Spieler) der Spiel-Screens. Viewer-Parameter wie bei /rounds/current.
+ * Mit since hält der Server die Anfrage, solange version gleich since ist – bis zur nächsten Änderung oder LONG_POLL_TIMEOUT_MS,
+ * danach kommt der unveränderte Stand. lastSeen-Updates durch Presence-Pings zählen nicht als Änderung.
+ */
+app.get("/lobbies/:id/state",(req,res)=>{
+  const lobbyId = req.params.id;
+  if(!findLobby(lobbyId)) return res.status(404).json({error:"Lobby nicht gefunden"});
+  const respond = () => {
+    const lobby = findLobby(lobbyId);
+    if(!lobby) return res.status(404).json({error:"Lobby nicht gefunden"});
+    res.json(lobbyStateSnapshot(lobby, req.query));
+  };
+  const since = parseEventId(req.query.since);
+  if(since === null || since !== lobbyStateVersion(lobbyId)) return respond();
+
+  const wake = () => {
+    removeLobbyStateWaiter(lobbyId, wake);
+    clearTimeout(timer);
+    if(!res.headersSent) respond();
+  };
+  const timer = setTimeout(wake, LONG_POLL_TIMEOUT_MS);
+  if(!lobbyStateWaiters.has(lobbyId)) lobbyStateWaiters.set(lobbyId, new Set());
+  lobbyStateWaiters.get(lobbyId).add(wake);
+  res.on("close", () => {
+    removeLobbyStateWaiter(lobbyId, wake);
+    clearTimeout(timer);
+  });
+});
+
+function lobbyStateSnapshot(lobby, query) {
+  const round = currentRound(lobby.id);
+  return {
+    version: lobbyStateVersion(lobby.id),
+    lobby: toPublicLobby(lobby),
+    round: round ? toPublicRound(round, roundViewerId(lobby.id, query)) : null,
+    lives: round ? db.lives.filter(l=>l.roundId===round.id) : [],
+    scores: lobbyScores(lobby.id),
+    players: listPlayers(lobby.id).map((player) => toPublicPlayer(player)),
+  };
+}
+
+/**
+ * PUT /lobbies/:id/seats
+ * Body: { playerId, clientSessionId, order: string[] }. Speichert die per Drag & Drop festgelegte Sitzordnung;
+ * order muss genau die aktuellen Spieler-IDs der Lobby enthalten.
+ */
+app.put("/lobbies/:id/seats",(req,res)=>{
+  const lobby=findLobby(req.params.id); if(!lobby) return res.status(404).json({error:"Lobby nicht gefunden"});
+  const player = listPlayers(lobby.id).find(p=>p.id===String(req.body?.playerId||""));
+  if(!player) return res.status(404).json({error:"Spieler nicht gefunden"});
+  if(isSessionStale(player, req.body?.clientSessionId)) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
+  const current = seatOrderFor(lobby);
+  const order = req.body?.order;
+  const valid = Array.isArray(order) && order.length===current.length && new Set(order).size===current.length && order.every((id)=>current.includes(id));
+  if(!valid) return res.status(400).json({error:"Sitzordnung passt nicht zu den Spielern der Lobby.",errorCode:"INVALID_SEAT_ORDER"});
+  player.lastSeen = now();
+  lobby.seatOrder = [...order];
+  broadcastSse("seats_updated", { type: "SEATS_UPDATED", lobbyId: lobby.id, seatOrder: lobby.seatOrder, timestamp: now() }, { lobbyId: lobby.id, topic: "lobby" });
+  res.json(toPublicLobby(lobby));
+});
 
 /**
  * GET /players?lobbyId=XYZ
@@ -423,7 +1312,7 @@ app.get("/lobbies/:id",(req,res)=>{ const l=findLobby(req.params.id); if(!l) ret
  */
 app.get("/players",(req,res)=>{
   const lobbyId = String(req.query.lobbyId||""); if(!findLobby(lobbyId)) return res.status(404).json({error:"Lobby nicht gefunden"});
-  res.json(listPlayers(lobbyId).map((player) => toPublicPlayer(player)));
+  sendWithEtag(req, res, listPlayers(lobbyId).map((player) => toPublicPlayer(player)));
 });
 
 /**
@@ -446,9 +1335,170 @@ app.get("/players/all-names", (_req, res) => {
   res.json({ names });
 });
 
+/**
+ * GET /players/:name/ratings?limit=50
+ * Elo-Wertung eines Spielernamens (lobbyübergreifend, ohne Groß-/Kleinschreibung) samt Verlauf, neueste Änderung zuerst.
+ * Response { key, name, rating, ratingDelta, history: [{ roundId, lobbyId, before, after, delta, place, participants, createdAt }] }.
+ */
+app.get("/players/:name/ratings",(req,res)=>{
+  const key = playerKey(req.params.name);
+  const known = db.ratings.find((r) => r.key === key) ?? db.players.find((p) => playerKey(p.name) === key);
+  if(!key || !known) return res.status(404).json({error:"Spieler nicht gefunden"});
+  const requested = Number(req.query.limit);
+  const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, RATING_HISTORY_LIMIT) : RATING_HISTORY_LIMIT;
+  const history = db.ratingEvents
+    .filter((e) => e.key === key)
+    .slice(-limit)
+    .reverse()
+    .map(({ id, key: _key, ...entry }) => entry);
+  res.json({ key, name: known.name, rating: currentRating(key), ratingDelta: lastRatingDelta(key), history });
+});
+
+/**
+ * Teilnahmen eines Spielernamens an beendeten Runden aller Lobbys, älteste zuerst.
+ * Je Runde: Platzierung (wie bei der Elo-Wertung), Sieg und ob die Person zwischendurch nur noch ein Leben hatte (Schwimmst).
+ */
+function playerParticipations(playerIds) {
+  return db.rounds
+    .filter((round) => round.state === "finished")
+    .map((round) => {
+      const life = db.lives.find((l) => l.roundId === round.id && playerIds.has(l.playerId));
+      if (!life) return null;
+      const placements = roundPlacements(round);
+      const lastLife =
+        life.livesRemaining === 1 ||
+        db.lifeEvents.some((e) => e.roundId === round.id && e.playerId === life.playerId && e.to === 1);
+      return {
+        round,
+        playerId: life.playerId,
+        place: placements.find((p) => p.playerId === life.playerId)?.place ?? placements.length,
+        participants: placements.length,
+        won: round.winnerPlayerId === life.playerId,
+        lastLife,
+      };
+    })
+    .filter(Boolean)
+    .sort((a, b) => ((a.round.endedAt ?? a.round.createdAt) < (b.round.endedAt ?? b.round.createdAt) ? -1 : 1));
+}
+
+/**
+ * GET /players/:name/stats
+ * Profil-Statistik eines Spielernamens über alle Lobbys: Siege, Runden, Ø-Platzierung, Schwimmst-Siege,
+ * Lieblingslobbys (meiste Runden, max. 3) und die Form der letzten 10 Runden (neueste zuerst).
+ */
+app.get("/players/:name/stats",(req,res)=>{
+  const key = playerKey(req.params.name);
+  const records = db.players.filter((p) => playerKey(p.name) === key);
+  if(!key || !records.length) return res.status(404).json({error:"Spieler nicht gefunden"});
+  const playerIds = new Set(records.map((p) => p.id));
+  const participations = playerParticipations(playerIds);
+  const wins = participations.filter((p) => p.won).length;
+  const lobbyNameById = new Map(db.lobbies.map((l) => [l.id, l.name]));
+
+  const perLobby = new Map();
+  participations.forEach(({ round, won }) => {
+    const entry = perLobby.get(round.lobbyId) ?? { lobbyId: round.lobbyId, lobbyName: lobbyNameById.get(round.lobbyId) ?? null, rounds: 0, wins: 0 };
+    entry.rounds += 1;
+    if (won) entry.wins += 1;
+    perLobby.set(round.lobbyId, entry);
+  });
+
+  res.json({
+    key,
+    name: records[records.length - 1].name,
+    wins,
+    roundsPlayed: participations.length,
+    winRate: participations.length ? Math.round((wins / participations.length) * 1000) / 1000 : 0,
+    averagePlace: participations.length
+      ? Math.round((participations.reduce((sum, p) => sum + p.place, 0) / participations.length) * 100) / 100
+      : null,
+    schwimmstRounds: participations.filter((p) => p.lastLife).length,
+    schwimmstWins: participations.filter((p) => p.lastLife && p.won).length,
+    pointsTotal: db.scores.filter((s) => playerIds.has(s.playerId)).reduce((sum, s) => sum + s.pointsTotal, 0),
+    rating: currentRating(key),
+    ratingDelta: lastRatingDelta(key),
+    favouriteLobbies: [...perLobby.values()].sort((a, b) => b.rounds - a.rounds || b.wins - a.wins).slice(0, 3),
+    form: participations
+      .slice(-10)
+      .reverse()
+      .map(({ round, place, participants, won }) => ({
+        roundId: round.id,
+        lobbyId: round.lobbyId,
+        lobbyName: lobbyNameById.get(round.lobbyId) ?? null,
+        number: round.number,
+        place,
+        participants,
+        won,
+        endedAt: round.endedAt ?? null,
+      })),
+  });
+});
+
+/**
+ * GET /players/head-to-head?a=<name>&b=<name>
+ * Direkter Vergleich zweier Spielernamen über alle beendeten Runden, in denen beide mitgespielt haben:
+ * Siege, wer vor wem landete, Serien (wer zuletzt mehrfach in Folge vorn lag) und die letzten 10 gemeinsamen Runden.
+ */
+app.get("/players/head-to-head",(req,res)=>{
+  const keyA = playerKey(req.query.a ?? "");
+  const keyB = playerKey(req.query.b ?? "");
+  if(!keyA || !keyB) return res.status(400).json({error:"Bitte zwei Spielernamen angeben."});
+  if(keyA === keyB) return res.status(400).json({error:"Bitte zwei verschiedene Spieler:innen wählen.",errorCode:"SAME_PLAYER"});
+  const recordsA = db.players.filter((p) => playerKey(p.name) === keyA);
+  const recordsB = db.players.filter((p) => playerKey(p.name) === keyB);
+  if(!recordsA.length || !recordsB.length) return res.status(404).json({error:"Spieler nicht gefunden"});
+
+  const byRoundB = new Map(playerParticipations(new Set(recordsB.map((p) => p.id))).map((p) => [p.round.id, p]));
+  const shared = playerParticipations(new Set(recordsA.map((p) => p.id)))
+    .filter((a) => byRoundB.has(a.round.id))
+    .map((a) => {
+      const b = byRoundB.get(a.round.id);
+      return { round: a.round, a, b, ahead: a.place < b.place ? "a" : b.place < a.place ? "b" : null };
+    });
+
+  // Serien: aufeinanderfolgende gemeinsame Runden, in denen dieselbe Person vorn lag; Gleichstand beendet die Serie.
+  const longest = { a: 0, b: 0 };
+  let streak = { holder: null, length: 0 };
+  shared.forEach(({ ahead }) => {
+    streak = ahead && ahead === streak.holder ? { holder: ahead, length: streak.length + 1 } : { holder: ahead, length: ahead ? 1 : 0 };
+    if (ahead) longest[ahead] = Math.max(longest[ahead], streak.length);
+  });
+  const lobbyNameById = new Map(db.lobbies.map((l) => [l.id, l.name]));
+  const summary = (key, records) => ({ key, name: records[records.length - 1].name, rating: currentRating(key) });
+
+  res.json({
+    a: summary(keyA, recordsA),
+    b: summary(keyB, recordsB),
+    sharedRounds: shared.length,
+    winsA: shared.filter((s) => s.a.won).length,
+    winsB: shared.filter((s) => s.b.won).length,
+    aheadA: shared.filter((s) => s.ahead === "a").length,
+    aheadB: shared.filter((s) => s.ahead === "b").length,
+    ties: shared.filter((s) => !s.ahead).length,
+    currentStreak: streak.holder ? streak : null,
+    longestStreakA: longest.a,
+    longestStreakB: longest.b,
+    rounds: shared
+      .slice(-10)
+      .reverse()
+      .map(({ round, a, b, ahead }) => ({
+        roundId: round.id,
+        lobbyId: round.lobbyId,
+        lobbyName: lobbyNameById.get(round.lobbyId) ?? null,
+        number: round.number,
+        placeA: a.place,
+        placeB: b.place,
+        participants: a.participants,
+        winner: a.won ? "a" : b.won ? "b" : null,
+        ahead,
+        endedAt: round.endedAt ?? null,
+      })),
+  });
+});
+
 /**
  * POST /lobbies
- * Body: { name: string } mit Namenslänge 2-22 Zeichen.
+ * Body: { name: string, mode?: "companion"|"table" } mit Namenslänge 2-22 Zeichen.
  * Erstellt eine neue Lobby, setzt Status "open" und liefert das Objekt (201).
  */
 app.post("/lobbies",(req,res)=>{
@@ -456,7 +1506,18 @@ app.post("/lobbies",(req,res)=>{
   if(name.length<2) return res.status(400).json({error:"Name zu kurz (min. 2)"});
   if(name.length>MAX_LOBBY_NAME) return res.status(400).json({error:`Name zu lang (max. ${MAX_LOBBY_NAME})`});
   if(db.lobbies.some(l=>l.name.toLowerCase()===name.toLowerCase())) return res.status(409).json({error:"Lobbyname bereits vergeben"});
-  const lobby={id:nanoid(10),name,createdAt:now(),status:"open"}; db.lobbies.push(lobby); res.status(201).json(lobby);
+  const mode = ROUND_MODES.includes(req.body?.mode) ? req.body.mode : "companion";
+  const lobby={id:nanoid(10),name,createdAt:now(),status:"open",mode,seatOrder:[]}; db.lobbies.insert(lobby); broadcastLeaderboard("added", lobby); res.status(201).json(toPublicLobby(lobby));
+});
+
+/**
+ * PATCH /lobbies/:id/mode
+ * Body: { mode: "companion"|"table" }. Legt fest, in welchem Modus die nächsten Runden der Lobby starten.
+ */
+app.patch("/lobbies/:id/mode",(req,res)=>{
+  const lobby=findLobby(req.params.id); if(!lobby) return res.status(404).json({error:"Lobby nicht gefunden"});
+  const mode=req.body?.mode; if(!ROUND_MODES.includes(mode)) return res.status(400).json({error:"Unbekannter Spielmodus"});
+  lobby.mode=mode; touchLobbyState(lobby.id); res.json(toPublicLobby(lobby));
 });
 
 /**
@@ -517,6 +1578,42 @@ app.post("/lobbies/by-name/:lobbyName/join-or-rejoin",(req,res)=>{
   return res.status(result.status).json(result.payload);
 });
 
+/**
+ * Presence-Heartbeat eines Spielers (Body { playerId?, clientSessionId? }, playerId alternativ aus der URL).
+ * Aktualisiert lastSeen und reaktiviert abwesende Spieler, sofern ihr Slot nicht inzwischen vergeben wurde.
+ * Antwort: { ok, playerId, isActive, lastSeen } bzw. 404/409 mit errorCode.
+ */
+const handlePresencePing = (req, res) => {
+  const lobby = findLobby(req.params.lobbyId);
+  if (!lobby) return res.status(404).json({ error: "Lobby nicht gefunden" });
+  const playerId = String(req.params.playerId || req.body?.playerId || "");
+  const player = listPlayers(lobby.id).find((p) => p.id === playerId);
+  if (!player) return res.status(404).json({ error: "Spieler nicht gefunden" });
+  const clientSessionId = sanitizeSessionId(req.body?.clientSessionId);
+  const storedSessionId = sanitizeSessionId(player.sessionId);
+  if (storedSessionId && storedSessionId !== clientSessionId) {
+    return res.status(409).json({ error: SESSION_TAKEN_OVER_MESSAGE, errorCode: "SESSION_STALE" });
+  }
+
+  if (player.isActive === false) {
+    try {
+      db.claimSeat(lobby.id, MAX_PLAYERS_PER_LOBBY);
+    } catch (err) {
+      if (!isConditionFailure(err)) throw err;
+      return res.status(409).json({ error: LOBBY_FULL_MESSAGE_CLEAN, errorCode: "MAX_PLAYERS" });
+    }
+  }
+
+  player.lastSeen = now();
+  setPlayerPresence(player, true);
+  return res.json({ ok: true, playerId: player.id, isActive: true, lastSeen: player.lastSeen });
+};
+
+/** Alle Presence-Varianten, die `presencePing` im Frontend der Reihe nach probiert. */
+app.post("/lobbies/:lobbyId/presence", handlePresencePing);
+app.post("/lobbies/:lobbyId/presence-ping", handlePresencePing);
+app.post("/lobbies/:lobbyId/players/:playerId/presence", handlePresencePing);
+
 /**
  * Löscht eine Lobby anhand ihrer ID (aus URL oder Body).
  * Verwendet removeLobbyCascade, beantwortet DELETE requests mit 204 und POST requests mit JSON.
@@ -589,55 +1686,206 @@ app.post("/leaderboards/delete",(req,res)=>{
  * Liefert alle Sprüche (neuste zuerst). Frontend nutzt dies z. B. zur Anzeige zwischen Runden.
  * Antwortformat: [{ id, text, createdAt }]
  */
-app.get("/quotes",(_req,res)=>{ res.json([...db.quotes].sort((a,b)=>a.createdAt<b.createdAt?1:-1)); });
+app.get("/quotes",(_req,res)=>{ res.json(db.quotes.all().sort((a,b)=>a.createdAt<b.createdAt?1:-1)); });
 /**
  * POST /quotes
  * Body: { text } (5-220 Zeichen, Whitespace wird normalisiert).
  * Speichert den Spruch und gibt ihn mit ID+Timestamp zurück.
  */
 app.post("/quotes",(req,res)=>{ const text=normLine(req.body?.text); if(text.length<5) return res.status(400).json({error:"Spruch zu kurz"}); if(text.length>220) return res.status(400).json({error:"Spruch zu lang (max. 220)"});
-  const q={id:nanoid(10),text,createdAt:now()}; db.quotes.push(q); res.status(201).json(q);
+  const q={id:nanoid(10),text,createdAt:now()}; db.quotes.insert(q); res.status(201).json(q);
 });
 
 // ===== Runden =====
 /**
- * GET /rounds/current?lobbyId=XYZ
+ * GET /rounds/current?lobbyId=XYZ[&playerId=..&clientSessionId=..]
  * Liefert die letzte Runde der angegebenen Lobby plus Lives-/Score-Snapshots.
  * Das Frontend zeigt damit den aktuellen Spielstand im Game-Screen an.
+ * Im Tischmodus enthält round.table die öffentliche Tischsicht; mit gültiger Session zusätzlich die eigene Hand.
  */
 app.get("/rounds/current",(req,res)=>{
   const lobbyId = String(req.query.lobbyId||""); const lobby=findLobby(lobbyId);
   if(!lobby) return res.status(404).json({error:"Lobby nicht gefunden"});
   const r = currentRound(lobbyId); if(!r) return res.status(404).json({error:"Keine Runde vorhanden"});
   const lives = db.lives.filter(l=>l.roundId===r.id);
-  const scores = listPlayers(lobbyId).map(p=>scoreFor(p.id));
-  res.json({ round: r, lives, scores });
+  const scores = lobbyScores(lobbyId);
+  sendWithEtag(req, res, { round: toPublicRound(r, roundViewerId(lobbyId, req.query)), lives, scores });
+});
+
+/** Spieler-ID aus ?playerId=&clientSessionId=, dessen Hand die Tischsicht enthalten darf; null ohne gültige Session. */
+function roundViewerId(lobbyId, query) {
+  const viewer = listPlayers(lobbyId).find(p=>p.id===String(query.playerId||""));
+  return viewer && !isSessionStale(viewer, query.clientSessionId) ? viewer.id : null;
+}
+
+/**
+ * Kompakte Rundenzusammenfassung für die Historie: Gewinner, Zeiten, Dauer und (End-)Leben pro Spieler.
+ * Nicht mehr auflösbare Spieler-IDs erscheinen mit playerName null.
+ */
+function toHistoryEntry(round) {
+  const nameById = new Map(db.players.map((p) => [p.id, p.name]));
+  const endedAt = round.endedAt ?? null;
+  return {
+    id: round.id,
+    number: round.number,
+    state: round.state,
+    mode: round.mode ?? "companion",
+    winnerPlayerId: round.winnerPlayerId ?? null,
+    winnerName: round.winnerPlayerId ? nameById.get(round.winnerPlayerId) ?? null : null,
+    dealerPlayerId: round.dealerPlayerId ?? null,
+    startedAt: round.createdAt,
+    endedAt,
+    durationMs: endedAt ? Date.parse(endedAt) - Date.parse(round.createdAt) : null,
+    endReason: round.endReason ?? null,
+    endedBy: round.endedBy ?? null,
+    endedByName: round.endedBy ? nameById.get(round.endedBy) ?? null : null,
+    confirmedBy: db.claims.find((c) => c.roundId === round.id && c.state === "approved")?.approvals ?? [],
+    lives: db.lives
+      .filter((l) => l.roundId === round.id)
+      .map((l) => ({ playerId: l.playerId, playerName: nameById.get(l.playerId) ?? null, livesRemaining: l.livesRemaining })),
+    claims: db.claims.filter((c) => c.roundId === round.id).map(toPublicClaim),
+  };
+}
+
+/**
+ * GET /lobbies/:id/rounds
+ * Query: limit (Default 20, max. 100), offset.
+ * Rundenhistorie einer Lobby, neueste zuerst. Response { rounds, total, limit, offset }.
+ */
+app.get("/lobbies/:id/rounds",(req,res)=>{
+  const lobby=findLobby(req.params.id);
+  if(!lobby) return res.status(404).json({error:"Lobby nicht gefunden"});
+  const rawLimit = Number(req.query.limit);
+  const limit = Number.isInteger(rawLimit) && rawLimit>0 ? Math.min(rawLimit, HISTORY_MAX_LIMIT) : HISTORY_DEFAULT_LIMIT;
+  const rawOffset = Number(req.query.offset);
+  const offset = Number.isInteger(rawOffset) && rawOffset>0 ? rawOffset : 0;
+  const all = db.rounds.filter(r=>r.lobbyId===lobby.id).sort((a,b)=>b.number-a.number);
+  res.json({ rounds: all.slice(offset, offset+limit).map(toHistoryEntry), total: all.length, limit, offset });
+});
+
+/**
+ * GET /rounds/by-number?lobbyId=<id>&number=<n>
+ * Schreibgeschützter Schnappschuss einer bestimmten Runde (auch älterer) im Format der Historie.
+ * Response { round, currentNumber }; currentNumber erlaubt den Sprung zur aktuellen Runde.
+ */
+app.get("/rounds/by-number",(req,res)=>{
+  const lobby=findLobby(String(req.query.lobbyId||""));
+  if(!lobby) return res.status(404).json({error:"Lobby nicht gefunden"});
+  const number = Number(req.query.number);
+  if(!Number.isInteger(number) || number<1) return res.status(400).json({error:"Ungültige Rundennummer"});
+  const r = db.rounds.find(x=>x.lobbyId===lobby.id && x.number===number);
+  if(!r) return res.status(404).json({error:"Runde nicht gefunden"});
+  res.json({ round: toHistoryEntry(r), currentNumber: currentRound(lobby.id)?.number ?? null });
 });
 
 /**
  * POST /rounds/start
- * Body: { lobbyId }. Startet eine neue Runde mit fortlaufender Nummer,
+ * Body: { lobbyId, mode? }. Startet eine neue Runde mit fortlaufender Nummer,
  * erzeugt Lives-Einträge (4 Leben pro Spieler) und initialisiert Scores falls notwendig.
+ * Ohne mode gilt der Lobby-Modus; im Tischmodus wird direkt das erste Spiel ausgeteilt.
+ * Das Geben wandert dabei reihum nach der Sitzordnung (dealerPlayerId). Meldet round_started per SSE.
  */
 app.post("/rounds/start",(req,res)=>{
   const lobbyId = String(req.body?.lobbyId||""); const lobby=findLobby(lobbyId);
   if(!lobby) return res.status(404).json({error:"Lobby nicht gefunden"});
+  const requestedMode = req.body?.mode;
+  if(requestedMode !== undefined && !ROUND_MODES.includes(requestedMode)) return res.status(400).json({error:"Unbekannter Spielmodus"});
   const prev = currentRound(lobbyId);
   const number = prev ? prev.number + 1 : 1;
-  const round = { id:nanoid(12), lobbyId, number, state:"running", winnerPlayerId:null, createdAt:now(), endedAt:null };
-  db.rounds.push(round);
+  const mode = requestedMode ?? lobby.mode ?? "companion";
+  const dealerPlayerId = nextDealerId(lobby, prev?.dealerPlayerId ?? null);
+  const round = { id:nanoid(12), lobbyId, number, state:"running", mode:"companion", dealerPlayerId, winnerPlayerId:null, createdAt:now(), endedAt:null };
+  db.rounds.insert(round);
   const players = listPlayers(lobbyId);
   players.forEach(p=>{
-    db.lives.push({ id:nanoid(12), roundId: round.id, playerId: p.id, livesRemaining: 4, updatedAt: now() });
+    db.lives.insert({ id:nanoid(12), roundId: round.id, playerId: p.id, livesRemaining: START_LIVES, updatedAt: now() });
     scoreFor(p.id);
   });
-  res.status(201).json({ round, lives: db.lives.filter(l=>l.roundId===round.id) });
+  if (mode === "table") openTableForRound(round);
+  const lives = db.lives.filter(l=>l.roundId===round.id);
+  broadcastSse("round_started", {
+    type: "ROUND_STARTED",
+    lobbyId,
+    roundId: round.id,
+    round: toPublicRound(round),
+    lives,
+  }, { lobbyId, topic: "round" });
+  res.status(201).json({ round: toPublicRound(round), lives });
+});
+
+/**
+ * POST /rounds/:roundId/table
+ * Body: { playerId, clientSessionId }. Schaltet eine frische Companion-Runde (noch alle Leben voll) auf den digitalen Tisch um
+ * und setzt den Lobby-Modus, damit Folgerunden ebenfalls am Tisch starten.
+ */
+app.post("/rounds/:roundId/table",(req,res)=>{
+  const r=db.rounds.find(x=>x.id===req.params.roundId);
+  if(!r) return res.status(404).json({error:"Runde nicht gefunden"}); if(r.state!=="running") return res.status(409).json({error:"Runde bereits beendet"});
+  const player = listPlayers(r.lobbyId).find(p=>p.id===String(req.body?.playerId||""));
+  if(!player) return res.status(404).json({error:"Spieler nicht gefunden"});
+  if(isSessionStale(player, req.body?.clientSessionId)) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
+  if(r.mode==="table") return res.status(409).json({error:"Der Tisch ist bereits eröffnet.",errorCode:"TABLE_OPEN"});
+  const touched = db.lives.some(l=>l.roundId===r.id && l.livesRemaining!==START_LIVES);
+  if(touched) return res.status(409).json({error:"Runde läuft schon auf Papier – Tisch erst ab der nächsten Runde.",errorCode:"ROUND_IN_PROGRESS"});
+  player.lastSeen = now();
+  const table = openTableForRound(r);
+  const lobby = findLobby(r.lobbyId); if(lobby) lobby.mode = "table";
+  broadcastTableUpdate(r, table);
+  res.json({ round: toPublicRound(r, player.id), lives: db.lives.filter(l=>l.roundId===r.id) });
+});
+
+/**
+ * POST /rounds/:roundId/table/actions
+ * Body: { playerId, clientSessionId, action: "swap"|"swap_all"|"pass"|"knock", handIndex?, middleIndex? }.
+ * Führt einen Zug am Tisch aus. Beim Aufdecken zieht der Server den Verlierern automatisch ein Leben ab.
+ */
+app.post("/rounds/:roundId/table/actions",(req,res)=>{
+  const r=db.rounds.find(x=>x.id===req.params.roundId);
+  if(!r) return res.status(404).json({error:"Runde nicht gefunden"}); if(r.state!=="running") return res.status(409).json({error:"Runde bereits beendet"});
+  const table = r.mode==="table" ? findTable(r.id) : null;
+  if(!table) return res.status(409).json({error:"Diese Runde wird ohne digitalen Tisch gespielt.",errorCode:"NO_TABLE"});
+  const player = listPlayers(r.lobbyId).find(p=>p.id===String(req.body?.playerId||""));
+  if(!player) return res.status(404).json({error:"Spieler nicht gefunden"});
+  if(isSessionStale(player, req.body?.clientSessionId)) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
+  player.lastSeen = now();
+  const result = applyAction(table, player.id, {
+    action: req.body?.action,
+    handIndex: Number(req.body?.handIndex),
+    middleIndex: Number(req.body?.middleIndex),
+  }, now());
+  if(!result.ok) return res.status(result.status).json({error:result.error,errorCode:result.errorCode});
+  if(result.showdown) applyTableShowdown(r, table);
+  broadcastTableUpdate(r, table);
+  res.json({ round: toPublicRound(r, player.id), lives: db.lives.filter(l=>l.roundId===r.id) });
+});
+
+/**
+ * POST /rounds/:roundId/table/deal
+ * Body: { playerId, clientSessionId }. Teilt nach dem Aufdecken das nächste Spiel unter allen Spielern mit Restleben aus;
+ * der erste Zug wandert mit jedem Spiel einen Platz weiter.
+ */
+app.post("/rounds/:roundId/table/deal",(req,res)=>{
+  const r=db.rounds.find(x=>x.id===req.params.roundId);
+  if(!r) return res.status(404).json({error:"Runde nicht gefunden"}); if(r.state!=="running") return res.status(409).json({error:"Runde bereits beendet"});
+  const table = r.mode==="table" ? findTable(r.id) : null;
+  if(!table) return res.status(409).json({error:"Diese Runde wird ohne digitalen Tisch gespielt.",errorCode:"NO_TABLE"});
+  const player = listPlayers(r.lobbyId).find(p=>p.id===String(req.body?.playerId||""));
+  if(!player) return res.status(404).json({error:"Spieler nicht gefunden"});
+  if(isSessionStale(player, req.body?.clientSessionId)) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
+  if(table.phase!=="showdown") return res.status(409).json({error:"Das laufende Spiel ist noch nicht aufgedeckt.",errorCode:"TABLE_PLAYING"});
+  const seats = tableSeatsFor(r);
+  if(seats.length<2) return res.status(409).json({error:"Nur noch eine Person im Spiel – Runde kann beendet werden.",errorCode:"TABLE_DECIDED"});
+  player.lastSeen = now();
+  deal(table, { seats, startIndex: tableStartIndex(r, seats, table.dealNumber), timestamp: now() });
+  if(table.phase==="showdown") applyTableShowdown(r, table);
+  broadcastTableUpdate(r, table);
+  res.json({ round: toPublicRound(r, player.id), lives: db.lives.filter(l=>l.roundId===r.id) });
 });
 
 /**
  * PATCH /rounds/:roundId/life
  * Body: { playerId, livesRemaining }
- * Aktualisiert die verbleibenden Leben eines Spielers in dieser Runde (0-4).
+ * Aktualisiert die verbleibenden Leben eines Spielers in dieser Runde (0-4) und meldet das Ergebnis als life_updated.
  */
 app.patch("/rounds/:roundId/life",(req,res)=>{
   const roundId=req.params.roundId; const r=db.rounds.find(x=>x.id===roundId);
@@ -650,16 +1898,153 @@ app.patch("/rounds/:roundId/life",(req,res)=>{
   if(storedSessionId && clientSessionId && storedSessionId!==clientSessionId) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
   if(storedSessionId && !clientSessionId) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
   player.lastSeen = now();
+  if(r.mode==="table") return res.status(409).json({error:TABLE_MODE_MESSAGE,errorCode:"TABLE_MODE"});
+  if(!MANUAL_LIVES) return res.status(409).json({error:SHOWDOWN_RULES_MESSAGE,errorCode:"RULES_DRIVEN"});
   if(!Number.isInteger(livesRemaining) || livesRemaining<0 || livesRemaining>4) return res.status(400).json({error:"Ungültiger Leben-Wert"});
   const ls = db.lives.find(x=>x.roundId===roundId && x.playerId===playerId); if(!ls) return res.status(404).json({error:"LifeState nicht gefunden"});
-  ls.livesRemaining = livesRemaining; ls.updatedAt = now(); res.json(ls);
+  if(livesRemaining>ls.livesRemaining) return res.status(409).json({error:"Leben erhöhen geht nur über eine Korrektur.",errorCode:"USE_CORRECTION"});
+  const changed = livesRemaining<ls.livesRemaining;
+  if(changed) recordLifeEvent(r, { playerId, actorId: playerId, kind: "manual", from: ls.livesRemaining, to: livesRemaining });
+  ls.livesRemaining = livesRemaining; ls.updatedAt = now();
+  if(changed) broadcastLivesUpdated(r, "manual");
+  finishIfDecided(r);
+  res.json(ls);
+});
+
+/**
+ * POST /rounds/:roundId/life/corrections
+ * Body: { playerId, clientSessionId }
+ * Nimmt den letzten eigenen Streichholz-Tipp zurück (siehe correctableLifeEvent), mit Protokolleintrag (wer, wann, von→nach).
+ * Regelbasierte Abzüge (Showdown, Tisch) lassen sich nicht korrigieren; ohne korrigierbaren Tipp antwortet der Server mit 409.
+ * Meldet life_corrected per SSE, damit alle Geräte Leben und Verlauf aktualisieren.
+ */
+app.post("/rounds/:roundId/life/corrections",(req,res)=>{
+  const r=db.rounds.find(x=>x.id===req.params.roundId);
+  if(!r) return res.status(404).json({error:"Runde nicht gefunden"});
+  if(r.state!=="running") return res.status(409).json({error:"Runde bereits beendet"});
+  if(r.mode==="table") return res.status(409).json({error:TABLE_MODE_MESSAGE,errorCode:"TABLE_MODE"});
+  const player = listPlayers(r.lobbyId).find(p=>p.id===String(req.body?.playerId||""));
+  if(!player) return res.status(404).json({error:"Spieler nicht gefunden"});
+  if(isSessionStale(player, req.body?.clientSessionId)) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
+  player.lastSeen = now();
+  const ls = db.lives.find(x=>x.roundId===r.id && x.playerId===player.id);
+  if(!ls) return res.status(404).json({error:"LifeState nicht gefunden"});
+  const tap = correctableLifeEvent(r.id, player.id);
+  if(!tap || tap.to!==ls.livesRemaining) return res.status(409).json({error:"Zurücknehmen lässt sich nur dein letzter eigener Tipp.",errorCode:"NOTHING_TO_CORRECT"});
+  const entry = recordLifeEvent(r, { playerId: player.id, actorId: player.id, kind: "correction", from: ls.livesRemaining, to: tap.from });
+  ls.livesRemaining = entry.to; ls.updatedAt = entry.createdAt;
+  const lives = db.lives.filter(l=>l.roundId===r.id);
+  broadcastSse("life_corrected", {
+    type: "LIFE_CORRECTED",
+    lobbyId: r.lobbyId,
+    roundId: r.id,
+    entry,
+    lives,
+  }, { lobbyId: r.lobbyId, topic: "round" });
+  res.status(201).json({ entry, lives });
+});
+
+/**
+ * GET /rounds/:roundId/activity
+ * Aktivitätsverlauf der Runde: alle Lebensänderungen, neueste zuerst.
+ */
+app.get("/rounds/:roundId/activity",(req,res)=>{
+  const r=db.rounds.find(x=>x.id===req.params.roundId);
+  if(!r) return res.status(404).json({error:"Runde nicht gefunden"});
+  res.json(db.lifeEvents.filter(e=>e.roundId===r.id).slice().reverse());
+});
+
+/**
+ * Gemeinsame Vorprüfung der Showdown-Routen: laufende Companion-Runde + gültige Spieler-Session.
+ * Liefert { round, player } oder sendet selbst die Fehlerantwort und gibt null zurück.
+ */
+function requireShowdownContext(req, res) {
+  const r=db.rounds.find(x=>x.id===req.params.roundId);
+  if(!r) { res.status(404).json({error:"Runde nicht gefunden"}); return null; }
+  if(r.state!=="running") { res.status(409).json({error:"Runde bereits beendet"}); return null; }
+  if(r.mode==="table") { res.status(409).json({error:TABLE_MODE_MESSAGE,errorCode:"TABLE_MODE"}); return null; }
+  const player = listPlayers(r.lobbyId).find(p=>p.id===String(req.body?.playerId||""));
+  if(!player) { res.status(404).json({error:"Spieler nicht gefunden"}); return null; }
+  if(isSessionStale(player, req.body?.clientSessionId)) { res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"}); return null; }
+  player.lastSeen = now();
+  return { round: r, player };
+}
+
+/**
+ * POST /rounds/:roundId/showdown
+ * Body: { playerId, clientSessionId }. Sagt einen Showdown an; alle anwesenden Spieler mit Restleben müssen ihren Wert melden.
+ */
+app.post("/rounds/:roundId/showdown",(req,res)=>{
+  const ctx = requireShowdownContext(req, res); if(!ctx) return;
+  const { round: r, player } = ctx;
+  const open = latestShowdown(r.id);
+  if(open && open.state==="collecting") return res.status(409).json({error:"Es läuft bereits ein Showdown.",errorCode:"SHOWDOWN_OPEN"});
+  const alive = new Set(db.lives.filter(l=>l.roundId===r.id && l.livesRemaining>0).map(l=>l.playerId));
+  const participants = listPlayers(r.lobbyId).filter(p=>alive.has(p.id) && p.isActive!==false).map(p=>p.id);
+  if(participants.length<2) return res.status(409).json({error:"Für einen Showdown braucht es mindestens zwei Spieler mit Leben.",errorCode:"TOO_FEW_PLAYERS"});
+  const showdown = { id:nanoid(10), roundId:r.id, lobbyId:r.lobbyId, state:"collecting", participants, entries:{}, startedBy:player.id, createdAt:now(), resolvedAt:null, losers:[], feuer:false };
+  db.showdowns.insert(showdown);
+  broadcastShowdownUpdate(r, showdown);
+  res.status(201).json({ round: toPublicRound(r), lives: db.lives.filter(l=>l.roundId===r.id) });
+});
+
+/**
+ * POST /rounds/:roundId/showdown/hands
+ * Body: { playerId, clientSessionId, cards?: Card[3], value?: number }.
+ * Meldet den eigenen Handwert (Karten werden serverseitig bewertet). Sobald alle gemeldet haben, zieht der Server die Leben ab.
+ */
+app.post("/rounds/:roundId/showdown/hands",(req,res)=>{
+  const ctx = requireShowdownContext(req, res); if(!ctx) return;
+  const { round: r, player } = ctx;
+  const showdown = latestShowdown(r.id);
+  if(!showdown || showdown.state!=="collecting") return res.status(409).json({error:"Kein offener Showdown.",errorCode:"NO_SHOWDOWN"});
+  if(!showdown.participants.includes(player.id)) return res.status(403).json({error:"Du nimmst an diesem Showdown nicht teil.",errorCode:"NOT_PARTICIPANT"});
+  const cards = req.body?.cards;
+  let entry;
+  if(Array.isArray(cards)) {
+    if(cards.length!==HAND_SIZE || !cards.every(isCard)) return res.status(400).json({error:"Bitte genau drei gültige Karten angeben.",errorCode:"INVALID_HAND"});
+    if(new Set(cards.map((card)=>`${card.suit}:${card.rank}`)).size!==HAND_SIZE) return res.status(400).json({error:"Jede Karte gibt es nur einmal im Blatt.",errorCode:"DUPLICATE_CARD"});
+    const evaluation = evaluateHand(cards.map(({suit,rank})=>({suit,rank})));
+    entry = { value: evaluation.value, label: evaluation.label };
+  } else {
+    const value = Number(req.body?.value);
+    if(!POSSIBLE_HAND_VALUES.includes(value)) return res.status(400).json({error:"Diesen Handwert gibt es nicht.",errorCode:"INVALID_VALUE"});
+    entry = { value, label: evaluationLabelForValue(value) };
+  }
+  showdown.entries[player.id] = { ...entry, submittedAt: now() };
+  if(showdown.participants.every((playerId)=>showdown.entries[playerId])) resolveShowdown(r, showdown);
+  else broadcastShowdownUpdate(r, showdown);
+  res.json({ round: toPublicRound(r), lives: db.lives.filter(l=>l.roundId===r.id) });
 });
 
+/**
+ * POST /rounds/:roundId/showdown/cancel
+ * Body: { playerId, clientSessionId }. Bricht einen offenen Showdown ab (z. B. wenn jemand den Tisch verlassen hat); Leben bleiben unverändert.
+ */
+app.post("/rounds/:roundId/showdown/cancel",(req,res)=>{
+  const ctx = requireShowdownContext(req, res); if(!ctx) return;
+  const { round: r } = ctx;
+  const showdown = latestShowdown(r.id);
+  if(!showdown || showdown.state!=="collecting") return res.status(409).json({error:"Kein offener Showdown.",errorCode:"NO_SHOWDOWN"});
+  showdown.state = "cancelled";
+  broadcastShowdownUpdate(r, showdown);
+  res.json({ round: toPublicRound(r), lives: db.lives.filter(l=>l.roundId===r.id) });
+});
+
+/** Beschriftung für nur als Zahl gemeldete Werte (Feuer, 31 und drei Gleiche sind am Wert eindeutig). */
+function evaluationLabelForValue(value) {
+  if(value===FEUER_VALUE) return "Feuer";
+  if(value===MAX_SUIT_VALUE) return "Einunddreißig";
+  if(value===THREE_OF_A_KIND_VALUE) return "Drei Gleiche";
+  return String(value).replace(".", ",");
+}
 
 /**
  * POST /rounds/:roundId/finish
- * Body: { winnerPlayerId }
- * Markiert die Runde als beendet, speichert Gewinner und erhöht dessen Score.
+ * Body: { winnerPlayerId, clientSessionId }
+ * Legt eine Sieg-Meldung an, die die anderen Spieler bestätigen müssen (202 mit claim).
+ * Erst wenn das Quorum zustimmt, wird die Runde beendet und der Score erhöht; ohne Stimmberechtigte sofort (200).
+ * Wer in der Runde keine Leben mehr hat, kann sich nicht als Gewinner melden (409 PLAYER_OUT).
  */
 app.post("/rounds/:roundId/finish",(req,res)=>{
   const roundId=req.params.roundId; const r=db.rounds.find(x=>x.id===roundId);
@@ -673,21 +2058,165 @@ app.post("/rounds/:roundId/finish",(req,res)=>{
   if(storedSessionId && clientSessionId && storedSessionId!==clientSessionId) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
   if(storedSessionId && !clientSessionId) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
   winner.lastSeen = now();
-  r.state="finished"; r.winnerPlayerId=winnerPlayerId; r.endedAt=now();
-  scoreFor(winnerPlayerId).pointsTotal += 1;
-  const scores = listPlayers(r.lobbyId).map(p=>scoreFor(p.id));
-  broadcastSse("round_finished", {
-    type: "ROUND_FINISHED",
+  const winnerLife = db.lives.find(l=>l.roundId===r.id && l.playerId===winnerPlayerId);
+  if(winnerLife && winnerLife.livesRemaining<=0) return res.status(409).json({error:"Du bist in dieser Runde schon raus und kannst nicht gewinnen.",errorCode:"PLAYER_OUT"});
+  const open = pendingClaim(r.id);
+  if(open && open.claimantId===winnerPlayerId) return res.status(202).json({ round: toPublicRound(r, winner.id), claim: toPublicClaim(open) });
+  if(open) return res.status(409).json({error:"Es wartet bereits eine andere Sieg-Meldung auf Bestätigung.",errorCode:"CLAIM_PENDING"});
+  const voters = claimVotersFor(r, winnerPlayerId);
+  const createdAt = now();
+  const claim = {
+    id:nanoid(10), roundId:r.id, lobbyId:r.lobbyId, claimantId:winnerPlayerId, state:"pending",
+    voters, approvals:[], rejections:[], quorum:Math.min(CLAIM_QUORUM, voters.length),
+    createdAt, expiresAt:new Date(Date.parse(createdAt)+CLAIM_TIMEOUT_MS).toISOString(), decidedAt:null,
+  };
+  // Meldung anlegen und (ohne Stimmberechtigte) sofort werten gehört zusammen: kein halb beendeter Rundenstand nach einem Fehler.
+  let scores;
+  try {
+    scores = db.transaction(() => {
+      db.claims.insert(claim);
+      return settleClaim(r, claim);
+    });
+  } catch (err) {
+    if (!isConditionFailure(err)) throw err;
+    return res.status(409).json({ error: "Runde bereits beendet", errorCode: "ROUND_FINISHED" });
+  }
+  if(scores) return res.json({ round: toPublicRound(r, winner.id), scores, claim: toPublicClaim(claim) });
+  setTimeout(() => expireClaim(claim.id), CLAIM_TIMEOUT_MS);
+  res.status(202).json({ round: toPublicRound(r, winner.id), claim: toPublicClaim(claim) });
+});
+
+/**
+ * POST /rounds/:roundId/claims/:claimId/votes
+ * Body: { playerId, clientSessionId, approve: boolean }
+ * Stimme zu einer offenen Sieg-Meldung; jede stimmberechtigte Person stimmt genau einmal ab.
+ */
+app.post("/rounds/:roundId/claims/:claimId/votes",(req,res)=>{
+  const r=db.rounds.find(x=>x.id===req.params.roundId);
+  if(!r) return res.status(404).json({error:"Runde nicht gefunden"});
+  const claim = db.claims.find(c=>c.id===req.params.claimId && c.roundId===r.id);
+  if(!claim) return res.status(404).json({error:"Sieg-Meldung nicht gefunden"});
+  if(claim.state!=="pending") return res.status(409).json({error:"Über diese Sieg-Meldung wurde bereits entschieden.",errorCode:"CLAIM_CLOSED"});
+  const player = listPlayers(r.lobbyId).find(p=>p.id===String(req.body?.playerId||""));
+  if(!player) return res.status(404).json({error:"Spieler nicht gefunden"});
+  if(isSessionStale(player, req.body?.clientSessionId)) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
+  player.lastSeen = now();
+  if(!claim.voters.includes(player.id)) return res.status(403).json({error:"Du darfst über diese Sieg-Meldung nicht abstimmen.",errorCode:"NOT_VOTER"});
+  if(claim.approvals.includes(player.id) || claim.rejections.includes(player.id)) return res.status(409).json({error:"Du hast bereits abgestimmt.",errorCode:"ALREADY_VOTED"});
+  if(typeof req.body?.approve!=="boolean") return res.status(400).json({error:"approve muss true oder false sein."});
+  // Stimme und Auswertung zusammen: endet die Runde parallel anderweitig, zählt auch die Stimme nicht.
+  let scores;
+  try {
+    scores = db.transaction(() => {
+      (req.body.approve ? claim.approvals : claim.rejections).push(player.id);
+      return settleClaim(r, claim);
+    });
+  } catch (err) {
+    if (!isConditionFailure(err)) throw err;
+    return res.status(409).json({ error: "Runde bereits beendet", errorCode: "ROUND_FINISHED" });
+  }
+  res.json({ round: toPublicRound(r, player.id), claim: toPublicClaim(claim), ...(scores ? { scores } : {}) });
+});
+
+
+/**
+ * POST /rounds/:roundId/reopen
+ * Body: { playerId, clientSessionId }
+ * Nimmt ein versehentliches Rundenende innerhalb von REOPEN_WINDOW_MS zurück: Runde läuft wieder, Punkt und Elo-Änderung werden zurückgenommen,
+ * die bestätigte Sieg-Meldung gilt als "revoked". Alle Geräte erhalten round_reopened und kehren ins Spiel zurück.
+ */
+app.post("/rounds/:roundId/reopen",(req,res)=>{
+  const r=db.rounds.find(x=>x.id===req.params.roundId);
+  if(!r) return res.status(404).json({error:"Runde nicht gefunden"});
+  if(r.state!=="finished") return res.status(409).json({error:"Runde läuft noch.",errorCode:"ROUND_RUNNING"});
+  const player = listPlayers(r.lobbyId).find(p=>p.id===String(req.body?.playerId||""));
+  if(!player) return res.status(404).json({error:"Spieler nicht gefunden"});
+  if(isSessionStale(player, req.body?.clientSessionId)) return res.status(409).json({error:SESSION_TAKEN_OVER_MESSAGE,errorCode:"SESSION_STALE"});
+  player.lastSeen = now();
+  if(!reopenDeadline(r)) return res.status(409).json({error:"Rückgängig ist nur kurz nach dem Rundenende möglich.",errorCode:"REOPEN_EXPIRED"});
+  db.transaction(() => {
+    if(r.winnerPlayerId) {
+      const score = scoreFor(r.winnerPlayerId);
+      score.pointsTotal = Math.max(0, score.pointsTotal - 1);
+    }
+    revertRatings(r);
+    db.claims.forEach((claim)=>{ if(claim.roundId===r.id && claim.state==="approved") claim.state="revoked"; });
+    r.state = "running";
+    r.winnerPlayerId = null;
+    r.endedAt = null;
+    r.endReason = null;
+    r.endedBy = null;
+  });
+  const lives = db.lives.filter(l=>l.roundId===r.id);
+  const scores = lobbyScores(r.lobbyId);
+  broadcastSse("round_reopened", {
+    type: "ROUND_REOPENED",
     lobbyId: r.lobbyId,
     roundId: r.id,
-    round: r,
+    round: toPublicRound(r),
+    lives,
     scores,
+    reopenedBy: player.id,
   }, { lobbyId: r.lobbyId, topic: "round" });
-  res.json({ round: r, scores });
+  const lobby = findLobby(r.lobbyId);
+  if (lobby) broadcastLeaderboard("updated", lobby);
+  res.json({ round: toPublicRound(r, player.id), lives, scores });
 });
 
 
+// ===== Handrechner =====
+/**
+ * POST /hands/evaluate
+ * Body: { cards: [{ suit, rank }, ...] } mit genau drei unterschiedlichen Karten.
+ * Liefert { value, kind, label, suit } nach denselben Regeln wie der digitale Tisch.
+ */
+app.post("/hands/evaluate",(req,res)=>{
+  const cards = req.body?.cards;
+  if(!Array.isArray(cards) || cards.length!==HAND_SIZE || !cards.every(isCard)) {
+    return res.status(400).json({error:"Bitte genau drei gültige Karten angeben.",errorCode:"INVALID_HAND"});
+  }
+  const keys = new Set(cards.map((card)=>`${card.suit}:${card.rank}`));
+  if(keys.size!==HAND_SIZE) return res.status(400).json({error:"Jede Karte gibt es nur einmal im Blatt.",errorCode:"DUPLICATE_CARD"});
+  res.json(evaluateHand(cards.map(({suit,rank})=>({suit,rank}))));
+});
+
 // ===== Leaderboard (aggregiert alle Lobbys + Spielerstände) =====
+/** Leaderboard-Zeile einer Lobby: Spieler mit Punkten, Wertung und Presence sowie die Zahl beendeter Runden. */
+function toLeaderboardEntry(lobby) {
+  const players = listPlayers(lobby.id).map(player => {
+    const score = scoreFor(player.id);
+    const key = playerKey(player.name);
+    return {
+      id: player.id,
+      name: player.name,
+      points: score.pointsTotal,
+      pointsTotal: score.pointsTotal,
+      rating: currentRating(key),
+      ratingDelta: lastRatingDelta(key),
+      isActive: player.isActive !== false,
+    };
+  });
+  const rounds = db.rounds.filter(r => r.lobbyId === lobby.id && r.state === "finished").length;
+  return {
+    id: lobby.id,
+    lobbyId: lobby.id,
+    name: lobby.name,
+    lobbyName: lobby.name,
+    createdAt: lobby.createdAt,
+    rounds,
+    players,
+  };
+}
+
+/**
+ * GET /leaderboard/stream
+ * SSE im Protokoll von subscribeLeaderboards: unbenannte Events mit { type: "added"|"updated", entry } bzw. { type: "removed", lobbyId }.
+ * Läuft über dieselbe Verbindungsverwaltung wie /events (Topic leaderboard), inkl. Replay per Last-Event-ID.
+ */
+app.get("/leaderboard/stream",(req,res)=>{
+  openSseStream(req, res, { lobbyId: null, topics: new Set(["leaderboard"]) });
+});
+
 /**
  * GET /leaderboard
  * Query: search/query (String), limit, offset.
@@ -701,28 +2230,7 @@ app.get("/leaderboard",(req,res)=>{
 
   let list = db.lobbies
     .filter(lobby => !searchLower || lobby.name.toLowerCase().includes(searchLower))
-    .map(lobby => {
-      const players = listPlayers(lobby.id).map(player => {
-        const score = scoreFor(player.id);
-        return {
-          id: player.id,
-          name: player.name,
-          points: score.pointsTotal,
-          pointsTotal: score.pointsTotal,
-          isActive: player.isActive !== false,
-        };
-      });
-      const rounds = db.rounds.filter(r => r.lobbyId === lobby.id && r.state === "finished").length;
-      return {
-        id: lobby.id,
-        lobbyId: lobby.id,
-        name: lobby.name,
-        lobbyName: lobby.name,
-        createdAt: lobby.createdAt,
-        rounds,
-        players,
-      };
-    })
+    .map(toLeaderboardEntry)
     .sort((a,b)=>a.createdAt<b.createdAt?1:-1);
 
   if (!Number.isNaN(offset) && offset > 0) {
@@ -732,17 +2240,118 @@ app.get("/leaderboard",(req,res)=>{
     list = list.slice(0, limit);
   }
 
+  sendWithEtag(req, res, list);
+});
+
+/** Schlüssel, unter dem Spieler:innen lobbyübergreifend zusammengefasst werden (Name ohne Groß-/Kleinschreibung). */
+function playerKey(name) {
+  return normLine(name).toLowerCase();
+}
+
+/**
+ * Aggregiert alle beendeten Runden sämtlicher Lobbys pro normalisiertem Spielernamen.
+ * Gespielt hat, wer in der Runde einen Lives-Eintrag hatte; der Anzeigename stammt aus der zuletzt gespielten Runde.
+ */
+function aggregatePlayerStats() {
+  const playerById = new Map(db.players.map((p) => [p.id, p]));
+  const livesByRound = new Map();
+  db.lives.forEach((life) => {
+    if (!livesByRound.has(life.roundId)) livesByRound.set(life.roundId, []);
+    livesByRound.get(life.roundId).push(life);
+  });
+  const finished = db.rounds
+    .filter((r) => r.state === "finished")
+    .sort((a, b) => ((a.endedAt ?? a.createdAt) < (b.endedAt ?? b.createdAt) ? -1 : 1));
+
+  const stats = new Map();
+  finished.forEach((round) => {
+    (livesByRound.get(round.id) ?? []).forEach((life) => {
+      const player = playerById.get(life.playerId);
+      if (!player) return;
+      const key = playerKey(player.name);
+      let entry = stats.get(key);
+      if (!entry) {
+        entry = { key, name: player.name, wins: 0, roundsPlayed: 0, lobbyIds: new Set(), lastPlayedAt: null };
+        stats.set(key, entry);
+      }
+      entry.name = player.name;
+      entry.roundsPlayed += 1;
+      if (round.winnerPlayerId === player.id) entry.wins += 1;
+      entry.lobbyIds.add(round.lobbyId);
+      entry.lastPlayedAt = round.endedAt ?? round.createdAt;
+    });
+  });
+  return stats;
+}
+
+/**
+ * GET /leaderboard/players
+ * Query: search/query (Spielername), limit, offset.
+ * Lobbyübergreifende Rangliste pro Spieler:in: Siege, gespielte Runden, Siegquote und Elo-Wertung.
+ * Sortiert nach Siegen, dann Siegquote und Rundenzahl; rank bleibt auch beim Filtern stabil.
+ */
+app.get("/leaderboard/players",(req,res)=>{
+  const searchLower = normLine(req.query.search ?? req.query.query ?? "").toLowerCase();
+  const limit = Number(req.query.limit);
+  const offset = Number(req.query.offset) || 0;
+
+  let list = [...aggregatePlayerStats().values()]
+    .map(({ lobbyIds, ...entry }) => ({
+      ...entry,
+      rating: currentRating(entry.key),
+      ratingDelta: lastRatingDelta(entry.key),
+      lobbies: lobbyIds.size,
+      winRate: entry.roundsPlayed ? Math.round((entry.wins / entry.roundsPlayed) * 1000) / 1000 : 0,
+    }))
+    .sort((a, b) => b.wins - a.wins || b.winRate - a.winRate || b.roundsPlayed - a.roundsPlayed || a.key.localeCompare(b.key))
+    .map((entry, index) => ({ rank: index + 1, ...entry }))
+    .filter((entry) => !searchLower || entry.key.includes(searchLower));
+
+  if (!Number.isNaN(offset) && offset > 0) {
+    list = list.slice(offset);
+  }
+  if (!Number.isNaN(limit) && limit > 0) {
+    list = list.slice(0, limit);
+  }
+
   res.json(list);
 });
 
 // Healthcheck-Endpoint für schnelle Verfügbarkeitsprüfung
 app.get("/health",(_req,res)=>res.json({ok:true,time:now()}));
 
+/**
+ * Gescheiterte bedingte Schreibzugriffe, die keine Route selbst abfängt (z. B. beim Löschen einer Lobby), werden zu 409.
+ * Die Meldung bleibt im DynamoDB-Wortlaut, damit das Frontend sie wie bei einem echten Backend zuordnen kann.
+ */
+app.use((err, _req, res, next) => {
+  if (!isConditionFailure(err)) return next(err);
+  res.status(409).json({ error: `${err.name}: ${err.message}`, errorCode: err.name });
+});
+
+// Alles Übrige: mit Request-ID loggen und als JSON beantworten, damit sich Client-Fehler und Server-Log zuordnen lassen.
+app.use((err, req, res, _next) => {
+  const status = Number(err.status || err.statusCode) || 500;
+  if (status < 500) return res.status(status).json({ error: err.message, errorCode: "BAD_REQUEST", requestId: req.requestId });
+  console.error(`[error] ${req.method} ${req.originalUrl} (${req.requestId}):`, err);
+  res.status(500).json({ error: "Interner Serverfehler.", errorCode: "INTERNAL", requestId: req.requestId });
+});
+
 function startServer(port, attempt = 1) {
   const server = app.listen(port, () =>
-    console.log(`Mock backend listening on http://localhost:${port} (IDEMPOTENT_JOIN=${IDEMPOTENT_JOIN})`)
+    console.log(
+      `Mock backend listening on http://localhost:${server.address().port} (IDEMPOTENT_JOIN=${IDEMPOTENT_JOIN}, STORAGE=${db.driver}${db.location ? ` ${db.location}` : ""})`
+    )
   );
 
+  // WebSocket-Transport für Events: nur /events/ws wird angenommen, andere Upgrades werden abgewiesen.
+  const wss = new WebSocketServer({ noServer: true });
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== "/events/ws") return socket.destroy();
+    wss.handleUpgrade(req, socket, head, (ws) => openWebSocketStream(ws, Object.fromEntries(url.searchParams)));
+  });
+
   server.on("error", (err) => {
     if (err && err.code === "EADDRINUSE" && attempt < MAX_PORT_RETRY) {
       const next = port + 1;
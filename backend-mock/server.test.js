@@ -0,0 +1,309 @@
+/**
+ * Routentests gegen einen echten Serverprozess (node --test, siehe testServer.js).
+ */
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createLobbyWithPlayers, startTestServer } from "./testServer.js";
+
+const card = (suit, rank) => ({ suit, rank });
+const LOW_HAND = [card("herz", "7"), card("pik", "8"), card("karo", "9")];
+const HIGH_HAND = [card("herz", "A"), card("herz", "K"), card("pik", "7")];
+
+describe("POST /rounds/:roundId/life/corrections", () => {
+  let server;
+  let lobbyCount = 0;
+  before(async () => {
+    server = await startTestServer({ MANUAL_LIVES: "true" });
+  });
+  after(() => server.stop());
+
+  /** Frische Lobby mit laufender Runde; liefert Helfer für Tipp, Korrektur, Showdown und die eigene Rundensicht. */
+  async function runningRound(names = ["ANNA", "BERT"]) {
+    const { lobby, players } = await createLobbyWithPlayers(server, `Korrektur ${++lobbyCount}`, names);
+    const { body } = await server.request("POST", "/rounds/start", { lobbyId: lobby.id });
+    const roundId = body.round.id;
+    const [anna] = players;
+    const viewer = (player) => ({ playerId: player.id, clientSessionId: player.sessionId });
+    return {
+      players,
+      tap: (livesRemaining, player = anna) =>
+        server.request("PATCH", `/rounds/${roundId}/life`, { ...viewer(player), livesRemaining }),
+      correct: (player = anna) => server.request("POST", `/rounds/${roundId}/life/corrections`, viewer(player)),
+      showdown: async (hands) => {
+        await server.request("POST", `/rounds/${roundId}/showdown`, viewer(anna));
+        for (const [index, cards] of hands.entries()) {
+          await server.request("POST", `/rounds/${roundId}/showdown/hands`, { ...viewer(players[index]), cards });
+        }
+      },
+      currentRound: async (player = anna) => {
+        const query = new URLSearchParams({ lobbyId: lobby.id, ...viewer(player) });
+        return (await server.request("GET", `/rounds/current?${query}`)).body;
+      },
+    };
+  }
+
+  it("nimmt den letzten eigenen Tipp zurück und meldet ihn vorher als korrigierbar", async () => {
+    const game = await runningRound();
+    assert.equal((await game.tap(3)).status, 200);
+    const before = await game.currentRound();
+    assert.ok(before.round.correctableLifeEventId);
+
+    const res = await game.correct();
+    assert.equal(res.status, 201);
+    assert.deepEqual({ kind: res.body.entry.kind, from: res.body.entry.from, to: res.body.entry.to }, { kind: "correction", from: 3, to: 4 });
+    assert.equal(res.body.lives.find((l) => l.playerId === game.players[0].id).livesRemaining, 4);
+    assert.equal((await game.currentRound()).round.correctableLifeEventId, null);
+  });
+
+  it("meldet fremde Tipps nicht als korrigierbar", async () => {
+    const game = await runningRound();
+    await game.tap(3, game.players[1]);
+    assert.equal((await game.currentRound()).round.correctableLifeEventId, null);
+    assert.equal((await game.correct()).body.errorCode, "NOTHING_TO_CORRECT");
+  });
+
+  it("lehnt eine zweite Korrektur desselben Tipps ab", async () => {
+    const game = await runningRound();
+    await game.tap(3);
+    assert.equal((await game.correct()).status, 201);
+    const again = await game.correct();
+    assert.equal(again.status, 409);
+    assert.equal(again.body.errorCode, "NOTHING_TO_CORRECT");
+  });
+
+  it("lehnt die Korrektur eines Showdown-Abzugs ab", async () => {
+    const game = await runningRound();
+    await game.showdown([LOW_HAND, HIGH_HAND]);
+    assert.equal((await game.currentRound()).lives.find((l) => l.playerId === game.players[0].id).livesRemaining, 3);
+    const res = await game.correct();
+    assert.equal(res.status, 409);
+    assert.equal(res.body.errorCode, "NOTHING_TO_CORRECT");
+  });
+
+  it("lehnt die Korrektur ab, sobald nach dem Tipp ein Showdown abgezogen hat", async () => {
+    const game = await runningRound();
+    await game.tap(3);
+    await game.showdown([LOW_HAND, HIGH_HAND]);
+    assert.equal((await game.correct()).status, 409);
+  });
+
+  it("holt niemanden von 0 Leben zurück", async () => {
+    const game = await runningRound(["ANNA", "BERT", "CARL"]);
+    assert.equal((await game.tap(0)).status, 200);
+    const res = await game.correct();
+    assert.equal(res.status, 409);
+    assert.equal(res.body.errorCode, "NOTHING_TO_CORRECT");
+  });
+
+  it("lehnt Korrekturen ohne Tipp ab", async () => {
+    const game = await runningRound();
+    assert.equal((await game.correct()).status, 409);
+  });
+
+  it("meldet eigene Tipps per round.manualLives an das Frontend", async () => {
+    const game = await runningRound();
+    assert.equal((await game.currentRound()).round.manualLives, true);
+  });
+});
+
+describe("PATCH /rounds/:roundId/life ohne MANUAL_LIVES", () => {
+  let server;
+  before(async () => {
+    server = await startTestServer({ MANUAL_LIVES: "false" });
+  });
+  after(() => server.stop());
+
+  it("lehnt eigene Tipps ab und meldet manualLives: false", async () => {
+    const { lobby, players } = await createLobbyWithPlayers(server, "Showdown only", ["ANNA", "BERT"]);
+    const { body } = await server.request("POST", "/rounds/start", { lobbyId: lobby.id });
+    assert.equal(body.round.manualLives, false);
+    const [anna] = players;
+    const res = await server.request("PATCH", `/rounds/${body.round.id}/life`, {
+      playerId: anna.id,
+      clientSessionId: anna.sessionId,
+      livesRemaining: 3,
+    });
+    assert.equal(res.status, 409);
+    assert.equal(res.body.errorCode, "RULES_DRIVEN");
+  });
+});
+
+describe("Lobby löschen", () => {
+  let server;
+  before(async () => {
+    server = await startTestServer();
+  });
+  after(() => server.stop());
+
+  it("entfernt die Lobby samt Runden, behält aber die Elo-Wertungen", async () => {
+    const { lobby, players } = await createLobbyWithPlayers(server, "Kaskade", ["ANNA", "BERT"]);
+    const [anna, bert] = players;
+    const { body: started } = await server.request("POST", "/rounds/start", { lobbyId: lobby.id });
+    const roundId = started.round.id;
+    const { body: claimed } = await server.request("POST", `/rounds/${roundId}/finish`, {
+      winnerPlayerId: anna.id,
+      clientSessionId: anna.sessionId,
+    });
+    const voted = await server.request("POST", `/rounds/${roundId}/claims/${claimed.claim.id}/votes`, {
+      playerId: bert.id,
+      clientSessionId: bert.sessionId,
+      approve: true,
+    });
+    assert.equal(voted.body.claim.state, "approved");
+    assert.equal(voted.body.round.state, "finished");
+    const before = (await server.request("GET", "/players/ANNA/ratings")).body;
+    assert.equal(before.history.length, 1);
+
+    assert.equal((await server.request("DELETE", `/lobbies/${lobby.id}`)).status, 204);
+    assert.equal((await server.request("GET", `/lobbies/${lobby.id}`)).status, 404);
+    assert.equal((await server.request("GET", `/rounds/current?lobbyId=${lobby.id}`)).status, 404);
+    assert.equal((await server.request("GET", `/rounds/${roundId}/activity`)).status, 404);
+    const afterDelete = (await server.request("GET", "/players/ANNA/ratings")).body;
+    assert.equal(afterDelete.rating, before.rating);
+    assert.deepEqual(afterDelete.history, before.history);
+  });
+});
+
+/** Liest einen SSE-Stream, bis limit Events (ohne connected) angekommen sind; liefert { id, event, data } mit geparstem data. */
+async function readSseEvents(server, path, headers, limit) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 5000);
+  const res = await fetch(`${server.baseUrl}${path}`, { headers, signal: controller.signal });
+  const decoder = new TextDecoder();
+  const events = [];
+  let buffer = "";
+  try {
+    for await (const chunk of res.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let end;
+      while ((end = buffer.indexOf("\n\n")) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const field = (name) => block.split("\n").find((line) => line.startsWith(`${name}: `))?.slice(name.length + 2);
+        if (!field("event")) continue;
+        events.push({ id: field("id") ? Number(field("id")) : null, event: field("event"), data: JSON.parse(field("data")) });
+      }
+      if (events.filter((entry) => entry.event !== "connected").length >= limit) break;
+    }
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+  return events;
+}
+
+describe("Replay verpasster Events", () => {
+  let server;
+  before(async () => {
+    server = await startTestServer({ SSE_REPLAY_LIMIT: "3" });
+  });
+  after(() => server.stop());
+
+  /** Startpunkt wie beim Verbindungsaufbau: /events/poll ohne lastEventId liefert die aktuelle ID. */
+  const currentEventId = async () => (await server.request("GET", "/events/poll")).body.lastEventId;
+
+  it("liefert per Long-Poll alle Events nach der bekannten ID in Reihenfolge", async () => {
+    const { lobby } = await createLobbyWithPlayers(server, "Replay Poll", []);
+    const start = await currentEventId();
+    await server.request("POST", `/lobbies/${lobby.id}/join-or-rejoin`, { name: "ANNA", clientSessionId: "sess-a" });
+    await server.request("POST", `/lobbies/${lobby.id}/join-or-rejoin`, { name: "BERT", clientSessionId: "sess-b" });
+
+    const all = (await server.request("GET", `/events/poll?lobbyId=${lobby.id}&lastEventId=${start}`)).body;
+    assert.equal(all.events.filter((entry) => entry.event === "player_joined").length, 2);
+    assert.ok(all.events.every((entry, index) => entry.id > start && (index === 0 || entry.id > all.events[index - 1].id)));
+    assert.equal(all.lastEventId, all.events.at(-1).id);
+
+    const firstId = all.events[0].id;
+    const rest = (await server.request("GET", `/events/poll?lobbyId=${lobby.id}&lastEventId=${firstId}`)).body;
+    assert.deepEqual(
+      rest.events.map((entry) => entry.id),
+      all.events.slice(1).map((entry) => entry.id)
+    );
+  });
+
+  it("spielt per SSE ab Last-Event-ID nach, ohne dem connected-Event eine ID zu geben", async () => {
+    const { lobby } = await createLobbyWithPlayers(server, "Replay SSE", ["ANNA"]);
+    const start = await currentEventId();
+    await server.request("POST", `/lobbies/${lobby.id}/join-or-rejoin`, { name: "BERT", clientSessionId: "sess-b" });
+    const expected = (await server.request("GET", `/events/poll?lobbyId=${lobby.id}&lastEventId=${start}`)).body.events;
+
+    const events = await readSseEvents(server, `/events?lobbyId=${lobby.id}`, { "Last-Event-ID": String(start) }, expected.length);
+    assert.equal(events[0].event, "connected");
+    assert.equal(events[0].id, null);
+    assert.deepEqual(
+      events.slice(1).map((entry) => [entry.id, entry.event]),
+      expected.map((entry) => [entry.id, entry.event])
+    );
+  });
+
+  it("verlangt einen Resync, wenn der Puffer die ID schon verdrängt hat", async () => {
+    const { lobby } = await createLobbyWithPlayers(server, "Replay Lücke", []);
+    const start = await currentEventId();
+    for (const name of ["ANNA", "BERT", "CARL", "DORA"]) {
+      await server.request("POST", `/lobbies/${lobby.id}/join-or-rejoin`, { name, clientSessionId: `sess-${name}` });
+    }
+    const latest = await currentEventId();
+
+    const { events, lastEventId } = (await server.request("GET", `/events/poll?lobbyId=${lobby.id}&lastEventId=${start}`)).body;
+    assert.equal(events.length, 1);
+    assert.equal(events[0].event, "resync");
+    assert.equal(events[0].data.type, "RESYNC_REQUIRED");
+    assert.equal(events[0].data.reason, "gap");
+    assert.equal(events[0].data.lastEventId, start);
+    assert.equal(lastEventId, latest);
+
+    const [connected, resync] = await readSseEvents(server, `/events?lobbyId=${lobby.id}`, { "Last-Event-ID": String(start) }, 1);
+    assert.equal(connected.event, "connected");
+    assert.deepEqual([resync.id, resync.event, resync.data.reason], [latest, "resync", "gap"]);
+  });
+
+  it("verlangt einen Resync für IDs aus einem früheren Serverlauf", async () => {
+    const { lobby } = await createLobbyWithPlayers(server, "Replay Neustart", ["ANNA"]);
+    const { events } = (await server.request("GET", `/events/poll?lobbyId=${lobby.id}&lastEventId=5`)).body;
+    assert.deepEqual(
+      events.map((entry) => [entry.event, entry.data.reason]),
+      [["resync", "restart"]]
+    );
+  });
+});
+
+describe("ETags gepollter Endpunkte", () => {
+  let server;
+  before(async () => {
+    server = await startTestServer();
+  });
+  after(() => server.stop());
+
+  it("antwortet bei passendem If-None-Match mit 304 ohne Body und nach Änderungen wieder mit 200", async () => {
+    const { lobby, players } = await createLobbyWithPlayers(server, "ETag", ["ANNA", "BERT"]);
+    await server.request("POST", "/rounds/start", { lobbyId: lobby.id });
+    const [anna] = players;
+    const paths = [
+      `/players?lobbyId=${lobby.id}`,
+      `/rounds/current?lobbyId=${lobby.id}&playerId=${anna.id}&clientSessionId=${anna.sessionId}`,
+      "/leaderboard",
+    ];
+    const etags = {};
+
+    for (const path of paths) {
+      const first = await server.request("GET", path);
+      const etag = first.headers.get("ETag");
+      assert.equal(first.status, 200, path);
+      assert.match(etag, /^"[\w-]+"$/, path);
+
+      const unchanged = await server.request("GET", path, undefined, { "If-None-Match": etag });
+      assert.equal(unchanged.status, 304, path);
+      assert.equal(unchanged.body, null, path);
+      assert.equal(unchanged.headers.get("ETag"), etag, path);
+      assert.equal((await server.request("GET", path, undefined, { "If-None-Match": `"alt", W/${etag}` })).status, 304, path);
+      assert.equal((await server.request("GET", path, undefined, { "If-None-Match": '"alt"' })).status, 200, path);
+      etags[path] = etag;
+    }
+
+    await server.request("POST", `/lobbies/${lobby.id}/join-or-rejoin`, { name: "CARL", clientSessionId: "sess-CARL" });
+    const changed = await server.request("GET", paths[0], undefined, { "If-None-Match": etags[paths[0]] });
+    assert.equal(changed.status, 200);
+    assert.equal(changed.body.length, 3);
+    assert.notEqual(changed.headers.get("ETag"), etags[paths[0]]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Single-Table-Modell für DynamoDB plus Speicher-Treiber des Repositorys (STORAGE_DRIVER=dynamo).
+ * Schlüssel je Entität (PK/SK, Sekundärindex GSI1):
+ *   Lobby   LOBBY#<lobbyId>    / LOBBY               GSI1: LOBBYNAME#<name klein> / LOBBY
+ *   Spieler PLAYER#<playerId>  / PLAYER              GSI1: LOBBY#<lobbyId>        / PLAYER#<playerId>
+ *   Runde   LOBBY#<lobbyId>    / ROUND#<nr, 6-stellig> GSI1: ROUND#<roundId>       / ROUND
+ *   Leben   ROUND#<roundId>    / LIFE#<playerId>
+ *   Score   PLAYER#<playerId>  / SCORE
+ * Übrige Tabellen (Tische, Showdowns, Sieg-Meldungen, Wertung, Sprüche …) liegen generisch unter <TYP>#<id> / <TYP>.
+ */
+export const DEFAULT_TABLE_NAME = "SchwimmApp";
+/** Höchstzahl Items pro TransactWriteItems (DynamoDB-Limit, der Fake prüft es ebenso). */
+export const MAX_TRANSACT_ITEMS = 100;
+const KEY_ATTRIBUTES = ["PK", "SK", "GSI1PK", "GSI1SK", "type", "activePlayers"];
+
+/** Schlüssel der fünf Kern-Entitäten; alles andere über genericKey. */
+const KEYS = {
+  lobbies: (row) => ({ PK: `LOBBY#${row.id}`, SK: "LOBBY", GSI1PK: `LOBBYNAME#${String(row.name).toLowerCase()}`, GSI1SK: "LOBBY" }),
+  players: (row) => ({ PK: `PLAYER#${row.id}`, SK: "PLAYER", GSI1PK: `LOBBY#${row.lobbyId ?? "NONE"}`, GSI1SK: `PLAYER#${row.id}` }),
+  rounds: (row) => ({ PK: `LOBBY#${row.lobbyId}`, SK: `ROUND#${String(row.number).padStart(6, "0")}`, GSI1PK: `ROUND#${row.id}`, GSI1SK: "ROUND" }),
+  lives: (row) => ({ PK: `ROUND#${row.roundId}`, SK: `LIFE#${row.playerId}` }),
+  scores: (row) => ({ PK: `PLAYER#${row.playerId}`, SK: "SCORE" }),
+};
+
+/** Fachlicher Schlüssel einer Zeile der übrigen Tabellen (Tische hängen an der Runde, Wertungen am Spielernamen). */
+function genericKey(table, row) {
+  const id = table === "tables" ? row.roundId : table === "ratings" ? row.key : row.id;
+  const type = table.toUpperCase();
+  return { PK: `${type}#${id}`, SK: type };
+}
+
+/** Schlüssel einer Zeile, wie sie in der Tabelle steht. */
+export function keyFor(table, row) {
+  const build = KEYS[table];
+  const { PK, SK } = build ? build(row) : genericKey(table, row);
+  return { PK, SK };
+}
+
+/**
+ * Wandelt eine Zeile in ein Item. Der Platzzähler activePlayers der Lobbys gehört nicht zur Zeile:
+ * ihn ändern nur claimSeat/releaseSeat (bedingte Updates auf genau ein Item), save() fasst ihn nicht an.
+ */
+export function toItem(table, row) {
+  const build = KEYS[table];
+  const keys = build ? build(row) : genericKey(table, row);
+  return { ...row, ...keys, type: table };
+}
+
+/** Entfernt Schlüssel- und Hilfsattribute wieder; liefert Tabellenname und Zeile. */
+export function fromItem(item) {
+  const row = { ...item };
+  KEY_ATTRIBUTES.forEach((attr) => delete row[attr]);
+  return { table: item.type, row };
+}
+
+/** Aktive Spieler:innen je Lobby laut Zeilen – Startwert des Platzzählers einer neuen Lobby. */
+function activePlayersByLobby(tables) {
+  const counts = new Map();
+  (tables.players ?? []).forEach((player) => {
+    if (!player.lobbyId || player.isActive === false) return;
+    counts.set(player.lobbyId, (counts.get(player.lobbyId) ?? 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Bestehende Lobby per Update statt Put schreiben: SET für alle Felder, REMOVE für weggefallene,
+ * damit der Platzzähler (activePlayers) erhalten bleibt.
+ */
+function lobbyUpdate(tableName, item, previous) {
+  const names = {};
+  const values = {};
+  const assignments = [];
+  Object.entries(item).forEach(([field, value], index) => {
+    if (field === "PK" || field === "SK") return;
+    names[`#f${index}`] = field;
+    values[`:f${index}`] = value;
+    assignments.push(`#f${index} = :f${index}`);
+  });
+  const removed = Object.keys(previous ?? {})
+    .filter((field) => !(field in item) && field !== "activePlayers")
+    .map((field, index) => {
+      names[`#r${index}`] = field;
+      return `#r${index}`;
+    });
+  return {
+    TableName: tableName,
+    Key: { PK: item.PK, SK: item.SK },
+    UpdateExpression: `SET ${assignments.join(", ")}${removed.length ? ` REMOVE ${removed.join(", ")}` : ""}`,
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values,
+  };
+}
+
+/**
+ * Speicher-Treiber für createRepository gegen einen DynamoDB-förmigen Client (lokal: createDynamoFake).
+ * save() schreibt nur geänderte bzw. entfernte Items per transactWrite. Passt alles in eine Transaktion (MAX_TRANSACT_ITEMS),
+ * verschwindet eine gelöschte Lobby komplett oder gar nicht. Größere Stände werden in Blöcke geteilt: erst alle Puts/Updates,
+ * dann die Deletes mit den Lobby-Items vorn – bricht ein späterer Block ab, ist die Lobby schon weg und der Rest folgt beim nächsten save().
+ */
+export function createSingleTableStore({ client, tableName = DEFAULT_TABLE_NAME }) {
+  /** Zuletzt geschriebener Stand je Item (PK/SK -> JSON) für die Differenz. */
+  let written = new Map();
+  const id = ({ PK, SK }) => `${PK}\u0000${SK}`;
+
+  /** Alle Items, die den aktuellen Tabellenstand abbilden. */
+  function itemsFor(tables) {
+    const items = new Map();
+    Object.entries(tables).forEach(([table, rows]) => {
+      rows.forEach((row) => {
+        const item = toItem(table, row);
+        items.set(id(item), item);
+      });
+    });
+    return items;
+  }
+
+  return {
+    location: `dynamo-fake:${tableName}`,
+
+    load() {
+      const { Items } = client.scan({ TableName: tableName });
+      if (!Items.length) return null;
+      const tables = {};
+      Items.forEach((item) => {
+        const { table, row } = fromItem(item);
+        (tables[table] ??= []).push(row);
+        written.set(id(item), JSON.stringify(toItem(table, row)));
+      });
+      return tables;
+    },
+
+    save(tables) {
+      const next = itemsFor(tables);
+      const seats = activePlayersByLobby(tables);
+      /** @type {{ key: string, op: Record<string, any>, item: Record<string, any> | null }[]} */
+      const writes = [];
+      const deletes = [];
+      next.forEach((item, key) => {
+        const serialized = JSON.stringify(item);
+        const previous = written.get(key);
+        if (previous === serialized) return;
+        // Lobbys, die schon in der Tabelle stehen, nur per Update (Zähler bleibt); neue per Put mit Startwert aus den Zeilen.
+        const op =
+          item.type === "lobbies" && written.has(key)
+            ? { Update: lobbyUpdate(tableName, item, JSON.parse(previous)) }
+            : { Put: { TableName: tableName, Item: item.type === "lobbies" ? { ...item, activePlayers: seats.get(item.id) ?? 0 } : item } };
+        writes.push({ key, op, item });
+      });
+      written.forEach((_serialized, key) => {
+        if (next.has(key)) return;
+        const [PK, SK] = key.split("\u0000");
+        const op = { Delete: { TableName: tableName, Key: { PK, SK }, ConditionExpression: "attribute_exists(PK)" } };
+        if (SK === "LOBBY") deletes.unshift({ key, op, item: null });
+        else deletes.push({ key, op, item: null });
+      });
+      const pending = [...writes, ...deletes];
+      // Jeder Block wird sofort als geschrieben vermerkt, damit ein Abbruch später genau beim Rest weitermacht.
+      for (let start = 0; start < pending.length; start += MAX_TRANSACT_ITEMS) {
+        const chunk = pending.slice(start, start + MAX_TRANSACT_ITEMS);
+        client.transactWrite({ TransactItems: chunk.map(({ op }) => op) });
+        chunk.forEach(({ key, item }) => {
+          if (item) written.set(key, JSON.stringify(item));
+          else written.delete(key);
+        });
+      }
+    },
+
+    /** Nach einem Rollback ist der Differenzstand unzuverlässig; beim nächsten save wird alles neu geschrieben. */
+    reset() {
+      const { Items } = client.scan({ TableName: tableName });
+      written = new Map(Items.map((item) => [id(item), null]));
+    },
+
+    /** Gibt einen Platz frei (Spieler:in inaktiv): activePlayers - 1. Steht der Zähler schon auf 0 oder ist die Lobby weg, bleibt alles, wie es ist. */
+    releaseSeat(lobbyId) {
+      try {
+        client.update({
+          TableName: tableName,
+          Key: { PK: `LOBBY#${lobbyId}`, SK: "LOBBY" },
+          UpdateExpression: "ADD activePlayers :minusOne",
+          ConditionExpression: "attribute_exists(PK) AND activePlayers > :zero",
+          ExpressionAttributeValues: { ":minusOne": -1, ":zero": 0 },
+        });
+      } catch (err) {
+        if (err?.name !== "ConditionalCheckFailedException") throw err;
+      }
+    },
+
+    /** Belegt einen Platz: activePlayers + 1, solange die Lobby existiert und noch nicht voll ist. */
+    claimSeat(lobbyId, maxPlayers) {
+      client.update({
+        TableName: tableName,
+        Key: { PK: `LOBBY#${lobbyId}`, SK: "LOBBY" },
+        UpdateExpression: "ADD activePlayers :one",
+        ConditionExpression: "attribute_exists(PK) AND activePlayers < :max",
+        ExpressionAttributeValues: { ":one": 1, ":max": maxPlayers },
+      });
+    },
+
+    /** Bedingtes Update einer bestehenden Zeile: alle Felder aus expected müssen im Item noch so stehen. */
+    updateIf(table, row, expected, changes) {
+      const names = {};
+      const values = {};
+      const conditions = ["attribute_exists(PK)"];
+      Object.entries(expected).forEach(([field, value], index) => {
+        names[`#e${index}`] = field;
+        values[`:e${index}`] = value;
+        conditions.push(`#e${index} = :e${index}`);
+      });
+      const assignments = Object.entries(changes).map(([field, value], index) => {
+        names[`#c${index}`] = field;
+        values[`:c${index}`] = value;
+        return `#c${index} = :c${index}`;
+      });
+      client.update({
+        TableName: tableName,
+        Key: keyFor(table, row),
+        UpdateExpression: `SET ${assignments.join(", ")}`,
+        ConditionExpression: conditions.join(" AND "),
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+      });
+    },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Tests des Single-Table-Treibers gegen den lokalen Fake (node --test): Platzvergabe, bedingte Updates, Transaktionsgrenzen.
+ */
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createDynamoFake } from "./dynamoFake.js";
+import { createRepository, isConditionFailure } from "./repository.js";
+import { MAX_TRANSACT_ITEMS } from "./singleTable.js";
+
+const MAX_PLAYERS = 8;
+
+/** Item direkt aus der Fake-Tabelle lesen. */
+function itemAt(client, PK, SK) {
+  const { Items } = client.scan({
+    FilterExpression: "PK = :pk AND SK = :sk",
+    ExpressionAttributeValues: { ":pk": PK, ":sk": SK },
+  });
+  return Items[0];
+}
+
+/** Repository mit gespeicherter Lobby "l1" und activeCount bereits platzierten Spieler:innen. */
+function lobbyWithPlayers(client, activeCount) {
+  const db = createRepository({ driver: "dynamo", client });
+  db.lobbies.insert({ id: "l1", name: "Kneipe", createdAt: "t0", status: "open", mode: "companion" });
+  db.flush();
+  for (let i = 0; i < activeCount; i += 1) join(db, `p${i}`);
+  return db;
+}
+
+/** Join wie in processJoinOrRejoin: Platz bedingt vergeben und Spieler:in in derselben Transaktion anlegen. */
+function join(db, id) {
+  db.transaction(() => {
+    db.claimSeat("l1", MAX_PLAYERS);
+    db.players.insert({ id, name: id, lobbyId: "l1", joinedAt: "t0", isActive: true });
+  });
+}
+
+const seats = (client) => itemAt(client, "LOBBY#l1", "LOBBY").activePlayers;
+
+describe("claimSeat", () => {
+  it("vergibt den letzten Platz genau einmal, auch wenn zwei Server gleichzeitig zugreifen", () => {
+    const client = createDynamoFake();
+    const first = lobbyWithPlayers(client, MAX_PLAYERS - 1);
+    const second = createRepository({ driver: "dynamo", client });
+    assert.equal(second.players.length, MAX_PLAYERS - 1);
+
+    join(first, "schnell");
+    assert.throws(() => join(second, "langsam"), (err) => err.name === "ConditionalCheckFailedException");
+    assert.equal(seats(client), MAX_PLAYERS);
+    assert.equal(second.players.find((p) => p.id === "langsam"), undefined);
+  });
+
+  it("gibt Plätze per releaseSeat frei, aber nie unter 0", () => {
+    const client = createDynamoFake();
+    const db = lobbyWithPlayers(client, MAX_PLAYERS);
+    assert.throws(() => db.claimSeat("l1", MAX_PLAYERS), (err) => isConditionFailure(err));
+
+    db.players.find((p) => p.id === "p0").isActive = false;
+    db.releaseSeat("l1");
+    db.flush();
+    assert.equal(seats(client), MAX_PLAYERS - 1);
+    join(db, "nachzuegler");
+    assert.equal(seats(client), MAX_PLAYERS);
+
+    const empty = lobbyWithPlayers(createDynamoFake(), 0);
+    empty.releaseSeat("l1");
+  });
+
+  it("setzt den Zähler zurück, wenn die Transaktion nach der Platzvergabe scheitert", () => {
+    const client = createDynamoFake();
+    const db = lobbyWithPlayers(client, 3);
+    assert.throws(() =>
+      db.transaction(() => {
+        db.claimSeat("l1", MAX_PLAYERS);
+        throw new Error("kaputt");
+      })
+    );
+    assert.equal(seats(client), 3);
+  });
+
+  it("lässt den Zähler beim Speichern geänderter Lobby-Felder stehen", () => {
+    const client = createDynamoFake();
+    const db = lobbyWithPlayers(client, 2);
+    const lobby = db.lobbies.find((l) => l.id === "l1");
+    lobby.mode = "table";
+    delete lobby.status;
+    db.flush();
+    const item = itemAt(client, "LOBBY#l1", "LOBBY");
+    assert.equal(item.activePlayers, 2);
+    assert.equal(item.mode, "table");
+    assert.equal("status" in item, false);
+  });
+});
+
+describe("updateIf", () => {
+  it("scheitert, wenn ein anderer Server die Runde schon beendet hat, und lässt die Zeile unverändert", () => {
+    const client = createDynamoFake();
+    const first = createRepository({ driver: "dynamo", client });
+    first.rounds.insert({ id: "r1", lobbyId: "l1", number: 1, state: "running", createdAt: "t0" });
+    first.flush();
+    const second = createRepository({ driver: "dynamo", client });
+
+    first.updateIf("rounds", first.rounds.find((r) => r.id === "r1"), { state: "running" }, { state: "finished", winnerPlayerId: "a" });
+    const stale = second.rounds.find((r) => r.id === "r1");
+    assert.throws(
+      () => second.updateIf("rounds", stale, { state: "running" }, { state: "finished", winnerPlayerId: "b" }),
+      (err) => err.name === "ConditionalCheckFailedException"
+    );
+    assert.equal(stale.state, "running");
+    assert.equal(itemAt(client, "LOBBY#l1", "ROUND#000001").winnerPlayerId, "a");
+  });
+});
+
+describe("save", () => {
+  it("bricht die ganze Transaktion ab, wenn ein zu löschendes Item schon fehlt", () => {
+    const client = createDynamoFake();
+    const db = lobbyWithPlayers(client, 0);
+    db.rounds.insert({ id: "r1", lobbyId: "l1", number: 1, state: "running", createdAt: "t0" });
+    db.flush();
+    client.delete({ TableName: "SchwimmApp", Key: { PK: "LOBBY#l1", SK: "ROUND#000001" } });
+
+    db.lobbies.removeWhere(() => true);
+    db.rounds.removeWhere(() => true);
+    assert.throws(() => db.flush(), (err) => err.name === "TransactionCanceledException");
+    assert.ok(itemAt(client, "LOBBY#l1", "LOBBY"));
+  });
+
+  it(`teilt mehr als ${MAX_TRANSACT_ITEMS} Änderungen auf mehrere Transaktionen auf`, () => {
+    const client = createDynamoFake();
+    const db = lobbyWithPlayers(client, 0);
+    const count = MAX_TRANSACT_ITEMS * 2 + 10;
+    for (let i = 0; i < count; i += 1) db.quotes.insert({ id: `q${i}`, text: `Spruch ${i}`, createdAt: "t0" });
+    db.flush();
+    assert.equal(client.scan({ FilterExpression: "SK = :sk", ExpressionAttributeValues: { ":sk": "QUOTES" } }).Count, count);
+
+    db.lobbies.removeWhere(() => true);
+    db.quotes.removeWhere(() => true);
+    db.flush();
+    assert.equal(client.scan().Count, 0);
+  });
+});
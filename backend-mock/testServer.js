@@ -0,0 +1,70 @@
+/**
+ * Hilfen für Routentests (node --test): startet server.js als eigenen Prozess mit RAM-Speicher auf einem freien Port.
+ * Kein Testfile, daher ohne .test im Namen; die Tests importieren es direkt.
+ */
+import { spawn } from "node:child_process";
+import { fileURLToPath } from "node:url";
+
+const STARTUP_TIMEOUT_MS = 10000;
+
+/**
+ * Startet einen frischen Mock-Server; env überschreibt Einstellungen wie MANUAL_LIVES oder SSE_REPLAY_LIMIT.
+ * Liefert { baseUrl, request, stop }; request(method, path, body?, headers?) gibt { status, headers, body } zurück.
+ */
+export async function startTestServer(env = {}) {
+  const child = spawn(process.execPath, ["server.js"], {
+    cwd: fileURLToPath(new URL(".", import.meta.url)),
+    env: { ...process.env, PORT: "0", STORAGE_DRIVER: "memory", PRESENCE_SWEEP_MS: "60000", ...env },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  let output = "";
+  const baseUrl = await new Promise((resolve, reject) => {
+    const timer = setTimeout(() => fail(new Error(`Server nicht gestartet:\n${output}`)), STARTUP_TIMEOUT_MS);
+    const fail = (error) => {
+      clearTimeout(timer);
+      child.kill();
+      reject(error);
+    };
+    child.stdout.on("data", (chunk) => {
+      output += chunk;
+      const match = /listening on (http:\/\/localhost:\d+)/.exec(output);
+      if (match) {
+        clearTimeout(timer);
+        resolve(match[1]);
+      }
+    });
+    child.stderr.on("data", (chunk) => (output += chunk));
+    child.on("exit", (code) => fail(new Error(`Server beendet (${code}):\n${output}`)));
+  });
+
+  async function request(method, path, body, headers = {}) {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { ...(body === undefined ? {} : { "Content-Type": "application/json" }), ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await res.text();
+    return { status: res.status, headers: res.headers, body: text ? JSON.parse(text) : null };
+  }
+
+  function stop() {
+    return new Promise((resolve) => {
+      if (child.exitCode !== null) return resolve();
+      child.once("exit", () => resolve());
+      child.kill();
+    });
+  }
+
+  return { baseUrl, request, stop };
+}
+
+/** Legt eine Lobby an und lässt die genannten Spieler beitreten; liefert { lobby, players } (players mit sessionId). */
+export async function createLobbyWithPlayers(server, lobbyName, playerNames) {
+  const lobby = (await server.request("POST", "/lobbies", { name: lobbyName })).body;
+  const players = [];
+  for (const name of playerNames) {
+    const { body } = await server.request("POST", `/lobbies/${lobby.id}/join-or-rejoin`, { name, clientSessionId: `sess-${name}` });
+    players.push({ ...body.player, sessionId: body.sessionId });
+  }
+  return { lobby, players };
+}
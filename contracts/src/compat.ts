@@ -0,0 +1,126 @@
+/**
+ * Kompatibilitätsschicht für ältere Antwortformate.
+ * Passt eine Antwort nicht zum Vertrag, versucht decodeResponse() sie hier in die aktuelle Form zu heben und prüft danach erneut.
+ * Jede Anpassung an alte Server (Player-only-Join, Legacy-Leaderboard, nackte Namensliste) lebt damit an genau einer Stelle.
+ */
+
+/** Zusatzwissen des Aufrufers, mit dem fehlende Felder alter Antworten aufgefüllt werden (z. B. der eingegebene Spielername). */
+export type LegacyHint = Record<string, string | null | undefined>;
+
+/** Hebt ein altes Format in das aktuelle; undefined heißt „kein bekanntes Altformat“. */
+export type LegacyUpgrade = (payload: unknown, hint?: LegacyHint) => unknown;
+
+type Loose = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Loose => Boolean(value) && typeof value === "object" && !Array.isArray(value);
+const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+/** Alter Spieler ohne lobbyId/joinedAt bzw. mit leerem Namen: Lücken aus dem Hinweis bzw. mit der aktuellen Zeit füllen. */
+function upgradePlayer(raw: Loose, hint: LegacyHint, fallbackId?: string) {
+  const id = text(raw.id) ?? fallbackId;
+  if (!id) return undefined;
+  return {
+    id,
+    name: text(raw.name) ?? hint.playerName ?? "",
+    lobbyId: text(raw.lobbyId) ?? hint.lobbyId ?? "",
+    joinedAt: text(raw.joinedAt) ?? new Date().toISOString(),
+    ...(typeof raw.isActive === "boolean" ? { isActive: raw.isActive } : {}),
+    ...(typeof raw.lastSeen === "string" || raw.lastSeen === null ? { lastSeen: raw.lastSeen } : {}),
+  };
+}
+
+/** Lebensstand ohne Zeitstempel wird ergänzt, unvollständige Stände fallen weg (wie „noch keine Runde“). */
+function upgradeLifeSnapshot(raw: unknown) {
+  if (!isObject(raw)) return undefined;
+  if (typeof raw.id !== "string" || typeof raw.roundId !== "string" || typeof raw.playerId !== "string") return undefined;
+  if (typeof raw.livesRemaining !== "number") return undefined;
+  return {
+    id: raw.id,
+    roundId: raw.roundId,
+    playerId: raw.playerId,
+    livesRemaining: raw.livesRemaining,
+    updatedAt: typeof raw.updatedAt === "string" ? raw.updatedAt : new Date().toISOString(),
+    ...(typeof raw.roundNumber === "number" ? { roundNumber: raw.roundNumber } : {}),
+  };
+}
+
+const JOIN_ERROR_CODES = ["LOBBY_FULL", "NAME_ACTIVE", "NAME_TAKEN", "MAX_PLAYERS", "UNKNOWN"];
+
+/**
+ * Join-Antworten älterer Server: entweder nur das Spielerobjekt (POST /lobbies/:id/join)
+ * oder die ok/mode-Struktur mit fehlendem player, kleingeschriebenem errorCode oder unvollständigem playerLives.
+ * hint: { playerName, lobbyId } aus der Anfrage.
+ */
+export const upgradeJoinPayload: LegacyUpgrade = (payload, hint = {}) => {
+  if (!isObject(payload)) return undefined;
+  if ("ok" in payload || "mode" in payload) {
+    const ok = payload.ok !== false;
+    const player = isObject(payload.player)
+      ? upgradePlayer(payload.player, hint, text(payload.playerId))
+      : ok && text(payload.playerId)
+        ? upgradePlayer({ id: payload.playerId }, hint)
+        : undefined;
+    const errorCode = typeof payload.errorCode === "string" ? payload.errorCode.toUpperCase() : undefined;
+    return {
+      ok,
+      mode: payload.mode === "rejoin" ? "rejoin" : "join",
+      playerId: text(payload.playerId) ?? player?.id,
+      isActive: typeof payload.isActive === "boolean" ? payload.isActive : player ? player.isActive !== false : true,
+      ...(player ? { player } : {}),
+      ...(text(payload.sessionId) ? { sessionId: text(payload.sessionId) } : {}),
+      ...(payload.sessionReplaced === true ? { sessionReplaced: true } : {}),
+      ...(upgradeLifeSnapshot(payload.playerLives) ? { playerLives: upgradeLifeSnapshot(payload.playerLives) } : {}),
+      ...(errorCode && JOIN_ERROR_CODES.includes(errorCode) ? { errorCode } : {}),
+      ...(typeof payload.message === "string" ? { message: payload.message } : {}),
+    };
+  }
+  if (typeof payload.id !== "string" || typeof payload.name !== "string") return undefined;
+  const player = upgradePlayer(payload, hint);
+  return {
+    ok: true,
+    mode: "join",
+    playerId: payload.id,
+    isActive: payload.isActive !== false,
+    player,
+    ...(text(payload.sessionId) ? { sessionId: text(payload.sessionId) } : {}),
+    ...(upgradeLifeSnapshot(payload.playerLives) ? { playerLives: upgradeLifeSnapshot(payload.playerLives) } : {}),
+  };
+};
+
+/**
+ * Leaderboard älterer bzw. externer Dienste: Lobbys mit id/name statt lobbyId/lobbyName, Spieler mit points statt pointsTotal.
+ * Einträge ohne ID oder Namen werden übersprungen.
+ */
+export const upgradeLeaderboard: LegacyUpgrade = (payload) => {
+  if (!Array.isArray(payload)) return undefined;
+  return payload.filter(isObject).flatMap((lobby) => {
+    const lobbyId = text(lobby.lobbyId) ?? text(lobby.id);
+    const lobbyName = text(lobby.lobbyName) ?? text(lobby.name);
+    if (!lobbyId || !lobbyName) return [];
+    const players = (Array.isArray(lobby.players) ? lobby.players : []).filter(isObject).flatMap((player) => {
+      if (typeof player.id !== "string" || typeof player.name !== "string") return [];
+      const pointsTotal = typeof player.points === "number" ? player.points : player.pointsTotal;
+      return [
+        {
+          id: player.id,
+          name: player.name,
+          ...(typeof pointsTotal === "number" ? { pointsTotal } : {}),
+          ...(typeof player.rating === "number" ? { rating: player.rating, ratingDelta: player.ratingDelta ?? null } : {}),
+        },
+      ];
+    });
+    return [
+      {
+        lobbyId,
+        lobbyName,
+        players,
+        createdAt: text(lobby.createdAt) ?? new Date().toISOString(),
+        ...(typeof lobby.rounds === "number" ? { rounds: lobby.rounds } : {}),
+      },
+    ];
+  });
+};
+
+/** Namensliste älterer Server als nacktes Array statt { names }. */
+export const upgradePlayerNames: LegacyUpgrade = (payload) =>
+  Array.isArray(payload) ? { names: payload.filter((entry) => typeof entry === "string") } : undefined;
@@ -0,0 +1,319 @@
+/**
+ * Verträge aller JSON-Endpunkte: Route, Request-Body (falls vorhanden) und Erfolgsantwort.
+ * Der Mock-Server prüft damit eingehende Bodies und optional die eigenen Antworten, das Frontend dekodiert jede Antwort darüber.
+ * Query-Parameter und Fehlerantworten (ApiErrorBody) bleiben Sache der Routen; SSE-Streams (/events) sind hier nicht erfasst.
+ */
+import { upgradeJoinPayload, upgradeLeaderboard, upgradePlayerNames, type LegacyHint, type LegacyUpgrade } from "./compat.js";
+import {
+  HandEvaluation,
+  HeadToHead,
+  JoinOrRejoinResponse,
+  LeaderboardEntry,
+  LifeEvent,
+  LifeState,
+  Lobby,
+  Player,
+  PlayerLeaderboardEntry,
+  PlayerLifeSnapshot,
+  PlayerRating,
+  PlayerStats,
+  Quote,
+  Round,
+  RoundHistoryEntry,
+  RoundHistoryPage,
+  RoundMode,
+  Score,
+  TableAction,
+  WinnerClaim,
+} from "./models.js";
+import { decode, s, safeDecode, type Infer, type Schema } from "./schema.js";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+export type Route = `${HttpMethod} /${string}`;
+
+/**
+ * Vertrag eines Endpunkts. route ist die kanonische Route, aliases weitere Routen mit identischem Verhalten (Legacy-URLs).
+ * legacy hebt alte Antwortformate an (siehe compat.ts), bevor die Antwort endgültig als Vertragsbruch gilt.
+ */
+export type Endpoint<Req = unknown, Res = unknown> = {
+  readonly name: string;
+  readonly route: Route;
+  readonly aliases?: readonly Route[];
+  readonly request?: Schema<Req>;
+  readonly response: Schema<Res>;
+  readonly legacy?: LegacyUpgrade;
+};
+
+export type RequestOf<E> = E extends { request: Schema<infer R> } ? R : never;
+export type ResponseOf<E> = E extends { response: Schema<infer R> } ? R : never;
+
+const endpoint = <Req, Res>(spec: Endpoint<Req, Res>) => spec;
+
+const SessionId = s.optional(s.nullable(s.string()));
+
+/** Body aller Spieleraktionen einer Runde: wer handelt und mit welcher Session. */
+const ViewerRequest = s.object({ playerId: s.string(), clientSessionId: SessionId });
+export type ViewerRequest = Infer<typeof ViewerRequest>;
+
+/** Karten im Request nur grob geprüft; gültige Farben/Werte und Dubletten prüft die Route (INVALID_HAND, DUPLICATE_CARD). */
+const CardInput = s.object({ suit: s.string(), rank: s.string() });
+
+const JoinRequest = s.object({
+  name: s.optional(s.string()),
+  playerName: s.optional(s.string()),
+  clientSessionId: SessionId,
+  forceRejoin: s.optional(s.boolean()),
+});
+
+const DeleteLobbyRequest = s.object({
+  lobbyId: s.optional(s.string()),
+  lobbyName: s.optional(s.string()),
+  hard: s.optional(s.boolean()),
+});
+
+const RoundWithLives = s.object({ round: Round, lives: s.array(LifeState) });
+const RoundSnapshot = s.object({ round: Round, lives: s.array(LifeState), scores: s.array(Score) });
+/** Gesamtstand einer Lobby für Game-, Lose- und Win-Screen; round ist null, solange die Lobby noch keine Runde hat. */
+const LobbyState = s.object({
+  version: s.number(),
+  lobby: Lobby,
+  round: s.nullable(Round),
+  lives: s.array(LifeState),
+  scores: s.array(Score),
+  players: s.array(Player),
+});
+export type LobbyState = Infer<typeof LobbyState>;
+/** Antwort auf Sieg-Meldung und Abstimmung; scores nur, wenn die Runde dadurch beendet wurde. */
+const ClaimResult = s.object({ round: Round, claim: WinnerClaim, scores: s.optional(s.array(Score)) });
+
+export const endpoints = {
+  listLobbies: endpoint({ name: "lobbies.list", route: "GET /lobbies", response: s.array(Lobby) }),
+  getLobby: endpoint({ name: "lobbies.get", route: "GET /lobbies/:id", response: Lobby }),
+  createLobby: endpoint({
+    name: "lobbies.create",
+    route: "POST /lobbies",
+    request: s.object({ name: s.string(), mode: s.optional(RoundMode) }),
+    response: Lobby,
+  }),
+  setLobbyMode: endpoint({
+    name: "lobbies.mode",
+    route: "PATCH /lobbies/:id/mode",
+    request: s.object({ mode: RoundMode }),
+    response: Lobby,
+  }),
+  updateSeatOrder: endpoint({
+    name: "lobbies.seats",
+    route: "PUT /lobbies/:id/seats",
+    request: s.object({ playerId: s.string(), clientSessionId: SessionId, order: s.array(s.string()) }),
+    response: Lobby,
+  }),
+  getLobbyState: endpoint({ name: "lobbies.state", route: "GET /lobbies/:id/state", response: LobbyState }),
+  listLobbyRounds: endpoint({ name: "lobbies.rounds", route: "GET /lobbies/:id/rounds", response: RoundHistoryPage }),
+  joinOrRejoin: endpoint({
+    name: "lobbies.joinOrRejoin",
+    route: "POST /lobbies/:lobbyId/join-or-rejoin",
+    aliases: ["POST /lobbies/by-name/:lobbyName/join-or-rejoin"],
+    request: JoinRequest,
+    response: JoinOrRejoinResponse,
+    legacy: upgradeJoinPayload,
+  }),
+  /** Legacy-Join: öffentliches Spielerobjekt plus Session und Lebensstand statt der ok/mode-Struktur. */
+  join: endpoint({
+    name: "lobbies.join",
+    route: "POST /lobbies/:lobbyId/join",
+    request: JoinRequest,
+    response: s.object({
+      id: s.string(),
+      name: s.string(),
+      lobbyId: s.string(),
+      joinedAt: s.string(),
+      isActive: s.boolean(),
+      lastSeen: s.nullable(s.string()),
+      sessionId: SessionId,
+      playerLives: s.optional(s.nullable(PlayerLifeSnapshot)),
+    }),
+  }),
+  presencePing: endpoint({
+    name: "lobbies.presence",
+    route: "POST /lobbies/:lobbyId/presence",
+    aliases: ["POST /lobbies/:lobbyId/presence-ping", "POST /lobbies/:lobbyId/players/:playerId/presence"],
+    request: s.object({ playerId: s.optional(s.string()), clientSessionId: SessionId }),
+    response: s.object({ ok: s.boolean(), playerId: s.string(), isActive: s.boolean(), lastSeen: s.string() }),
+  }),
+  /** Hartes Löschen inkl. Runden und Spieler:innen; DELETE antwortet mit 204 ohne Body. */
+  deleteLobby: endpoint({
+    name: "lobbies.delete",
+    route: "DELETE /lobbies/:lobbyId",
+    aliases: [
+      "POST /lobbies/:lobbyId/delete",
+      "POST /lobbies/:lobbyId/hard-delete",
+      "DELETE /leaderboard/:lobbyId",
+      "DELETE /leaderboards/:lobbyId",
+      "POST /leaderboard/:lobbyId/delete",
+      "POST /leaderboards/:lobbyId/delete",
+      "DELETE /lobbies/by-name/:lobbyName",
+      "POST /lobbies/by-name/:lobbyName/delete",
+      "DELETE /leaderboard/by-name/:lobbyName",
+      "DELETE /leaderboards/by-name/:lobbyName",
+      "POST /leaderboard/by-name/:lobbyName/delete",
+      "POST /leaderboards/by-name/:lobbyName/delete",
+      "POST /lobbies/delete",
+      "POST /leaderboard/delete",
+      "POST /leaderboards/delete",
+    ],
+    request: DeleteLobbyRequest,
+    response: s.object({
+      ok: s.boolean(),
+      lobbyId: s.string(),
+      lobbyName: s.string(),
+      removedPlayers: s.optional(s.number()),
+      removedRounds: s.optional(s.number()),
+    }),
+  }),
+
+  listPlayers: endpoint({ name: "players.list", route: "GET /players", response: s.array(Player) }),
+  fetchAllPlayerNames: endpoint({
+    name: "players.allNames",
+    route: "GET /players/all-names",
+    response: s.object({ names: s.array(s.string()) }),
+    legacy: upgradePlayerNames,
+  }),
+  getPlayerRatings: endpoint({ name: "players.ratings", route: "GET /players/:name/ratings", response: PlayerRating }),
+  getPlayerStats: endpoint({ name: "players.stats", route: "GET /players/:name/stats", response: PlayerStats }),
+  getHeadToHead: endpoint({ name: "players.headToHead", route: "GET /players/head-to-head", response: HeadToHead }),
+
+  listQuotes: endpoint({ name: "quotes.list", route: "GET /quotes", response: s.array(Quote) }),
+  createQuote: endpoint({
+    name: "quotes.create",
+    route: "POST /quotes",
+    request: s.object({ text: s.string() }),
+    response: Quote,
+  }),
+
+  getCurrentRound: endpoint({ name: "rounds.current", route: "GET /rounds/current", response: RoundSnapshot }),
+  getRoundByNumber: endpoint({
+    name: "rounds.byNumber",
+    route: "GET /rounds/by-number",
+    response: s.object({ round: RoundHistoryEntry, currentNumber: s.nullable(s.number()) }),
+  }),
+  startNextRound: endpoint({
+    name: "rounds.start",
+    route: "POST /rounds/start",
+    request: s.object({ lobbyId: s.string(), mode: s.optional(RoundMode) }),
+    response: RoundWithLives,
+  }),
+  openTable: endpoint({ name: "rounds.table", route: "POST /rounds/:roundId/table", request: ViewerRequest, response: RoundWithLives }),
+  performTableAction: endpoint({
+    name: "rounds.tableAction",
+    route: "POST /rounds/:roundId/table/actions",
+    request: s.object({
+      playerId: s.string(),
+      clientSessionId: SessionId,
+      action: TableAction,
+      handIndex: s.optional(s.number()),
+      middleIndex: s.optional(s.number()),
+    }),
+    response: RoundWithLives,
+  }),
+  dealNextTableGame: endpoint({
+    name: "rounds.deal",
+    route: "POST /rounds/:roundId/table/deal",
+    request: ViewerRequest,
+    response: RoundWithLives,
+  }),
+  updateLife: endpoint({
+    name: "rounds.life",
+    route: "PATCH /rounds/:roundId/life",
+    request: s.object({ playerId: s.string(), livesRemaining: s.number(), clientSessionId: SessionId }),
+    response: LifeState,
+  }),
+  correctLife: endpoint({
+    name: "rounds.correctLife",
+    route: "POST /rounds/:roundId/life/corrections",
+    request: ViewerRequest,
+    response: s.object({ entry: LifeEvent, lives: s.array(LifeState) }),
+  }),
+  getRoundActivity: endpoint({ name: "rounds.activity", route: "GET /rounds/:roundId/activity", response: s.array(LifeEvent) }),
+  startShowdown: endpoint({
+    name: "rounds.showdown",
+    route: "POST /rounds/:roundId/showdown",
+    request: ViewerRequest,
+    response: RoundWithLives,
+  }),
+  submitShowdownHand: endpoint({
+    name: "rounds.showdownHand",
+    route: "POST /rounds/:roundId/showdown/hands",
+    request: s.object({
+      playerId: s.string(),
+      clientSessionId: SessionId,
+      cards: s.optional(s.array(CardInput)),
+      value: s.optional(s.number()),
+    }),
+    response: RoundWithLives,
+  }),
+  cancelShowdown: endpoint({
+    name: "rounds.cancelShowdown",
+    route: "POST /rounds/:roundId/showdown/cancel",
+    request: ViewerRequest,
+    response: RoundWithLives,
+  }),
+  finishRound: endpoint({
+    name: "rounds.finish",
+    route: "POST /rounds/:roundId/finish",
+    request: s.object({ winnerPlayerId: s.string(), finishedByPlayerId: s.optional(s.string()), clientSessionId: SessionId }),
+    response: ClaimResult,
+  }),
+  voteOnClaim: endpoint({
+    name: "rounds.vote",
+    route: "POST /rounds/:roundId/claims/:claimId/votes",
+    request: s.object({ playerId: s.string(), clientSessionId: SessionId, approve: s.boolean() }),
+    response: ClaimResult,
+  }),
+  reopenRound: endpoint({ name: "rounds.reopen", route: "POST /rounds/:roundId/reopen", request: ViewerRequest, response: RoundSnapshot }),
+
+  evaluateHand: endpoint({
+    name: "hands.evaluate",
+    route: "POST /hands/evaluate",
+    request: s.object({ cards: s.array(CardInput) }),
+    response: HandEvaluation,
+  }),
+
+  fetchLeaderboards: endpoint({
+    name: "leaderboard.lobbies",
+    route: "GET /leaderboard",
+    response: s.array(LeaderboardEntry),
+    legacy: upgradeLeaderboard,
+  }),
+  fetchPlayerLeaderboard: endpoint({
+    name: "leaderboard.players",
+    route: "GET /leaderboard/players",
+    response: s.array(PlayerLeaderboardEntry),
+  }),
+
+  health: endpoint({ name: "health", route: "GET /health", response: s.object({ ok: s.boolean(), time: s.string() }) }),
+};
+
+export type EndpointName = keyof typeof endpoints;
+
+/**
+ * Prüft eine Erfolgsantwort gegen den Vertrag des Endpunkts. Schlägt das fehl und kennt der Endpunkt ein Altformat,
+ * wird die Antwort zuerst angehoben und dann erneut geprüft; sonst fliegt der ContractError der ersten Prüfung.
+ */
+export function decodeResponse<Res>(
+  target: Pick<Endpoint<unknown, Res>, "name" | "response" | "legacy">,
+  payload: unknown,
+  hint?: LegacyHint
+): Res {
+  const contract = `${target.name}.response`;
+  const result = safeDecode(target.response, payload, contract);
+  if (result.ok) return result.value;
+  const upgraded = target.legacy?.(payload, hint);
+  if (upgraded === undefined) throw result.error;
+  return decode(target.response, upgraded, contract);
+}
+
+/** Prüft einen Request-Body; ohne Request-Vertrag ist jeder Body gültig. */
+export function decodeRequest<Req>(target: Pick<Endpoint<Req, unknown>, "name" | "request">, body: unknown) {
+  if (!target.request) return { ok: true as const, value: body as Req };
+  return safeDecode(target.request, body, `${target.name}.request`);
+}
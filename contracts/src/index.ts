@@ -0,0 +1,8 @@
+/**
+ * Gemeinsame API-Verträge von Frontend und Mock-Backend.
+ * models: fachliche Schemas samt Typen, endpoints: Route/Request/Response je Endpunkt, compat: Anhebung alter Antwortformate.
+ */
+export * from "./schema.js";
+export * from "./models.js";
+export * from "./compat.js";
+export * from "./endpoints.js";
@@ -0,0 +1,376 @@
+/**
+ * Schemas der fachlichen Objekte (Lobby, Spieler, Runde, Tisch, Wertung …), wie sie über die API gehen.
+ * Zu jedem Schema gibt es den gleichnamigen Typ; das Frontend re-exportiert diese Typen über api/types.ts.
+ */
+import { s, type Infer } from "./schema.js";
+
+/** "companion": Leben werden manuell gezählt (echte Karten), "table": digitaler Kartentisch vergibt Leben automatisch. */
+export const RoundMode = s.literal("companion", "table");
+export type RoundMode = Infer<typeof RoundMode>;
+
+export const Lobby = s.object({
+  id: s.string(),
+  name: s.string(),
+  createdAt: s.string(),
+  status: s.literal("open", "active", "closed"),
+  mode: s.optional(RoundMode),
+  /** Spieler-IDs in Sitzreihenfolge; bestimmt, wer als Nächstes gibt. */
+  seatOrder: s.optional(s.array(s.string())),
+});
+export type Lobby = Infer<typeof Lobby>;
+
+export const Player = s.object({
+  id: s.string(),
+  name: s.string(),
+  lobbyId: s.string(),
+  joinedAt: s.string(),
+  isActive: s.optional(s.boolean()),
+  lastSeen: s.optional(s.nullable(s.string())),
+});
+export type Player = Infer<typeof Player>;
+
+export const Quote = s.object({ id: s.string(), text: s.string(), createdAt: s.string() });
+export type Quote = Infer<typeof Quote>;
+
+export const CardSuit = s.literal("kreuz", "pik", "herz", "karo");
+export type CardSuit = Infer<typeof CardSuit>;
+export const CardRank = s.literal("7", "8", "9", "10", "B", "D", "K", "A");
+export type CardRank = Infer<typeof CardRank>;
+export const Card = s.object({ suit: CardSuit, rank: CardRank });
+export type Card = Infer<typeof Card>;
+export const TableAction = s.literal("swap", "swap_all", "pass", "knock");
+export type TableAction = Infer<typeof TableAction>;
+
+/** Ergebnis des Handrechners; value folgt den Serverregeln (Feuer 33, 31, drei Gleiche 30,5, sonst Farbsumme). */
+export const HandEvaluation = s.object({
+  value: s.number(),
+  kind: s.literal("feuer", "31", "three_of_a_kind", "suit"),
+  label: s.string(),
+  suit: s.nullable(CardSuit),
+});
+export type HandEvaluation = Infer<typeof HandEvaluation>;
+
+/** Aufgedecktes Ergebnis eines Spiels am Tisch; hands enthält alle Karten der Beteiligten. */
+export const TableResult = s.object({
+  reason: s.literal("knock", "31", "feuer", "deck_empty"),
+  values: s.record(s.number()),
+  losers: s.array(s.string()),
+  hands: s.record(s.array(Card)),
+});
+export type TableResult = Infer<typeof TableResult>;
+
+/** Öffentliche Tischsicht: hand ist nur für den anfragenden Spieler gesetzt. */
+export const TableView = s.object({
+  phase: s.literal("playing", "showdown"),
+  dealNumber: s.number(),
+  seats: s.array(s.object({ playerId: s.string(), cardCount: s.number() })),
+  middle: s.array(Card),
+  deckCount: s.number(),
+  turnPlayerId: s.nullable(s.string()),
+  knockedBy: s.nullable(s.string()),
+  lastAction: s.nullable(s.object({ playerId: s.string(), action: TableAction, at: s.string() })),
+  hand: s.nullable(s.array(Card)),
+  result: s.nullable(TableResult),
+  updatedAt: s.string(),
+});
+export type TableView = Infer<typeof TableView>;
+
+/**
+ * Showdown im Companion-Modus: Werte bleiben verborgen, bis alle gemeldet haben (state "resolved").
+ * Bei Feuer verlieren alle anderen ein Leben, sonst die niedrigsten Hände.
+ */
+export const ShowdownView = s.object({
+  id: s.string(),
+  state: s.literal("collecting", "resolved", "cancelled"),
+  startedBy: s.string(),
+  participants: s.array(
+    s.object({ playerId: s.string(), submitted: s.boolean(), value: s.nullable(s.number()), label: s.nullable(s.string()) })
+  ),
+  losers: s.array(s.string()),
+  feuer: s.boolean(),
+  createdAt: s.string(),
+  resolvedAt: s.nullable(s.string()),
+});
+export type ShowdownView = Infer<typeof ShowdownView>;
+
+/**
+ * Sieg-Meldung per Slider: die Runde endet erst, wenn quorum der voters zugestimmt hat.
+ * "superseded" heißt, die Runde wurde anderweitig beendet, bevor abgestimmt war; "revoked", dass der Sieg rückgängig gemacht wurde.
+ */
+export const WinnerClaim = s.object({
+  id: s.string(),
+  claimantId: s.string(),
+  state: s.literal("pending", "approved", "rejected", "expired", "superseded", "revoked"),
+  voters: s.array(s.string()),
+  approvals: s.array(s.string()),
+  rejections: s.array(s.string()),
+  quorum: s.number(),
+  createdAt: s.string(),
+  expiresAt: s.string(),
+  decidedAt: s.nullable(s.string()),
+});
+export type WinnerClaim = Infer<typeof WinnerClaim>;
+
+export const Round = s.object({
+  id: s.string(),
+  lobbyId: s.string(),
+  number: s.number(),
+  state: s.literal("running", "finished"),
+  mode: s.optional(RoundMode),
+  dealerPlayerId: s.optional(s.nullable(s.string())),
+  /** Nur bei beendeten Runden: wer die nächste Runde gibt. */
+  nextDealerPlayerId: s.optional(s.nullable(s.string())),
+  /** Nur kurz nach Rundenende: bis wann die Runde per reopenRound wieder geöffnet werden kann. */
+  reopenableUntil: s.optional(s.nullable(s.string())),
+  /** Backend läuft mit MANUAL_LIVES: Spieler tippen ihre Streichhölzer selbst (PATCH life), zusätzlich zum Showdown. */
+  manualLives: s.optional(s.boolean()),
+  /** Nur mit Viewer und laufender Runde: eigener Streichholz-Tipp, den der Viewer per correctLife zurücknehmen darf. */
+  correctableLifeEventId: s.optional(s.nullable(s.string())),
+  winnerPlayerId: s.optional(s.nullable(s.string())),
+  createdAt: s.string(),
+  endedAt: s.optional(s.nullable(s.string())),
+  table: s.optional(s.nullable(TableView)),
+  showdown: s.optional(s.nullable(ShowdownView)),
+  /** Alle Sieg-Meldungen dieser Runde in Meldereihenfolge (offene, bestätigte, abgelehnte, verfallene). */
+  claims: s.optional(s.array(WinnerClaim)),
+});
+export type Round = Infer<typeof Round>;
+
+export const LifeState = s.object({
+  id: s.string(),
+  roundId: s.string(),
+  playerId: s.string(),
+  livesRemaining: s.number(),
+  updatedAt: s.string(),
+});
+export type LifeState = Infer<typeof LifeState>;
+
+/** Lebensstand eines Spielers in der aktuellen Runde, wie ihn Join/Rejoin mitliefert. */
+export const PlayerLifeSnapshot = s.object({
+  id: s.string(),
+  roundId: s.string(),
+  playerId: s.string(),
+  livesRemaining: s.number(),
+  updatedAt: s.string(),
+  roundNumber: s.optional(s.number()),
+});
+export type PlayerLifeSnapshot = Infer<typeof PlayerLifeSnapshot>;
+
+/** Zusammenfassung einer Runde für die Lobby-Historie (GET /lobbies/:id/rounds). */
+export const RoundHistoryEntry = s.object({
+  id: s.string(),
+  number: s.number(),
+  state: s.literal("running", "finished"),
+  mode: RoundMode,
+  winnerPlayerId: s.nullable(s.string()),
+  winnerName: s.nullable(s.string()),
+  dealerPlayerId: s.nullable(s.string()),
+  startedAt: s.string(),
+  endedAt: s.nullable(s.string()),
+  /** Nur bei beendeten Runden. */
+  durationMs: s.nullable(s.number()),
+  /** "claim": per Slider gemeldet (endedBy = meldende Person, confirmedBy = Zustimmungen), "automatic": vom Server entschieden. */
+  endReason: s.nullable(s.literal("claim", "automatic")),
+  endedBy: s.nullable(s.string()),
+  endedByName: s.nullable(s.string()),
+  confirmedBy: s.array(s.string()),
+  lives: s.array(s.object({ playerId: s.string(), playerName: s.nullable(s.string()), livesRemaining: s.number() })),
+  claims: s.array(WinnerClaim),
+});
+export type RoundHistoryEntry = Infer<typeof RoundHistoryEntry>;
+
+/** Eine Seite der Rundenhistorie, neueste Runde zuerst. */
+export const RoundHistoryPage = s.object({
+  rounds: s.array(RoundHistoryEntry),
+  total: s.number(),
+  limit: s.number(),
+  offset: s.number(),
+});
+export type RoundHistoryPage = Infer<typeof RoundHistoryPage>;
+
+/**
+ * Eintrag im Lebensprotokoll einer Runde (Aktivitätsverlauf).
+ * actorId ist null bei serverseitigen Abzügen (Showdown, Tisch); "correction" ist das einzige Ereignis, das Leben erhöht.
+ */
+export const LifeEvent = s.object({
+  id: s.string(),
+  lobbyId: s.string(),
+  roundId: s.string(),
+  playerId: s.string(),
+  actorId: s.nullable(s.string()),
+  kind: s.literal("showdown", "table", "manual", "correction"),
+  from: s.number(),
+  to: s.number(),
+  createdAt: s.string(),
+});
+export type LifeEvent = Infer<typeof LifeEvent>;
+
+export const Score = s.object({
+  playerId: s.string(),
+  pointsTotal: s.number(),
+  /** Elo-Wertung des Spielernamens (lobbyübergreifend). */
+  rating: s.optional(s.number()),
+  /** Letzte Wertungsänderung für den Trendpfeil; null, solange noch keine Runde gewertet wurde. */
+  ratingDelta: s.optional(s.nullable(s.number())),
+});
+export type Score = Infer<typeof Score>;
+
+/** Eine Wertungsänderung nach einer beendeten Runde (place 1 = Sieg). */
+export const RatingHistoryEntry = s.object({
+  playerId: s.string(),
+  lobbyId: s.string(),
+  roundId: s.string(),
+  before: s.number(),
+  after: s.number(),
+  delta: s.number(),
+  place: s.number(),
+  participants: s.number(),
+  createdAt: s.string(),
+});
+export type RatingHistoryEntry = Infer<typeof RatingHistoryEntry>;
+
+/** Antwort von GET /players/:name/ratings, Verlauf neueste Änderung zuerst. */
+export const PlayerRating = s.object({
+  key: s.string(),
+  name: s.string(),
+  rating: s.number(),
+  ratingDelta: s.nullable(s.number()),
+  history: s.array(RatingHistoryEntry),
+});
+export type PlayerRating = Infer<typeof PlayerRating>;
+
+/** Antwort von GET /players/:name/stats: Profilwerte eines Spielernamens über alle Lobbys. */
+export const PlayerStats = s.object({
+  key: s.string(),
+  name: s.string(),
+  wins: s.number(),
+  roundsPlayed: s.number(),
+  winRate: s.number(),
+  /** Durchschnittliche Platzierung (1 = Sieg), null ohne beendete Runde. */
+  averagePlace: s.nullable(s.number()),
+  /** Runden, in denen nur noch ein Leben übrig war (Schwimmst), und wie viele davon trotzdem gewonnen wurden. */
+  schwimmstRounds: s.number(),
+  schwimmstWins: s.number(),
+  pointsTotal: s.number(),
+  rating: s.number(),
+  ratingDelta: s.nullable(s.number()),
+  favouriteLobbies: s.array(
+    s.object({ lobbyId: s.string(), lobbyName: s.nullable(s.string()), rounds: s.number(), wins: s.number() })
+  ),
+  /** Letzte 10 Runden, neueste zuerst. */
+  form: s.array(
+    s.object({
+      roundId: s.string(),
+      lobbyId: s.string(),
+      lobbyName: s.nullable(s.string()),
+      number: s.number(),
+      place: s.number(),
+      participants: s.number(),
+      won: s.boolean(),
+      endedAt: s.nullable(s.string()),
+    })
+  ),
+});
+export type PlayerStats = Infer<typeof PlayerStats>;
+
+const HeadToHeadSide = s.object({ key: s.string(), name: s.string(), rating: s.number() });
+const Versus = s.literal("a", "b");
+
+/** Antwort von GET /players/head-to-head: Vergleich zweier Spielernamen über ihre gemeinsamen Runden. */
+export const HeadToHead = s.object({
+  a: HeadToHeadSide,
+  b: HeadToHeadSide,
+  sharedRounds: s.number(),
+  winsA: s.number(),
+  winsB: s.number(),
+  /** Wie oft a bzw. b vor der anderen Person platziert war; ties = gleicher Platz. */
+  aheadA: s.number(),
+  aheadB: s.number(),
+  ties: s.number(),
+  /** Laufende Serie (wer zuletzt mehrfach in Folge vorn lag), null nach Gleichstand oder ohne gemeinsame Runde. */
+  currentStreak: s.nullable(s.object({ holder: Versus, length: s.number() })),
+  longestStreakA: s.number(),
+  longestStreakB: s.number(),
+  /** Letzte 10 gemeinsame Runden, neueste zuerst. */
+  rounds: s.array(
+    s.object({
+      roundId: s.string(),
+      lobbyId: s.string(),
+      lobbyName: s.nullable(s.string()),
+      number: s.number(),
+      placeA: s.number(),
+      placeB: s.number(),
+      participants: s.number(),
+      winner: s.nullable(Versus),
+      ahead: s.nullable(Versus),
+      endedAt: s.nullable(s.string()),
+    })
+  ),
+});
+export type HeadToHead = Infer<typeof HeadToHead>;
+
+export const LeaderboardPlayerEntry = s.object({
+  id: s.string(),
+  name: s.string(),
+  pointsTotal: s.optional(s.number()),
+  rating: s.optional(s.number()),
+  ratingDelta: s.optional(s.nullable(s.number())),
+});
+export type LeaderboardPlayerEntry = Infer<typeof LeaderboardPlayerEntry>;
+
+/** Eine Lobby in der Lobby-Rangliste (GET /leaderboard) mit den Punkten ihrer Spieler:innen. */
+export const LeaderboardEntry = s.object({
+  lobbyId: s.string(),
+  lobbyName: s.string(),
+  players: s.array(LeaderboardPlayerEntry),
+  createdAt: s.string(),
+  rounds: s.optional(s.number()),
+});
+export type LeaderboardEntry = Infer<typeof LeaderboardEntry>;
+
+/** Lobbyübergreifender Ranglisteneintrag, zusammengefasst über den normalisierten Spielernamen (key). */
+export const PlayerLeaderboardEntry = s.object({
+  rank: s.number(),
+  key: s.string(),
+  name: s.string(),
+  wins: s.number(),
+  roundsPlayed: s.number(),
+  /** 0..1, auf drei Nachkommastellen gerundet. */
+  winRate: s.number(),
+  lobbies: s.number(),
+  lastPlayedAt: s.nullable(s.string()),
+  rating: s.number(),
+  /** Letzte Wertungsänderung (Trendpfeil), null ohne gewertete Runde. */
+  ratingDelta: s.nullable(s.number()),
+});
+export type PlayerLeaderboardEntry = Infer<typeof PlayerLeaderboardEntry>;
+
+export const JoinOrRejoinErrorCode = s.literal("LOBBY_FULL", "NAME_ACTIVE", "NAME_TAKEN", "MAX_PLAYERS", "UNKNOWN");
+export type JoinOrRejoinErrorCode = Infer<typeof JoinOrRejoinErrorCode>;
+
+/** Erfolgsantwort von join-or-rejoin; Fehler (ok false) kommen mit 4xx-Status und laufen über ApiErrorBody. */
+export const JoinOrRejoinResponse = s.object({
+  ok: s.boolean(),
+  mode: s.literal("join", "rejoin"),
+  playerId: s.string(),
+  isActive: s.boolean(),
+  player: s.optional(Player),
+  sessionId: s.optional(s.nullable(s.string())),
+  sessionReplaced: s.optional(s.boolean()),
+  playerLives: s.optional(s.nullable(PlayerLifeSnapshot)),
+  errorCode: s.optional(JoinOrRejoinErrorCode),
+  message: s.optional(s.string()),
+});
+export type JoinOrRejoinResponse = Infer<typeof JoinOrRejoinResponse>;
+
+/**
+ * Fehlerantwort aller Routen. Die meisten liefern error, Join-Fehler message; errorCode ist der maschinenlesbare Grund,
+ * issues gibt es nur bei INVALID_REQUEST (Body passt nicht zum Vertrag).
+ */
+export const ApiErrorBody = s.object({
+  error: s.optional(s.string()),
+  message: s.optional(s.string()),
+  errorCode: s.optional(s.string()),
+  issues: s.optional(s.array(s.object({ path: s.string(), expected: s.string(), received: s.string() }))),
+});
+export type ApiErrorBody = Infer<typeof ApiErrorBody>;
@@ -0,0 +1,201 @@
+/**
+ * Kleiner Laufzeit-Validator für die API-Verträge (ohne Fremdabhängigkeit).
+ * Jedes Schema prüft einen unbekannten Wert und liefert ihn typisiert zurück; der TypeScript-Typ wird per Infer<> aus demselben Schema abgeleitet,
+ * damit Laufzeitprüfung und Typ nicht mehr auseinanderlaufen können.
+ */
+
+/** Eine einzelne Abweichung: Pfad im Payload (z. B. "players[2].name"), erwarteter Typ und tatsächlich gefundener Wert. */
+export type ContractIssue = {
+  path: string;
+  expected: string;
+  received: string;
+};
+
+/**
+ * Fehler beim Prüfen eines Payloads gegen einen Vertrag.
+ * contract benennt die Stelle (z. B. "lobbies.list.response"), issues enthält alle gefundenen Abweichungen.
+ */
+export class ContractError extends Error {
+  readonly contract: string;
+  readonly issues: ContractIssue[];
+
+  constructor(contract: string, issues: ContractIssue[]) {
+    const first = issues[0];
+    const detail = first ? `${first.path || "(Wurzel)"}: erwartet ${first.expected}, erhalten ${first.received}` : "ungültig";
+    const more = issues.length > 1 ? ` (+${issues.length - 1} weitere)` : "";
+    super(`Vertrag ${contract} verletzt – ${detail}${more}`);
+    this.name = "ContractError";
+    this.contract = contract;
+    this.issues = issues;
+  }
+}
+
+/** true für Fehler aus decode(), auch wenn sie über Paketgrenzen hinweg nicht mehr per instanceof erkennbar sind. */
+export function isContractError(error: unknown): error is ContractError {
+  return error instanceof ContractError || (error instanceof Error && error.name === "ContractError" && "issues" in error);
+}
+
+/**
+ * Ein Schema für Werte vom Typ T. read() sammelt Abweichungen in issues, statt beim ersten Fehler abzubrechen;
+ * der Rückgabewert ist nur verlässlich, wenn keine Abweichung hinzugekommen ist.
+ */
+export type Schema<T> = {
+  readonly expected: string;
+  readonly optional?: boolean;
+  read(value: unknown, path: string, issues: ContractIssue[]): T;
+};
+
+/** Schema eines Objektfelds, das fehlen darf (Feld wird im abgeleiteten Typ zu `key?:`). */
+export type OptionalSchema<T> = Schema<T | undefined> & { readonly optional: true };
+
+/** Leitet den TypeScript-Typ eines Schemas ab. */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+export type ObjectType<S extends Shape> = Simplify<
+  { [K in RequiredKeys<S>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+/** Kurzbeschreibung eines gefundenen Werts für Fehlermeldungen. */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (value === undefined) return "nichts";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return value.length > 24 ? `string "${value.slice(0, 24)}…"` : `string "${value}"`;
+  if (typeof value === "number" || typeof value === "boolean") return `${typeof value} ${String(value)}`;
+  return typeof value;
+}
+
+/** Schema für primitive Werte über einen einfachen Typtest. */
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    read(value, path, issues) {
+      if (!test(value)) issues.push({ path, expected, received: describe(value) });
+      return value as T;
+    },
+  };
+}
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+export const s = {
+  string: () => primitive<string>("string", (value) => typeof value === "string"),
+  /** Endliche Zahl (NaN/Infinity gelten als Vertragsbruch, JSON kennt sie ohnehin nicht). */
+  number: () => primitive<number>("number", (value) => typeof value === "number" && Number.isFinite(value)),
+  boolean: () => primitive<boolean>("boolean", (value) => typeof value === "boolean"),
+  /** Beliebiger Wert, z. B. für Felder, deren Inhalt erst die Route fachlich prüft. */
+  unknown: () => primitive<unknown>("beliebig", () => true),
+
+  /** Genau einer der angegebenen Werte (für String-Enums wie "companion" | "table"). */
+  literal<const T extends readonly (string | number | boolean)[]>(...values: T): Schema<T[number]> {
+    const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+    return primitive<T[number]>(expected, (value) => values.includes(value as T[number]));
+  },
+
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return {
+      expected: `${inner.expected} | null`,
+      read: (value, path, issues) => (value === null ? null : inner.read(value, path, issues)),
+    };
+  },
+
+  /** Feld darf fehlen (undefined); null ist nur erlaubt, wenn das innere Schema nullable ist. */
+  optional<T>(inner: Schema<T>): OptionalSchema<T> {
+    return {
+      expected: `${inner.expected} | nichts`,
+      optional: true,
+      read: (value, path, issues) => (value === undefined ? undefined : inner.read(value, path, issues)),
+    };
+  },
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+      expected: `${item.expected}[]`,
+      read(value, path, issues) {
+        if (!Array.isArray(value)) {
+          issues.push({ path, expected: `${item.expected}[]`, received: describe(value) });
+          return [];
+        }
+        return value.map((entry, index) => item.read(entry, `${path}[${index}]`, issues));
+      },
+    };
+  },
+
+  /**
+   * Objekt mit festen Feldern. Unbekannte Felder werden verworfen, damit nur vertraglich zugesicherte Daten weiterwandern;
+   * fehlende optionale Felder tauchen im Ergebnis nicht als undefined auf.
+   */
+  object<S extends Shape>(shape: S): Schema<ObjectType<S>> {
+    return {
+      expected: "object",
+      read(value, path, issues) {
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+          issues.push({ path, expected: "object", received: describe(value) });
+          return {} as ObjectType<S>;
+        }
+        const source = value as Record<string, unknown>;
+        const result: Record<string, unknown> = {};
+        for (const [key, schema] of Object.entries(shape)) {
+          const read = schema.read(source[key], joinPath(path, key), issues);
+          if (read !== undefined || !schema.optional) result[key] = read;
+        }
+        return result as ObjectType<S>;
+      },
+    };
+  },
+
+  /** Objekt als Nachschlagetabelle mit beliebigen Schlüsseln (z. B. Werte pro Spieler-ID). */
+  record<T>(inner: Schema<T>): Schema<Record<string, T>> {
+    return {
+      expected: `Record<string, ${inner.expected}>`,
+      read(value, path, issues) {
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+          issues.push({ path, expected: `Record<string, ${inner.expected}>`, received: describe(value) });
+          return {};
+        }
+        return Object.fromEntries(
+          Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, inner.read(entry, joinPath(path, key), issues)])
+        );
+      },
+    };
+  },
+
+  /** Erste passende Variante gewinnt; passt keine, wird nur eine zusammengefasste Abweichung gemeldet. */
+  union<const T extends readonly Schema<unknown>[]>(...variants: T): Schema<Infer<T[number]>> {
+    const expected = variants.map((variant) => variant.expected).join(" | ");
+    return {
+      expected,
+      read(value, path, issues) {
+        for (const variant of variants) {
+          const local: ContractIssue[] = [];
+          const read = variant.read(value, path, local);
+          if (!local.length) return read as Infer<T[number]>;
+        }
+        issues.push({ path, expected, received: describe(value) });
+        return value as Infer<T[number]>;
+      },
+    };
+  },
+};
+
+/** Prüft value gegen schema und liefert entweder den geprüften Wert oder den ContractError. */
+export function safeDecode<T>(
+  schema: Schema<T>,
+  value: unknown,
+  contract: string
+): { ok: true; value: T } | { ok: false; error: ContractError } {
+  const issues: ContractIssue[] = [];
+  const read = schema.read(value, "", issues);
+  return issues.length ? { ok: false, error: new ContractError(contract, issues) } : { ok: true, value: read };
+}
+
+/** Wie safeDecode, wirft aber den ContractError. */
+export function decode<T>(schema: Schema<T>, value: unknown, contract: string): T {
+  const result = safeDecode(schema, value, contract);
+  if (!result.ok) throw result.error;
+  return result.value;
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests der Kompatibilitätsschicht (node --test gegen das gebaute dist): alte Join-, Leaderboard- und Namensformate.
+ */
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { upgradeJoinPayload, upgradeLeaderboard, upgradePlayerNames } from "../dist/index.js";
+
+const joinedAt = "2024-05-01T10:00:00.000Z";
+
+describe("upgradeJoinPayload", () => {
+  it("macht aus einem nackten Spielerobjekt eine Join-Antwort", () => {
+    const value = upgradeJoinPayload(
+      { id: "p1", name: "Anna", joinedAt, isActive: false, sessionId: "s1", playerLives: { id: "x", roundId: "r1", playerId: "p1", livesRemaining: 3 } },
+      { lobbyId: "l1" }
+    );
+    assert.equal(value.ok, true);
+    assert.equal(value.mode, "join");
+    assert.equal(value.playerId, "p1");
+    assert.equal(value.isActive, false);
+    assert.equal(value.sessionId, "s1");
+    assert.deepEqual(value.player, { id: "p1", name: "Anna", lobbyId: "l1", joinedAt, isActive: false });
+    assert.equal(value.playerLives.livesRemaining, 3);
+    assert.equal(typeof value.playerLives.updatedAt, "string");
+  });
+
+  it("ergänzt fehlende Spielerdaten aus playerId und Hinweis", () => {
+    const value = upgradeJoinPayload({ ok: true, mode: "rejoin", playerId: "p1" }, { playerName: "Anna", lobbyId: "l1" });
+    assert.equal(value.mode, "rejoin");
+    assert.equal(value.isActive, true);
+    assert.equal(value.player.name, "Anna");
+    assert.equal(value.player.lobbyId, "l1");
+  });
+
+  it("schreibt bekannte Fehlercodes groß und verwirft unbekannte", () => {
+    assert.equal(upgradeJoinPayload({ ok: false, errorCode: "lobby_full" }).errorCode, "LOBBY_FULL");
+    assert.equal("errorCode" in upgradeJoinPayload({ ok: false, errorCode: "kaputt" }), false);
+  });
+
+  it("lässt unvollständige Lebensstände weg", () => {
+    const value = upgradeJoinPayload({ ok: true, playerId: "p1", playerLives: { roundId: "r1", livesRemaining: 2 } });
+    assert.equal("playerLives" in value, false);
+  });
+
+  it("erkennt fremde Formate nicht als Altformat", () => {
+    assert.equal(upgradeJoinPayload(null), undefined);
+    assert.equal(upgradeJoinPayload([]), undefined);
+    assert.equal(upgradeJoinPayload({ id: 1, name: "Anna" }), undefined);
+  });
+});
+
+describe("upgradeLeaderboard", () => {
+  it("übersetzt id/name und points in das aktuelle Format", () => {
+    const value = upgradeLeaderboard([
+      { id: "l1", name: "Freitag", createdAt: joinedAt, rounds: 4, players: [{ id: "p1", name: "Anna", points: 12, rating: 1510 }] },
+    ]);
+    assert.deepEqual(value, [
+      {
+        lobbyId: "l1",
+        lobbyName: "Freitag",
+        createdAt: joinedAt,
+        rounds: 4,
+        players: [{ id: "p1", name: "Anna", pointsTotal: 12, rating: 1510, ratingDelta: null }],
+      },
+    ]);
+  });
+
+  it("überspringt Lobbys und Spieler ohne ID oder Namen", () => {
+    const value = upgradeLeaderboard([
+      { id: "l1", players: [] },
+      { lobbyId: "l2", lobbyName: "Samstag", players: [{ id: "p1" }, { id: "p2", name: "Ben", pointsTotal: 3 }] },
+    ]);
+    assert.equal(value.length, 1);
+    assert.deepEqual(value[0].players, [{ id: "p2", name: "Ben", pointsTotal: 3 }]);
+  });
+
+  it("erkennt nur Arrays", () => {
+    assert.equal(upgradeLeaderboard({ lobbies: [] }), undefined);
+  });
+});
+
+describe("upgradePlayerNames", () => {
+  it("verpackt eine nackte Namensliste und filtert Nicht-Strings", () => {
+    assert.deepEqual(upgradePlayerNames(["Anna", null, "Ben"]), { names: ["Anna", "Ben"] });
+    assert.equal(upgradePlayerNames({ names: [] }), undefined);
+  });
+});
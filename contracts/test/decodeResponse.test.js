@@ -0,0 +1,63 @@
+/**
+ * Tests für decodeResponse (node --test gegen das gebaute dist): Prüfung gegen den Vertrag, Anheben alter Formate, Fehlermeldungen.
+ */
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeResponse, endpoints, isContractError } from "../dist/index.js";
+
+const player = { id: "p1", name: "Anna", lobbyId: "l1", joinedAt: "2024-05-01T10:00:00.000Z" };
+
+describe("decodeResponse", () => {
+  it("liefert eine vertragsgemäße Antwort ohne unbekannte Felder", () => {
+    const value = decodeResponse(endpoints.listPlayers, [{ ...player, isActive: true, secret: "x" }]);
+    assert.deepEqual(value, [{ ...player, isActive: true }]);
+  });
+
+  it("wirft einen ContractError mit Pfad und allen Abweichungen", () => {
+    assert.throws(
+      () => decodeResponse(endpoints.listPlayers, [{ ...player, name: 7 }, { ...player, joinedAt: null }]),
+      (error) => {
+        assert.ok(isContractError(error));
+        assert.equal(error.contract, "players.list.response");
+        assert.deepEqual(
+          error.issues.map((issue) => issue.path),
+          ["[0].name", "[1].joinedAt"]
+        );
+        assert.match(error.message, /\(\+1 weitere\)/);
+        return true;
+      }
+    );
+  });
+
+  it("fällt ohne Altformat nicht auf legacy zurück", () => {
+    assert.throws(() => decodeResponse(endpoints.health, { ok: "ja" }), (error) => isContractError(error));
+  });
+
+  it("hebt ein bekanntes Altformat an und prüft es erneut", () => {
+    const value = decodeResponse(endpoints.fetchAllPlayerNames, ["Anna", 3, "Ben"]);
+    assert.deepEqual(value, { names: ["Anna", "Ben"] });
+  });
+
+  it("wirft den Fehler der ersten Prüfung, wenn das Altformat unbekannt ist", () => {
+    assert.throws(
+      () => decodeResponse(endpoints.fetchAllPlayerNames, { namen: [] }),
+      (error) => isContractError(error) && error.issues[0].path === "names"
+    );
+  });
+
+  it("wirft, wenn auch die angehobene Antwort den Vertrag verletzt", () => {
+    assert.throws(
+      () => decodeResponse(endpoints.joinOrRejoin, { ok: true, mode: "join" }),
+      (error) => isContractError(error) && error.contract === "lobbies.joinOrRejoin.response"
+    );
+  });
+
+  it("reicht den Hinweis an das Anheben weiter", () => {
+    const value = decodeResponse(
+      endpoints.joinOrRejoin,
+      { id: "p1", name: "", joinedAt: player.joinedAt },
+      { playerName: "Anna", lobbyId: "l1" }
+    );
+    assert.deepEqual(value, { ok: true, mode: "join", playerId: "p1", isActive: true, player });
+  });
+});
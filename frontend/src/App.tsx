@@ -10,6 +10,9 @@ import GamePage from "./pages/GamePage";
 import LeaderboardPage from "./pages/LeaderboardPage";
 import LosePage from "./pages/LosePage";
 import WinPage from "./pages/WinPage";
+import HistoryPage from "./pages/HistoryPage";
+import PlayerProfilePage from "./pages/PlayerProfilePage";
+import HeadToHeadPage from "./pages/HeadToHeadPage";
 import { loadSession, seedInitialLoginRequirement, isInitialLoginRequired } from "./utils/session";
 import { losePath, roundPath, winPath, withSearch } from "./utils/paths";
 import LoginPage from "./pages/LoginPage";
@@ -31,6 +34,8 @@ export default function App() {
           <Route path="/" element={<HomePageGate />} />
           <Route path="/login" element={<LoginPage />} />
           <Route path="/leaderboard" element={<LeaderboardPage />} />
+          <Route path="/player/:name" element={<PlayerProfilePage />} />
+          <Route path="/compare" element={<HeadToHeadPage />} />
           <Route path="/lobby/:lobbyName">
             <Route index element={<LobbyIndexRedirect />} />
             <Route path="round">
@@ -42,6 +47,7 @@ export default function App() {
               </Route>
             </Route>
             <Route path="win" element={<WinPage />} />
+            <Route path="history" element={<HistoryPage />} />
           </Route>
           <Route path="/game" element={<LegacyGameRedirect />} />
           <Route path="/lose" element={<LegacyLoseRedirect />} />
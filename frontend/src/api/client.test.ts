@@ -0,0 +1,170 @@
+/**
+ * Tests des ApiClient (vitest, fetch gemockt): Wiederholungen nur für GET, Zeitlimit je Versuch, bedingte Abrufe mit 304.
+ */
+import { endpoints } from "@schwimm/contracts";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiClient, REQUEST_ID_HEADER } from "./client";
+import { HttpError, NetworkError, TimeoutError } from "./errors";
+
+const BASE_URL = "http://api.test";
+const health = { ok: true, time: "2024-05-01T10:00:00.000Z" };
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  new Response(JSON.stringify(body), { ...init, headers: { "Content-Type": "application/json", ...init.headers } });
+
+/** fetch, das erst beim Abbruch seines Signals mit einem AbortError endet (hängender Server). */
+const hangingFetch = (_url: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+  });
+
+let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>;
+
+beforeEach(() => {
+  fetchMock = vi.fn<typeof fetch>();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("Wiederholungen", () => {
+  it("wiederholt GET bei Überlast mit verdoppelter Wartezeit bis maxDelayMs", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.9999);
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 429 }))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"))
+      .mockResolvedValueOnce(json(health));
+    const client = new ApiClient({ baseUrl: BASE_URL, retry: { retries: 3, baseDelayMs: 100, maxDelayMs: 250 } });
+
+    const result = client.call(endpoints.health);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    for (const [delay, calls] of [[100, 2], [200, 3], [250, 4]]) {
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(fetchMock).toHaveBeenCalledTimes(calls - 1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fetchMock).toHaveBeenCalledTimes(calls);
+    }
+    await expect(result).resolves.toEqual(health);
+  });
+
+  it("gibt nach der letzten Wiederholung den Fehlerstatus zurück", async () => {
+    fetchMock.mockImplementation(async () => json({ error: "Überlastet" }, { status: 503 }));
+    const client = new ApiClient({ baseUrl: BASE_URL, retry: { retries: 2, baseDelayMs: 1, maxDelayMs: 1 } });
+
+    await expect(client.call(endpoints.health)).rejects.toMatchObject({ name: "HttpError", status: 503, retryable: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("wiederholt andere Methoden nie", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 })).mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    const client = new ApiClient({ baseUrl: BASE_URL, retry: { retries: 3, baseDelayMs: 1, maxDelayMs: 1 } });
+
+    expect((await client.send("POST", "/rounds/start", { body: { lobbyId: "l1" } })).status).toBe(503);
+    await expect(client.send("DELETE", "/lobbies/l1")).rejects.toBeInstanceOf(NetworkError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("wiederholt weder bei retry: false noch bei nicht wiederholbarem Status", async () => {
+    fetchMock.mockImplementation(async () => new Response(null, { status: 503 }));
+    const client = new ApiClient({ baseUrl: BASE_URL, retry: { retries: 3, baseDelayMs: 1, maxDelayMs: 1 } });
+    expect((await client.send("GET", "/health", { retry: false })).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockImplementation(async () => new Response(null, { status: 404 }));
+    expect((await client.send("GET", "/health")).status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("schickt bei allen Versuchen dieselbe Request-ID", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 502 })).mockResolvedValueOnce(json(health));
+    const client = new ApiClient({ baseUrl: BASE_URL, retry: { retries: 1, baseDelayMs: 1, maxDelayMs: 1 } });
+
+    await client.call(endpoints.health, { requestId: "req-1" });
+    const ids = fetchMock.mock.calls.map(([, init]) => (init?.headers as Record<string, string>)[REQUEST_ID_HEADER]);
+    expect(ids).toEqual(["req-1", "req-1"]);
+  });
+});
+
+describe("Zeitlimit", () => {
+  it("gilt je Versuch: ein hängender Versuch wird abgebrochen und wiederholt", async () => {
+    vi.useFakeTimers();
+    fetchMock.mockImplementationOnce(hangingFetch).mockResolvedValueOnce(json(health));
+    const client = new ApiClient({ baseUrl: BASE_URL, timeoutMs: 1000, retry: { retries: 1, baseDelayMs: 10, maxDelayMs: 10 } });
+
+    const result = client.call(endpoints.health);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(10);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await expect(result).resolves.toEqual(health);
+    expect(fetchMock.mock.calls[1][1]?.signal?.aborted).toBe(false);
+  });
+
+  it("wirft TimeoutError, wenn kein Versuch rechtzeitig antwortet", async () => {
+    vi.useFakeTimers();
+    fetchMock.mockImplementation(hangingFetch);
+    const client = new ApiClient({ baseUrl: BASE_URL, timeoutMs: 500, retry: { retries: 1, baseDelayMs: 10, maxDelayMs: 10 } });
+
+    const result = client.send("POST", "/rounds/start", { timeoutMs: 200 });
+    const assertion = expect(result).rejects.toMatchObject({ name: "TimeoutError", timeoutMs: 200, errorCode: "TIMEOUT" });
+    await vi.advanceTimersByTimeAsync(200);
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reicht den Abbruch des Aufrufers als AbortError durch, ohne zu wiederholen", async () => {
+    fetchMock.mockImplementation(hangingFetch);
+    const client = new ApiClient({ baseUrl: BASE_URL, retry: { retries: 3, baseDelayMs: 1, maxDelayMs: 1 } });
+    const controller = new AbortController();
+
+    const result = client.send("GET", "/health", { signal: controller.signal });
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+    await expect(result).rejects.not.toBeInstanceOf(TimeoutError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Bedingte Abrufe", () => {
+  it("liefert bei 304 dieselbe Instanz und schickt den letzten ETag", async () => {
+    fetchMock.mockResolvedValueOnce(json(health, { headers: { ETag: '"v1"' } })).mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const client = new ApiClient({ baseUrl: BASE_URL });
+
+    const first = await client.call(endpoints.health, { conditional: true });
+    const second = await client.call(endpoints.health, { conditional: true });
+    expect(second).toBe(first);
+    expect(fetchMock.mock.calls[0][1]?.headers).not.toHaveProperty("If-None-Match");
+    expect(fetchMock.mock.calls[1][1]?.headers).toHaveProperty("If-None-Match", '"v1"');
+  });
+
+  it("wirft HttpError bei 304 ohne gemerkten Eintrag", async () => {
+    fetchMock.mockImplementation(async () => new Response(null, { status: 304 }));
+    const client = new ApiClient({ baseUrl: BASE_URL });
+
+    await expect(client.call(endpoints.health, { conditional: true })).rejects.toMatchObject({ name: "HttpError", status: 304 });
+    await expect(client.call(endpoints.health)).rejects.toBeInstanceOf(HttpError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("merkt sich ETags je URL samt Query", async () => {
+    fetchMock
+      .mockResolvedValueOnce(json([], { headers: { ETag: '"a"' } }))
+      .mockResolvedValueOnce(json([], { headers: { ETag: '"b"' } }));
+    const client = new ApiClient({ baseUrl: BASE_URL });
+
+    await client.call(endpoints.listPlayers, { conditional: true, query: { lobbyId: "l1" } });
+    await client.call(endpoints.listPlayers, { conditional: true, query: { lobbyId: "l2" } });
+    expect(fetchMock.mock.calls[1][0]).toBe(`${BASE_URL}/players?lobbyId=l2`);
+    expect(fetchMock.mock.calls[1][1]?.headers).not.toHaveProperty("If-None-Match");
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Einheitlicher HTTP-Client für alle API-Module.
+ * Jeder Aufruf bekommt ein Zeitlimit und eine Request-ID (Header X-Request-Id, vom Mock-Backend geloggt und zurückgespiegelt);
+ * GET-Requests werden bei Netzwerkfehlern, Timeouts und Überlast-Status mit exponentiellem Backoff wiederholt.
+ * call() leitet Methode und Pfad aus dem Endpunkt-Vertrag ab, prüft die Antwort dagegen und übersetzt Fehler in die ApiError-Klassen.
+ * Gepollte Endpunkte rufen mit conditional ab: If-None-Match mit dem letzten ETag, bei 304 kommt die zuletzt dekodierte Instanz zurück.
+ */
+import { decodeResponse, isContractError, type Endpoint, type HttpMethod, type LegacyHint, type Route } from "@schwimm/contracts";
+import { ApiError, ContractViolationError, HttpError, NetworkError, TimeoutError, isApiError, isRetryableStatus } from "./errors";
+import { DEFAULT_API_BASE_URL } from "./http";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/** Wiederholungen für idempotente GETs: Wartezeit verdoppelt sich ab baseDelayMs (mit Jitter), höchstens maxDelayMs. */
+export type RetryPolicy = {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export type RequestOptions = {
+  /** Query-Parameter; null, undefined und leere Strings werden weggelassen. */
+  query?: Record<string, QueryValue>;
+  /** Wird als JSON gesendet. */
+  body?: unknown;
+  signal?: AbortSignal;
+  /** Zeitlimit pro Versuch; 0 schaltet es ab. */
+  timeoutMs?: number;
+  /** Überschreibt die Wiederholungen des Clients (nur für GET wirksam); false schaltet sie ab. */
+  retry?: Partial<RetryPolicy> | false;
+  keepalive?: boolean;
+  /** Eigene Request-ID, sonst wird eine erzeugt; gilt für alle Versuche eines Aufrufs. */
+  requestId?: string;
+  /** Zusätzliche Header (z. B. If-None-Match). */
+  headers?: Record<string, string>;
+};
+
+export type CallOptions<Req> = Omit<RequestOptions, "body"> & {
+  /** Werte für die :platzhalter der Route, werden URL-kodiert. */
+  params?: Record<string, string>;
+  body?: Req;
+  /** Abweichende Route mit derselben Antwortform (Legacy-URL oder dedizierter Dienst). */
+  route?: Route;
+  /** Zusatzwissen für das Anheben alter Antwortformate (siehe contracts/compat.ts). */
+  hint?: LegacyHint;
+  /**
+   * Bedingter Abruf (nur GET): ETag und dekodierte Antwort werden je URL gemerkt. Antwortet der Server mit 304, liefert call()
+   * dieselbe Instanz wie beim letzten Mal – React-State bleibt damit unverändert (setState mit identischem Wert rendert nicht neu).
+   */
+  conditional?: boolean;
+};
+
+export type ApiClientOptions = {
+  baseUrl: string;
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+};
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRY: RetryPolicy = { retries: 2, baseDelayMs: 300, maxDelayMs: 3000 };
+/** So viele URLs merkt sich ein Client für bedingte Abrufe; die am längsten nicht geänderte fliegt zuerst. */
+const CONDITIONAL_CACHE_LIMIT = 50;
+
+export class ApiClient {
+  readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly retry: RetryPolicy;
+  /** ETag und dekodierte Antwort je URL für Aufrufe mit conditional. */
+  private readonly conditionalCache = new Map<string, { etag: string; value: unknown }>();
+
+  constructor({ baseUrl, timeoutMs = DEFAULT_TIMEOUT_MS, retry }: ApiClientOptions) {
+    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.timeoutMs = timeoutMs;
+    this.retry = { ...DEFAULT_RETRY, ...retry };
+  }
+
+  /**
+   * Ruft einen Endpunkt laut Vertrag auf und liefert die geprüfte Antwort.
+   * Fehlerstatus ergeben einen HttpError (mit errorCode des Servers), unpassende Antworten einen ContractViolationError.
+   */
+  async call<Req, Res>(
+    endpoint: Endpoint<Req, Res>,
+    { params, route = endpoint.route, hint, conditional, requestId = createRequestId(), ...options }: CallOptions<NoInfer<Req>> = {}
+  ): Promise<Res> {
+    const [method, template] = route.split(" ") as [HttpMethod, string];
+    const path = fillPath(template, params);
+    const cacheKey = conditional && method === "GET" ? this.url(path, options.query) : null;
+    const cached = cacheKey ? this.conditionalCache.get(cacheKey) : undefined;
+    const headers = cached ? { ...options.headers, "If-None-Match": cached.etag } : options.headers;
+    const res = await this.send(method, path, { ...options, headers, requestId });
+    if (res.status === 304 && cached) return cached.value as Res;
+    if (!res.ok) throw await HttpError.fromResponse(res, requestId);
+    let payload: unknown;
+    try {
+      payload = await res.json();
+    } catch (error) {
+      throw new ApiError(`Antwort von ${endpoint.name} ist kein gültiges JSON.`, {
+        status: res.status,
+        errorCode: "INVALID_JSON",
+        requestId,
+        cause: error,
+      });
+    }
+    let value: Res;
+    try {
+      value = decodeResponse(endpoint, payload, hint);
+    } catch (error) {
+      if (isContractError(error)) throw new ContractViolationError(error, { status: res.status, requestId });
+      throw error;
+    }
+    const etag = res.headers.get("ETag");
+    if (cacheKey && etag) this.remember(cacheKey, etag, value);
+    return value;
+  }
+
+  /**
+   * Roher Request für Aufrufer, die Statuscodes selbst auswerten (Fallback-Ketten bei Delete und Presence).
+   * Wirft nur bei Netzwerkfehlern (NetworkError), Zeitüberschreitung (TimeoutError) oder Abbruch durch den Aufrufer (AbortError).
+   */
+  async send(method: HttpMethod, path: string, options: RequestOptions = {}): Promise<Response> {
+    const { query, body, signal, keepalive, requestId = createRequestId() } = options;
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const retries = method === "GET" && options.retry !== false;
+    const policy: RetryPolicy = retries ? { ...this.retry, ...options.retry } : { ...this.retry, retries: 0 };
+    const headers: Record<string, string> = { ...options.headers, [REQUEST_ID_HEADER]: requestId };
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    const init: RequestInit = { method, headers, keepalive, body: body === undefined ? undefined : JSON.stringify(body) };
+    const url = this.url(path, query);
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < policy.retries;
+      try {
+        const res = await fetchWithTimeout(url, init, { signal, timeoutMs, label: `${method} ${path}`, requestId });
+        if (!canRetry || !isRetryableStatus(res.status)) return res;
+      } catch (error) {
+        if (!canRetry || !isApiError(error) || !error.retryable) throw error;
+      }
+      await wait(backoffDelay(policy, attempt), signal);
+    }
+  }
+
+  private remember(key: string, etag: string, value: unknown) {
+    this.conditionalCache.delete(key);
+    this.conditionalCache.set(key, { etag, value });
+    if (this.conditionalCache.size > CONDITIONAL_CACHE_LIMIT) {
+      this.conditionalCache.delete(this.conditionalCache.keys().next().value!);
+    }
+  }
+
+  private url(path: string, query?: Record<string, QueryValue>) {
+    const params = new URLSearchParams();
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (value !== null && value !== undefined && value !== "") params.set(key, String(value));
+    });
+    const search = params.toString();
+    return `${this.baseUrl}${path}${search ? `?${search}` : ""}`;
+  }
+}
+
+/** Client für die Standard-API (VITE_API_URL); Module mit eigenem Dienst legen sich eigene Instanzen an. */
+export const apiClient = new ApiClient({ baseUrl: DEFAULT_API_BASE_URL });
+
+const derivedValues = new WeakMap<object, unknown>();
+
+/**
+ * Leitet aus einer Antwort genau einmal einen Wert ab (z. B. normalisierte Namen). Liefert call() nach einem 304 dieselbe Instanz,
+ * bleibt so auch der abgeleitete Wert referenzgleich. Pro Antwortobjekt darf es nur eine Ableitung geben.
+ */
+export function deriveOnce<T extends object, U>(source: T, derive: (source: T) => U): U {
+  if (derivedValues.has(source)) return derivedValues.get(source) as U;
+  const value = derive(source);
+  derivedValues.set(source, value);
+  return value;
+}
+
+/** Ersetzt :platzhalter der Route durch die URL-kodierten Werte aus params. */
+function fillPath(template: string, params: Record<string, string> = {}) {
+  return template.replace(/:(\w+)/g, (_match, key: string) => {
+    const value = params[key];
+    if (value === undefined) throw new Error(`Routenparameter ${key} fehlt für ${template}.`);
+    return encodeURIComponent(value);
+  });
+}
+
+/** Ein Versuch mit eigenem Zeitlimit; ein Abbruch des Aufrufers wird durchgereicht, ein Timeout wird zum TimeoutError. */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  { signal, timeoutMs, label, requestId }: { signal?: AbortSignal; timeoutMs: number; label: string; requestId: string }
+) {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  else signal?.addEventListener("abort", onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new TimeoutError(timeoutMs, label, { requestId });
+    if (isAbortError(error)) throw error;
+    throw new NetworkError("Keine Verbindung zum Server.", { requestId, cause: error });
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/** Exponentieller Backoff mit Jitter (50–100 % der Stufe), damit wartende Clients nicht im Gleichschritt wiederkommen. */
+function backoffDelay(policy: RetryPolicy, attempt: number) {
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(step * (0.5 + Math.random() / 2));
+}
+
+/** Wartet zwischen zwei Versuchen; ein Abbruch des Aufrufers beendet auch die Wartezeit. */
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException("Aborted", "AbortError"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Kurze, ausreichend eindeutige ID; crypto.randomUUID fehlt im LAN-Betrieb über http (kein Secure Context). */
+function createRequestId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Type Guard für AbortError, damit Abbrüche des Aufrufers unverändert durchgereicht werden. */
+export function isAbortError(error: unknown): error is DOMException {
+  return error instanceof DOMException && error.name === "AbortError";
+}
@@ -0,0 +1,118 @@
+/**
+ * Fehlerklassen des API-Clients.
+ * Jeder fehlgeschlagene Aufruf endet in einem ApiError: mit HTTP-Status (falls der Server geantwortet hat), dem errorCode des Servers
+ * (z. B. SESSION_STALE, MAX_PLAYERS, ROUND_FINISHED), der Request-ID und der Angabe, ob ein erneuter Versuch sinnvoll ist.
+ * Abbrüche über ein AbortSignal des Aufrufers bleiben ein DOMException("AbortError"), damit bestehende Abbruch-Checks greifen.
+ */
+import type { ContractError, ContractIssue } from "@schwimm/contracts";
+
+export type ApiErrorOptions = {
+  status?: number | null;
+  errorCode?: string;
+  retryable?: boolean;
+  requestId?: string;
+  cause?: unknown;
+};
+
+/** Basisklasse aller API-Fehler; `instanceof ApiError` bzw. isApiError() reicht für die meisten UI-Entscheidungen. */
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly errorCode?: string;
+  readonly retryable: boolean;
+  readonly requestId?: string;
+
+  constructor(message: string, { status = null, errorCode, retryable = false, requestId, cause }: ApiErrorOptions = {}) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = "ApiError";
+    this.status = status;
+    this.errorCode = errorCode;
+    this.retryable = retryable;
+    this.requestId = requestId;
+  }
+}
+
+/** Statuscodes, bei denen derselbe Request später gelingen kann (Überlast, Gateway, Rate-Limit). */
+const RETRYABLE_STATUS = new Set([408, 429, 502, 503, 504]);
+
+export function isRetryableStatus(status: number) {
+  return RETRYABLE_STATUS.has(status);
+}
+
+/**
+ * Der Server hat mit einem Fehlerstatus geantwortet. serverMessage ist error/message aus einem JSON-Body und fehlt,
+ * wenn die Antwort nicht von einer API-Route stammt (z. B. Express-404 als HTML) – die Meldung ist dann der Rohtext bzw. "HTTP <status>".
+ */
+export class HttpError extends ApiError {
+  readonly serverMessage?: string;
+  readonly issues?: ContractIssue[];
+
+  constructor(
+    status: number,
+    {
+      serverMessage,
+      responseText,
+      issues,
+      ...options
+    }: Omit<ApiErrorOptions, "status"> & { serverMessage?: string; responseText?: string; issues?: ContractIssue[] } = {}
+  ) {
+    super(serverMessage || responseText || `HTTP ${status}`, { retryable: isRetryableStatus(status), ...options, status });
+    this.name = "HttpError";
+    this.serverMessage = serverMessage;
+    this.issues = issues;
+  }
+
+  /** Liest den Fehler-Body ({ error | message, errorCode | code, issues }); Text- oder leere Bodies ergeben nur den Status. */
+  static async fromResponse(res: Response, requestId?: string): Promise<HttpError> {
+    const text = await res.text().catch(() => "");
+    let body: Record<string, unknown> | null = null;
+    try {
+      const parsed: unknown = text ? JSON.parse(text) : null;
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) body = parsed as Record<string, unknown>;
+    } catch {
+      // kein JSON – der Rohtext dient unten als Meldung
+    }
+    const pick = (key: string) => (typeof body?.[key] === "string" && body[key] ? (body[key] as string) : undefined);
+    return new HttpError(res.status, {
+      serverMessage: pick("error") ?? pick("message"),
+      responseText: body ? undefined : text.trim() || undefined,
+      errorCode: pick("errorCode") ?? pick("code"),
+      issues: Array.isArray(body?.issues) ? (body.issues as ContractIssue[]) : undefined,
+      requestId,
+    });
+  }
+}
+
+/** Der Server war nicht erreichbar (offline, DNS, CORS, Verbindung abgerissen). */
+export class NetworkError extends ApiError {
+  constructor(message: string, options: Omit<ApiErrorOptions, "status" | "retryable"> = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = "NetworkError";
+  }
+}
+
+/** Keine Antwort innerhalb des Zeitlimits des Aufrufs. */
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, label: string, options: Omit<ApiErrorOptions, "status" | "retryable" | "errorCode"> = {}) {
+    super(`Zeitüberschreitung nach ${timeoutMs} ms (${label}).`, { ...options, errorCode: "TIMEOUT", retryable: true });
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Erfolgsantwort, die nicht zum Vertrag aus @schwimm/contracts passt (auch nicht nach Anheben eines Altformats). */
+export class ContractViolationError extends ApiError {
+  readonly issues: ContractIssue[];
+
+  constructor(error: ContractError, options: Omit<ApiErrorOptions, "errorCode" | "retryable" | "cause"> = {}) {
+    super(error.message, { ...options, errorCode: "CONTRACT_VIOLATION", cause: error });
+    this.name = "ContractViolationError";
+    this.issues = error.issues;
+  }
+}
+
+/** Type Guard für API-Fehler, optional eingeschränkt auf einen errorCode des Servers. */
+export function isApiError(error: unknown, errorCode?: string): error is ApiError {
+  return error instanceof ApiError && (errorCode === undefined || error.errorCode === errorCode);
+}
@@ -2,64 +2,167 @@
  * Game-spezifische REST-Aufrufe (Runden, Lives, Finish).
  * Wird vom Game-, Lose- und Win-Screen genutzt, um Live-Daten zu erhalten und Aktionen zu triggern.
  */
-import { DEFAULT_API_BASE_URL, parseJson } from "./http";
-import type { LifeState, Round, Score } from "./types";
+import { endpoints } from "@schwimm/contracts";
+import { apiClient } from "./client";
+import type { Card, LifeEvent, LifeState, Round, RoundHistoryEntry, RoundMode, Score, TableAction, WinnerClaim } from "./types";
 
-const API_BASE = DEFAULT_API_BASE_URL;
+/** Spieler, dessen Karten im Tischmodus mitgeliefert werden sollen. */
+export type RoundViewer = { playerId: string; clientSessionId?: string | null };
 
-/** Lädt die aktuelle Runde einer Lobby inkl. Lives & Scores. */
+/**
+ * Lädt die aktuelle Runde einer Lobby inkl. Lives & Scores.
+ * Mit viewer liefert der Server im Tischmodus zusätzlich die eigene Hand.
+ */
 export async function getCurrentRound(
-  lobbyId: string
+  lobbyId: string,
+  viewer?: RoundViewer | null
 ): Promise<{ round: Round; lives: LifeState[]; scores: Score[] }> {
-  const res = await fetch(`${API_BASE}/rounds/current?lobbyId=${encodeURIComponent(lobbyId)}`);
-  return parseJson(res);
+  return apiClient.call(endpoints.getCurrentRound, {
+    query: { lobbyId, playerId: viewer?.playerId, clientSessionId: viewer?.clientSessionId },
+    conditional: true,
+  });
+}
+
+/**
+ * Schnappschuss einer Runde über ihre Nummer (auch beendete Runden), z. B. für alte Rundenlinks.
+ * currentNumber ist die Nummer der aktuellen Runde, damit die Ansicht dorthin springen kann.
+ */
+export async function getRoundByNumber(
+  lobbyId: string,
+  number: number
+): Promise<{ round: RoundHistoryEntry; currentNumber: number | null }> {
+  return apiClient.call(endpoints.getRoundByNumber, { query: { lobbyId, number } });
 }
 
-/** Startet eine neue Runde und liefert das Lives-Setup zurück. */
+/** Startet eine neue Runde und liefert das Lives-Setup zurück (ohne mode gilt der Lobby-Modus). */
 export async function startNextRound(
-  lobbyId: string
+  lobbyId: string,
+  options?: { mode?: RoundMode }
 ): Promise<{ round: Round; lives: LifeState[] }> {
-  const res = await fetch(`${API_BASE}/rounds/start`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ lobbyId }),
+  return apiClient.call(endpoints.startNextRound, {
+    body: { lobbyId, ...(options?.mode ? { mode: options.mode } : {}) },
   });
-  return parseJson(res);
 }
 
-/** PATCH-Endpoint zum Aktualisieren der Leben eines Spielers. */
+/** Schaltet eine frische Runde auf den digitalen Kartentisch um und teilt das erste Spiel aus. */
+export async function openTable(
+  roundId: string,
+  viewer: RoundViewer
+): Promise<{ round: Round; lives: LifeState[] }> {
+  return apiClient.call(endpoints.openTable, { params: { roundId }, body: viewerBody(viewer) });
+}
+
+/** Führt einen Zug am Tisch aus (Tauschen, Alle tauschen, Schieben, Klopfen). */
+export async function performTableAction(
+  roundId: string,
+  viewer: RoundViewer,
+  move: { action: TableAction; handIndex?: number; middleIndex?: number }
+): Promise<{ round: Round; lives: LifeState[] }> {
+  return apiClient.call(endpoints.performTableAction, { params: { roundId }, body: { ...viewerBody(viewer), ...move } });
+}
+
+/** Teilt nach dem Aufdecken das nächste Spiel der laufenden Runde aus. */
+export async function dealNextTableGame(
+  roundId: string,
+  viewer: RoundViewer
+): Promise<{ round: Round; lives: LifeState[] }> {
+  return apiClient.call(endpoints.dealNextTableGame, { params: { roundId }, body: viewerBody(viewer) });
+}
+
+/** Sagt einen Showdown an; alle Spieler mit Restleben melden danach ihre Hand. */
+export async function startShowdown(
+  roundId: string,
+  viewer: RoundViewer
+): Promise<{ round: Round; lives: LifeState[] }> {
+  return apiClient.call(endpoints.startShowdown, { params: { roundId }, body: viewerBody(viewer) });
+}
+
+/** Meldet die eigene Hand (Karten oder nur den Wert); die letzte Meldung löst die Lebensvergabe aus. */
+export async function submitShowdownHand(
+  roundId: string,
+  viewer: RoundViewer,
+  hand: { cards: Card[] } | { value: number }
+): Promise<{ round: Round; lives: LifeState[] }> {
+  return apiClient.call(endpoints.submitShowdownHand, { params: { roundId }, body: { ...viewerBody(viewer), ...hand } });
+}
+
+/** Bricht einen offenen Showdown ab, ohne Leben zu verändern. */
+export async function cancelShowdown(
+  roundId: string,
+  viewer: RoundViewer
+): Promise<{ round: Round; lives: LifeState[] }> {
+  return apiClient.call(endpoints.cancelShowdown, { params: { roundId }, body: viewerBody(viewer) });
+}
+
+function viewerBody(viewer: RoundViewer) {
+  return {
+    playerId: viewer.playerId,
+    ...(viewer.clientSessionId ? { clientSessionId: viewer.clientSessionId } : {}),
+  };
+}
+
+/**
+ * PATCH-Endpoint zum Aktualisieren der Leben eines Spielers.
+ * Nur noch aktiv, wenn das Backend mit MANUAL_LIVES=true läuft; regulär vergibt der Showdown die Leben.
+ * Erhöhungen lehnt der Server ab (409 USE_CORRECTION) – dafür gibt es correctLife.
+ */
 export async function updateLife(
   roundId: string,
   playerId: string,
   livesRemaining: number,
   clientSessionId?: string | null
 ): Promise<LifeState> {
-  const res = await fetch(`${API_BASE}/rounds/${encodeURIComponent(roundId)}/life`, {
-    method: "PATCH",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      playerId,
-      livesRemaining,
-      ...(clientSessionId ? { clientSessionId } : {}),
-    }),
+  return apiClient.call(endpoints.updateLife, {
+    params: { roundId },
+    body: { playerId, livesRemaining, ...(clientSessionId ? { clientSessionId } : {}) },
   });
-  return parseJson(res);
 }
 
-/** Markiert eine Runde als beendet und vergibt Punkte. */
+/** Korrektur: nimmt den letzten eigenen Streichholz-Tipp zurück (round.correctableLifeEventId) und protokolliert das serverseitig. */
+export async function correctLife(
+  roundId: string,
+  viewer: RoundViewer
+): Promise<{ entry: LifeEvent; lives: LifeState[] }> {
+  return apiClient.call(endpoints.correctLife, { params: { roundId }, body: viewerBody(viewer) });
+}
+
+/** Aktivitätsverlauf einer Runde (alle Lebensänderungen, neueste zuerst). */
+export async function getRoundActivity(roundId: string): Promise<LifeEvent[]> {
+  return apiClient.call(endpoints.getRoundActivity, { params: { roundId } });
+}
+
+/**
+ * Meldet den eigenen Sieg. Der Server legt eine Sieg-Meldung an, die die anderen bestätigen müssen;
+ * scores kommt nur mit, wenn die Runde sofort beendet wurde (keine Stimmberechtigten).
+ */
 export async function finishRound(
   roundId: string,
   winnerPlayerId: string,
   clientSessionId?: string | null,
-): Promise<{ round: Round; scores: Score[] }> {
-  const res = await fetch(`${API_BASE}/rounds/${encodeURIComponent(roundId)}/finish`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      winnerPlayerId,
-      finishedByPlayerId: winnerPlayerId,
-      ...(clientSessionId ? { clientSessionId } : {}),
-    }),
+): Promise<{ round: Round; claim: WinnerClaim; scores?: Score[] }> {
+  return apiClient.call(endpoints.finishRound, {
+    params: { roundId },
+    body: { winnerPlayerId, finishedByPlayerId: winnerPlayerId, ...(clientSessionId ? { clientSessionId } : {}) },
+  });
+}
+
+/** Öffnet eine gerade beendete Runde wieder (nur innerhalb von round.reopenableUntil); der vergebene Punkt wird abgezogen. */
+export async function reopenRound(
+  roundId: string,
+  viewer: RoundViewer
+): Promise<{ round: Round; lives: LifeState[]; scores: Score[] }> {
+  return apiClient.call(endpoints.reopenRound, { params: { roundId }, body: viewerBody(viewer) });
+}
+
+/** Stimmt einer offenen Sieg-Meldung zu oder lehnt sie ab; bei erreichtem Quorum ist die Runde danach beendet. */
+export async function voteOnClaim(
+  roundId: string,
+  claimId: string,
+  viewer: RoundViewer,
+  approve: boolean
+): Promise<{ round: Round; claim: WinnerClaim; scores?: Score[] }> {
+  return apiClient.call(endpoints.voteOnClaim, {
+    params: { roundId, claimId },
+    body: { ...viewerBody(viewer), approve },
   });
-  return parseJson(res);
 }
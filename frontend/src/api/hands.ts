@@ -0,0 +1,12 @@
+/**
+ * Handrechner-API: lässt den Server den Wert einer Drei-Karten-Hand bestimmen.
+ * So gelten im Handrechner exakt dieselben Regeln wie am digitalen Tisch.
+ */
+import { endpoints } from "@schwimm/contracts";
+import { apiClient } from "./client";
+import type { Card, HandEvaluation } from "./types";
+
+/** Bewertet genau drei Karten (Feuer, 31, drei Gleiche oder höchste Farbsumme). */
+export async function evaluateHand(cards: Card[]): Promise<HandEvaluation> {
+  return apiClient.call(endpoints.evaluateHand, { body: { cards } });
+}
@@ -1,16 +1,22 @@
 /**
  * Zentrale Re-Exports der API-Layer.
  * `api` bietet weiterhin das alte Objektinterface, während einzelne Funktionen direkt importiert werden können.
+ * ApiClient und die ApiError-Klassen sind für eigene Aufrufe und Fehlerprüfungen (isApiError(error, "SESSION_STALE")) mit exportiert.
  */
 import { listLobbies, getLobby, createLobby, listPlayers, fetchAllPlayerNames } from "./lobbies";
 import { listQuotes, createQuote } from "./quotes";
 import { getCurrentRound, startNextRound, updateLife, finishRound } from "./game";
 
+export * from "./client";
+export * from "./errors";
 export * from "./lobbies";
 export * from "./leaderboards";
+export * from "./players";
 export * from "./quotes";
 export * from "./game";
+export * from "./hands";
 export * from "./roundEvents";
+export * from "./realtime";
 export * from "./types";
 
 export const api = {
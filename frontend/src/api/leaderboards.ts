@@ -1,23 +1,14 @@
 /**
  * Leaderboard-API-Layer mit optionalem dediziertem Service.
  * Nutzt VITE_LEADERBOARDS_API_URL wenn gesetzt, sonst die klassischen REST-Routen der Mock-API.
- * Stellt sowohl Fetching als auch ein optionales SSE/Polling-Abonnement bereit.
+ * Stellt sowohl Fetching als auch ein SSE-Abonnement mit Polling-Fallback bereit.
+ * Das Legacy-Format (id/name, points) externer Leaderboard-Dienste hebt der Vertrag aus @schwimm/contracts an.
  */
+import { decodeResponse, endpoints, type LeaderboardEntry, type PlayerLeaderboardEntry } from "@schwimm/contracts";
+import { ApiClient, apiClient, deriveOnce, isAbortError } from "./client";
 import { DEFAULT_API_BASE_URL } from "./http";
 
-export type LeaderboardPlayerEntry = {
-  id: string;
-  name: string;
-  pointsTotal?: number;
-};
-
-export type LeaderboardEntry = {
-  lobbyId: string;
-  lobbyName: string;
-  players: LeaderboardPlayerEntry[];
-  createdAt: string;
-  rounds?: number;
-};
+export type { LeaderboardEntry, LeaderboardPlayerEntry, PlayerLeaderboardEntry } from "@schwimm/contracts";
 
 export type FetchLeaderboardsParams = {
   search?: string;
@@ -28,6 +19,8 @@ const leaderboardsBaseEnv = (import.meta.env.VITE_LEADERBOARDS_API_URL || "").tr
 const DEFAULT_BASE_URL = (leaderboardsBaseEnv || DEFAULT_API_BASE_URL).replace(/\/$/, "");
 
 const HAS_DEDICATED_ENDPOINT = Boolean(leaderboardsBaseEnv);
+const leaderboardsClient = new ApiClient({ baseUrl: DEFAULT_BASE_URL });
+const LEADERBOARDS_STREAM_URL = (import.meta.env.VITE_LEADERBOARDS_STREAM_URL || "").trim() || `${DEFAULT_BASE_URL}/leaderboard/stream`;
 
 /** Holt Leaderboard-Einträge, optional nach Lobbynamen gefiltert. */
 export async function fetchLeaderboards({
@@ -35,24 +28,37 @@ export async function fetchLeaderboards({
   signal,
 }: FetchLeaderboardsParams = {}): Promise<LeaderboardEntry[]> {
   const trimmedSearch = search?.trim();
-  const preferredPath = HAS_DEDICATED_ENDPOINT ? "/leaderboards" : "/leaderboard";
-  const candidates = HAS_DEDICATED_ENDPOINT ? [preferredPath, "/leaderboard"] : [preferredPath];
+  // Der dedizierte Dienst filtert über "search", die Mock-Route über den alten Key "query".
+  const candidates = HAS_DEDICATED_ENDPOINT
+    ? [{ route: "GET /leaderboards" as const, key: "search" }, { route: endpoints.fetchLeaderboards.route, key: "query" }]
+    : [{ route: endpoints.fetchLeaderboards.route, key: "query" }];
 
-  for (const path of candidates) {
+  for (const { route, key } of candidates) {
     try {
-      const res = await fetch(buildUrl(path, trimmedSearch, path === "/leaderboard"), { signal });
-      if (!res.ok) throw await buildError(res);
-      const data = (await res.json()) as unknown;
-      return normalizePayload(data);
+      const entries = await leaderboardsClient.call(endpoints.fetchLeaderboards, {
+        route,
+        query: { [key]: trimmedSearch },
+        signal,
+        conditional: true,
+      });
+      return deriveOnce(entries, (list) => list.map(toDisplayEntry));
     } catch (error) {
       if (isAbortError(error)) throw error;
       // Only try the next candidate if it exists.
-      if (path === candidates[candidates.length - 1]) throw error as Error;
+      if (route === candidates[candidates.length - 1].route) throw error as Error;
     }
   }
   return [];
 }
 
+/** Holt die Spieler-Rangliste über alle Lobbys, optional nach Spielernamen gefiltert. */
+export async function fetchPlayerLeaderboard({
+  search,
+  signal,
+}: FetchLeaderboardsParams = {}): Promise<PlayerLeaderboardEntry[]> {
+  return apiClient.call(endpoints.fetchPlayerLeaderboard, { query: { search: search?.trim() }, signal });
+}
+
 export type LeaderboardSubscriptionCallbacks = {
   onAdded?: (entry: LeaderboardEntry) => void;
   onUpdated?: (entry: LeaderboardEntry) => void;
@@ -62,7 +68,8 @@ export type LeaderboardSubscriptionCallbacks = {
 
 /**
  * Optionales Realtime-Abo.
- * Nutzt EventSource, wenn VITE_LEADERBOARDS_STREAM_URL vorhanden ist, andernfalls Polling als Fallback.
+ * Öffnet den Leaderboard-Stream (VITE_LEADERBOARDS_STREAM_URL, sonst /leaderboard/stream des Leaderboard-Dienstes);
+ * liefert der Server keinen Stream oder bricht er endgültig ab, wird stattdessen gepollt.
  */
 export type LeaderboardSubscriptionOptions = {
   pollIntervalMs?: number;
@@ -72,187 +79,117 @@ export function subscribeLeaderboards(
   callbacks: LeaderboardSubscriptionCallbacks = {},
   options: LeaderboardSubscriptionOptions = {}
 ): () => void {
-  const streamUrl = import.meta.env.VITE_LEADERBOARDS_STREAM_URL;
-  if (!streamUrl || typeof window === "undefined" || typeof EventSource === "undefined") {
-    const { pollIntervalMs = 5000 } = options;
-    if (!pollIntervalMs || pollIntervalMs <= 0 || typeof window === "undefined") {
-      return () => {};
-    }
-    let cache = new Map<string, LeaderboardEntry>();
-    let cancelled = false;
-    let initialized = false;
-
-    const poll = async () => {
-      try {
-        const next = await fetchLeaderboards();
-        if (cancelled) return;
-        const nextMap = new Map(next.map((entry) => [entry.lobbyId, entry]));
-
-        if (!initialized) {
-          cache = nextMap;
-          initialized = true;
-          return;
-        }
-
-        next.forEach((entry) => {
-          const previous = cache.get(entry.lobbyId);
-          if (!previous) callbacks.onAdded?.(entry);
-          else if (!areEntriesEqual(previous, entry)) callbacks.onUpdated?.(entry);
-        });
-
-        cache.forEach((_value, lobbyId) => {
-          if (!nextMap.has(lobbyId)) callbacks.onRemoved?.(lobbyId);
-        });
+  if (typeof window === "undefined") return () => {};
+  const { pollIntervalMs = 5000 } = options;
+  const canStream = typeof EventSource !== "undefined";
+  const canPoll = Boolean(pollIntervalMs && pollIntervalMs > 0);
+  if (!canStream && !canPoll) return () => {};
+
+  // Stand der zuletzt gemeldeten Einträge: Basis für den Polling-Diff und den Abgleich nach einem resync des Streams.
+  let cache = new Map<string, LeaderboardEntry>();
+  let cancelled = false;
+  let initialized = false;
+  let interval: number | undefined;
+  let source: EventSource | null = null;
+
+  const poll = async () => {
+    try {
+      const next = await fetchLeaderboards();
+      if (cancelled) return;
+      const nextMap = new Map(next.map((entry) => [entry.lobbyId, entry]));
 
+      if (!initialized) {
         cache = nextMap;
-      } catch (error) {
-        callbacks.onError?.(error as Error);
+        initialized = true;
+        return;
       }
-    };
 
-    poll();
-    const interval = window.setInterval(poll, pollIntervalMs);
-    return () => {
-      cancelled = true;
-      window.clearInterval(interval);
-    };
-  }
+      next.forEach((entry) => {
+        const previous = cache.get(entry.lobbyId);
+        if (!previous) callbacks.onAdded?.(entry);
+        else if (!areEntriesEqual(previous, entry)) callbacks.onUpdated?.(entry);
+      });
 
-  const source = new EventSource(streamUrl);
+      cache.forEach((_value, lobbyId) => {
+        if (!nextMap.has(lobbyId)) callbacks.onRemoved?.(lobbyId);
+      });
 
-  source.onmessage = (event) => {
-    try {
-      const payload = JSON.parse(event.data) as LeaderboardStreamPayload;
-      if (payload?.type === "added" && payload.entry) callbacks.onAdded?.(payload.entry);
-      else if (payload?.type === "updated" && payload.entry) callbacks.onUpdated?.(payload.entry);
-      else if (payload?.type === "removed" && payload.lobbyId) callbacks.onRemoved?.(payload.lobbyId);
-    } catch (err) {
-      callbacks.onError?.(err as Error);
+      cache = nextMap;
+    } catch (error) {
+      callbacks.onError?.(error as Error);
     }
   };
 
-  source.onerror = () => {
-    callbacks.onError?.(new Error("Realtime-Verbindung unterbrochen"));
+  const startPolling = () => {
+    if (cancelled || !canPoll || interval !== undefined) return;
+    interval = window.setInterval(poll, pollIntervalMs);
   };
 
-  return () => {
-    source.close();
-  };
-}
+  poll();
+  if (!canStream) {
+    startPolling();
+  } else {
+    const stream = new EventSource(LEADERBOARDS_STREAM_URL);
+    source = stream;
+    let opened = false;
 
-type LeaderboardStreamPayload =
-  | { type: "added" | "updated"; entry: LeaderboardEntry }
-  | { type: "removed"; lobbyId: string };
-
-type LegacyLobby = {
-  id: string;
-  lobbyId?: string;
-  name?: string;
-  lobbyName?: string;
-  createdAt?: string;
-  rounds?: number;
-  players?: LegacyPlayer[];
-};
-
-type LegacyPlayer = {
-  id: string;
-  name: string;
-  points?: number;
-  pointsTotal?: number;
-};
+    stream.onopen = () => {
+      opened = true;
+    };
 
-/** Zusammensetzen der Anfrage-URL unter Berücksichtigung legacy Query Keys. */
-function buildUrl(path: string, search: string | undefined, useLegacyQueryParam: boolean) {
-  const url = new URL(`${DEFAULT_BASE_URL}${path}`);
-  if (search) {
-    const key = useLegacyQueryParam ? "query" : "search";
-    url.searchParams.set(key, search);
-  }
-  return url.toString();
-}
+    stream.onmessage = (event) => {
+      try {
+        const payload = JSON.parse(event.data) as LeaderboardStreamPayload;
+        if ((payload?.type === "added" || payload?.type === "updated") && payload.entry) {
+          const entry = toDisplayEntry(decodeResponse(endpoints.fetchLeaderboards, [payload.entry])[0]);
+          cache.set(entry.lobbyId, entry);
+          if (payload.type === "added") callbacks.onAdded?.(entry);
+          else callbacks.onUpdated?.(entry);
+        } else if (payload?.type === "removed" && payload.lobbyId) {
+          cache.delete(payload.lobbyId);
+          callbacks.onRemoved?.(payload.lobbyId);
+        }
+      } catch (err) {
+        callbacks.onError?.(err as Error);
+      }
+    };
 
-/** Konvertiert HTTP-Antworten in Errors mit lesbaren Messages. */
-async function buildError(res: Response) {
-  const fallback = `HTTP ${res.status}`;
-  try {
-    const data = await res.json();
-    if (typeof data?.error === "string") return new Error(data.error);
-    if (typeof data?.message === "string") return new Error(data.message);
-  } catch {
-    // ignore JSON parse errors
+    // Der Server konnte verpasste Änderungen nicht nachliefern: einmal per Diff gegen den Cache abgleichen.
+    stream.addEventListener("resync", () => {
+      void poll();
+    });
+
+    stream.onerror = () => {
+      if (opened) callbacks.onError?.(new Error("Realtime-Verbindung unterbrochen"));
+      if (stream.readyState !== EventSource.CLOSED) return;
+      // Kein Stream auf diesem Server (z. B. 404) oder endgültig abgebrochen: weiter per Polling.
+      stream.close();
+      source = null;
+      startPolling();
+    };
   }
-  return new Error(fallback);
-}
 
-/** Normalisiert verschieden strukturierte Arrays (neues Format vs. Legacy-Objekte). */
-function normalizePayload(payload: unknown): LeaderboardEntry[] {
-  if (!Array.isArray(payload)) return [];
-  return payload.map((item) => normalizeEntry(item)).filter(Boolean) as LeaderboardEntry[];
+  return () => {
+    cancelled = true;
+    if (interval !== undefined) window.clearInterval(interval);
+    source?.close();
+  };
 }
 
-/** Konvertiert ein einzelnes Objekt in den LeaderboardEntry-Typ, inklusive Legacy-Feldern. */
-function normalizeEntry(item: unknown): LeaderboardEntry | null {
-  if (!item || typeof item !== "object") return null;
-  const lobby = item as LeaderboardEntry & LegacyLobby;
-  const lobbyId = lobby.lobbyId || lobby.id;
-  const lobbyName = lobby.lobbyName || lobby.name;
-  if (!lobbyId || !lobbyName) return null;
-  const normalizedLobbyName = lobbyName.toUpperCase();
-  const rounds =
-    typeof lobby.rounds === "number"
-      ? lobby.rounds
-      : typeof (lobby as LegacyLobby).rounds === "number"
-        ? (lobby as LegacyLobby).rounds
-        : undefined;
-
-  const legacyPlayers = Array.isArray((lobby as LegacyLobby).players)
-    ? (lobby as LegacyLobby).players
-    : null;
-  const rawPlayers: (LegacyPlayer | LeaderboardPlayerEntry)[] =
-    legacyPlayers ??
-    (Array.isArray(lobby.players) ? lobby.players : []);
-
-  const players =
-    rawPlayers.length > 0
-      ? rawPlayers
-          .map((player) => {
-            const id = player.id;
-            const name = player.name;
-            if (!id || !name) return null;
-            const normalizedName = name.toUpperCase();
-            const total = resolvePoints(player);
-            return {
-              id,
-              name: normalizedName,
-              pointsTotal: total,
-            };
-          })
-          .filter(Boolean) as LeaderboardPlayerEntry[]
-      : [];
+type LeaderboardStreamPayload =
+  | { type: "added" | "updated"; entry: LeaderboardEntry }
+  | { type: "removed"; lobbyId: string };
 
+/** Anzeigeform eines Eintrags: Lobby- und Spielernamen in Großbuchstaben wie im restlichen Teletext-UI. */
+function toDisplayEntry(entry: LeaderboardEntry): LeaderboardEntry {
   return {
-    lobbyId,
-    lobbyName: normalizedLobbyName,
-    players,
-    createdAt: lobby.createdAt || new Date().toISOString(),
-    rounds,
+    ...entry,
+    lobbyName: entry.lobbyName.toUpperCase(),
+    players: entry.players.map((player) => ({ ...player, name: player.name.toUpperCase() })),
   };
 }
 
-function isAbortError(error: unknown): error is DOMException {
-  return error instanceof DOMException && error.name === "AbortError";
-}
-
-/** Vereinheitlicht Punktefelder (points vs. pointsTotal) zu einer Zahl. */
-function resolvePoints(player: LegacyPlayer | LeaderboardPlayerEntry) {
-  if (typeof (player as LegacyPlayer).points === "number") return (player as LegacyPlayer).points;
-  if ("pointsTotal" in player && typeof player.pointsTotal === "number") {
-    return player.pointsTotal;
-  }
-  return undefined;
-}
-
-/** Vergleicht zwei Einträge (Name, Runden, Spielerliste), um Updates beim Polling zu erkennen. */
+/** Vergleicht zwei Einträge (Name, Runden, Spielerliste inkl. Wertung), um Updates beim Polling zu erkennen. */
 function areEntriesEqual(a: LeaderboardEntry, b: LeaderboardEntry) {
   if (a === b) return true;
   if (a.lobbyName !== b.lobbyName) return false;
@@ -264,6 +201,7 @@ function areEntriesEqual(a: LeaderboardEntry, b: LeaderboardEntry) {
     if (playerA.id !== playerB.id) return false;
     if (playerA.name !== playerB.name) return false;
     if ((playerA.pointsTotal ?? 0) !== (playerB.pointsTotal ?? 0)) return false;
+    if (playerA.rating !== playerB.rating) return false;
   }
   return true;
 }
@@ -2,51 +2,138 @@
  * Lobby-API: CRUD für Lobbys/Spieler, Join-Rejoin-Logik, Presence-Pings und Delete-Fallbacks.
  * Abstraktionsschicht für alle Pages, die mit dem Mock/Backend sprechen.
  */
-import { DEFAULT_API_BASE_URL, parseJson } from "./http";
-import type { Lobby, Player } from "./types";
+import { endpoints, type JoinOrRejoinResponse, type Route } from "@schwimm/contracts";
+import { ApiClient, apiClient, deriveOnce, isAbortError } from "./client";
+import { HttpError } from "./errors";
+import type { RoundViewer } from "./game";
+import { DEFAULT_API_BASE_URL } from "./http";
+import type { Lobby, LobbyState, Player, RoundHistoryPage, RoundMode } from "./types";
 
-const CORE_API_BASE_URL = DEFAULT_API_BASE_URL;
+export type { JoinOrRejoinErrorCode, JoinOrRejoinResponse, PlayerLifeSnapshot } from "@schwimm/contracts";
 
 /** Holt alle bekannten Lobbys vom Backend. */
 export async function listLobbies(): Promise<Lobby[]> {
-  const res = await fetch(`${CORE_API_BASE_URL}/lobbies`);
-  const payload = await parseJson<Lobby[]>(res);
+  const payload = await apiClient.call(endpoints.listLobbies);
   return payload.map(normalizeLobbyNameEntry);
 }
 
 /** Liefert eine konkrete Lobby anhand der ID. */
 export async function getLobby(lobbyId: string): Promise<Lobby> {
-  const res = await fetch(`${CORE_API_BASE_URL}/lobbies/${encodeURIComponent(lobbyId)}`);
-  const payload = await parseJson<Lobby>(res);
+  const payload = await apiClient.call(endpoints.getLobby, { params: { id: lobbyId } });
   return normalizeLobbyNameEntry(payload);
 }
 
+/** Länger als der Server eine Anfrage mit since hält (25 s), damit nicht der Client zuerst abbricht. */
+const LOBBY_STATE_WAIT_TIMEOUT_MS = 35000;
+/** Pause nach einem fehlgeschlagenen Abruf in watchLobbyState. */
+const LOBBY_STATE_RETRY_MS = 3000;
+
+/**
+ * Gesamtstand einer Lobby (Lobby, aktuelle Runde, Lives, Scores, Spieler) in einem Aufruf.
+ * Mit since antwortet der Server erst, wenn sich die version davon unterscheidet (oder nach 25 s unverändert).
+ */
+export async function getLobbyState(
+  lobbyId: string,
+  { since, viewer, signal }: { since?: number | null; viewer?: RoundViewer | null; signal?: AbortSignal } = {}
+): Promise<LobbyState> {
+  const state = await apiClient.call(endpoints.getLobbyState, {
+    params: { id: lobbyId },
+    query: { since, playerId: viewer?.playerId, clientSessionId: viewer?.clientSessionId },
+    signal,
+    timeoutMs: since ? LOBBY_STATE_WAIT_TIMEOUT_MS : undefined,
+  });
+  return { ...state, lobby: normalizeLobbyNameEntry(state.lobby), players: state.players.map(normalizePlayerNameEntry) };
+}
+
+/**
+ * Hält den Stand einer Lobby per Long-Polling aktuell: der erste Abruf antwortet sofort, jeder weitere wartet mit since auf die nächste Änderung.
+ * onState kommt nur bei neuer version. Nach einem Fehler (onError) folgt nach LOBBY_STATE_RETRY_MS der nächste Versuch, bei 404 ist Schluss.
+ * viewer wird bei jedem Abruf neu gelesen. Liefert eine Stop-Funktion, die auch die offene Anfrage abbricht.
+ */
+export function watchLobbyState(
+  lobbyId: string,
+  {
+    viewer,
+    onState,
+    onError,
+  }: { viewer?: () => RoundViewer | null; onState: (state: LobbyState) => void; onError?: (error: unknown) => void }
+): () => void {
+  const controller = new AbortController();
+
+  const run = async () => {
+    let since: number | null = null;
+    while (!controller.signal.aborted) {
+      try {
+        const state = await getLobbyState(lobbyId, { since, viewer: viewer?.(), signal: controller.signal });
+        if (controller.signal.aborted) return;
+        if (state.version === since) continue;
+        since = state.version;
+        onState(state);
+      } catch (error) {
+        if (controller.signal.aborted || isAbortError(error)) return;
+        onError?.(error);
+        if (error instanceof HttpError && error.status === 404) return;
+        await new Promise((resolve) => setTimeout(resolve, LOBBY_STATE_RETRY_MS));
+      }
+    }
+  };
+  void run();
+
+  return () => controller.abort();
+}
+
 /** Erstellt eine neue Lobby mit dem angegebenen Namen. */
 export async function createLobby(name: string): Promise<Lobby> {
   const normalizedName = name.trim().toUpperCase();
-  const res = await fetch(`${CORE_API_BASE_URL}/lobbies`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ name: normalizedName }),
+  const payload = await apiClient.call(endpoints.createLobby, { body: { name: normalizedName } });
+  return normalizeLobbyNameEntry(payload);
+}
+
+/** Legt fest, ob die nächsten Runden der Lobby am digitalen Tisch oder mit echten Karten starten. */
+export async function setLobbyMode(lobbyId: string, mode: RoundMode): Promise<Lobby> {
+  const payload = await apiClient.call(endpoints.setLobbyMode, { params: { id: lobbyId }, body: { mode } });
+  return normalizeLobbyNameEntry(payload);
+}
+
+/** Speichert eine neue Sitzordnung (alle Spieler-IDs der Lobby in Reihenfolge). */
+export async function updateSeatOrder({
+  lobbyId,
+  playerId,
+  clientSessionId,
+  order,
+}: {
+  lobbyId: string;
+  playerId: string;
+  clientSessionId?: string | null;
+  order: string[];
+}): Promise<Lobby> {
+  const payload = await apiClient.call(endpoints.updateSeatOrder, {
+    params: { id: lobbyId },
+    body: { playerId, order, ...(clientSessionId ? { clientSessionId } : {}) },
   });
-  const payload = await parseJson<Lobby>(res);
   return normalizeLobbyNameEntry(payload);
 }
 
+/** Blättert durch die Rundenhistorie einer Lobby (neueste zuerst, Server-Default 20 pro Seite). */
+export async function listLobbyRounds(
+  lobbyId: string,
+  { limit, offset }: { limit?: number; offset?: number } = {}
+): Promise<RoundHistoryPage> {
+  return apiClient.call(endpoints.listLobbyRounds, {
+    params: { id: lobbyId },
+    query: { limit: limit || undefined, offset: offset || undefined },
+  });
+}
+
 /** Listet alle Spieler einer Lobby (wird laufend gepollt). */
 export async function listPlayers(lobbyId: string): Promise<Player[]> {
-  const res = await fetch(`${CORE_API_BASE_URL}/players?lobbyId=${encodeURIComponent(lobbyId)}`);
-  const payload = await parseJson<Player[]>(res);
-  return payload.map(normalizePlayerNameEntry);
+  const payload = await apiClient.call(endpoints.listPlayers, { query: { lobbyId }, conditional: true });
+  return deriveOnce(payload, (players) => players.map(normalizePlayerNameEntry));
 }
 
-type PlayerNamesResponse = { names?: string[] } | string[];
-
 /** Liefert eine deduplizierte Liste aller bekannten Spielernamen. */
 export async function fetchAllPlayerNames(): Promise<string[]> {
-  const res = await fetch(`${CORE_API_BASE_URL}/players/all-names`);
-  const payload = await parseJson<PlayerNamesResponse>(res);
-  const names = Array.isArray(payload) ? payload : Array.isArray(payload?.names) ? payload.names : [];
+  const { names } = await apiClient.call(endpoints.fetchAllPlayerNames);
   return normalizePlayerNameList(names);
 }
 
@@ -96,30 +183,6 @@ export type JoinOrRejoinParams = {
   signal?: AbortSignal;
 };
 
-export type JoinOrRejoinErrorCode = "LOBBY_FULL" | "NAME_ACTIVE" | "NAME_TAKEN" | "MAX_PLAYERS" | "UNKNOWN";
-
-export type PlayerLifeSnapshot = {
-  id: string;
-  roundId: string;
-  playerId: string;
-  livesRemaining: number;
-  updatedAt: string;
-  roundNumber?: number;
-};
-
-export type JoinOrRejoinResponse = {
-  ok: boolean;
-  mode: "join" | "rejoin";
-  playerId: string;
-  isActive: boolean;
-  player?: Player;
-   sessionId?: string | null;
-   sessionReplaced?: boolean;
-   playerLives?: PlayerLifeSnapshot | null;
-  errorCode?: JoinOrRejoinErrorCode;
-  message?: string;
-};
-
 export type PresencePingParams = {
   lobbyId?: string | null;
   playerId?: string | null;
@@ -132,19 +195,18 @@ const LOBBIES_BASE_URL = (
   import.meta.env.VITE_LOBBIES_API_URL ||
   DEFAULT_API_BASE_URL
 ).replace(/\/$/, "");
+const lobbiesClient = new ApiClient({ baseUrl: LOBBIES_BASE_URL });
 
 const rawLeaderboardsBase = import.meta.env.VITE_LEADERBOARDS_API_URL;
 const LEADERBOARDS_BASE_URL = rawLeaderboardsBase ? rawLeaderboardsBase.replace(/\/$/, "") : null;
 
-const DELETE_BASE_URLS: string[] = Array.from(
+const DELETE_CLIENTS: ApiClient[] = Array.from(
   new Set(
     [LOBBIES_BASE_URL, LEADERBOARDS_BASE_URL].filter(
       (url): url is string => typeof url === "string" && url.length > 0
     )
   )
-);
-
-const REQUEST_TIMEOUT_MS = 8000;
+).map((baseUrl) => (baseUrl === LOBBIES_BASE_URL ? lobbiesClient : new ApiClient({ baseUrl })));
 type PresenceEndpointBuilder = (ctx: { lobbyId: string; playerId: string }) => string;
 const PRESENCE_ENDPOINTS: PresenceEndpointBuilder[] = [
   ({ lobbyId }) => `/lobbies/${lobbyId}/presence`,
@@ -154,11 +216,10 @@ const PRESENCE_ENDPOINTS: PresenceEndpointBuilder[] = [
 let presenceEndpointStatus: "unknown" | "supported" | "unsupported" = "unknown";
 
 type RequestCandidate = {
+  client: ApiClient;
   path: string;
   method: "DELETE" | "POST" | "PATCH";
-  body?: BodyInit;
-  headers?: Record<string, string>;
-  baseUrl?: string;
+  body?: unknown;
 };
 
 type DeleteLogContext = {
@@ -169,6 +230,7 @@ type DeleteLogContext = {
 /**
  * Versucht (je nach verfügbaren Endpoints) einen Join oder Rejoin.
  * Nutzt mehrere Kandidaten-URLs (ID/Name, join vs. join-or-rejoin), bis eine Variante funktioniert.
+ * Jede Antwort läuft durch den join-or-rejoin-Vertrag; die Player-only-Antwort von /join hebt die Kompatibilitätsschicht an.
  */
 export async function joinOrRejoin({
   lobbyId,
@@ -185,47 +247,38 @@ export async function joinOrRejoin({
   const normalizedLobbyName = lobbyName?.trim().toUpperCase();
   const normalizedPlayerName = playerName.trim().toUpperCase();
 
-  const payload = JSON.stringify({
+  const body = {
     name: normalizedPlayerName,
     ...(clientSessionId ? { clientSessionId } : {}),
     ...(forceRejoin ? { forceRejoin: true } : {}),
-  });
+  };
 
-  const candidates: RequestCandidate[] = [];
-  const headers = { "Content-Type": "application/json" };
-  const context = { lobbyId, lobbyName: normalizedLobbyName ?? lobbyName, playerName: normalizedPlayerName };
+  const candidates: { route: Route; params: Record<string, string> }[] = [];
+  const hint = { lobbyId, playerName: normalizedPlayerName };
 
   if (lobbyId) {
-    const encodedId = encodeURIComponent(lobbyId);
     candidates.push(
-      { path: `/lobbies/${encodedId}/join-or-rejoin`, method: "POST", headers, body: payload },
-      { path: `/lobbies/${encodedId}/join`, method: "POST", headers, body: payload }
+      { route: endpoints.joinOrRejoin.route, params: { lobbyId } },
+      { route: endpoints.join.route, params: { lobbyId } }
     );
   }
 
   if (normalizedLobbyName || lobbyName) {
-    const encodedName = encodeURIComponent(normalizedLobbyName ?? lobbyName ?? "");
+    const params = { lobbyName: normalizedLobbyName ?? lobbyName ?? "" };
     candidates.push(
-      { path: `/lobbies/by-name/${encodedName}/join-or-rejoin`, method: "POST", headers, body: payload },
-      { path: `/lobbies/by-name/${encodedName}/join`, method: "POST", headers, body: payload }
+      { route: "POST /lobbies/by-name/:lobbyName/join-or-rejoin", params },
+      { route: "POST /lobbies/by-name/:lobbyName/join", params }
     );
   }
 
   let lastError: Error | null = null;
 
-  for (const candidate of candidates) {
+  for (const { route, params } of candidates) {
     try {
-      const res = await fetch(`${LOBBIES_BASE_URL}${candidate.path}`, {
-        method: candidate.method,
-        headers: candidate.headers,
-        body: candidate.body,
-        signal,
-      });
-      if (!res.ok) throw await buildError(res);
-      const data = await res.json();
-      return normalizeJoinOrRejoinPayload(data, context);
+      const response = await lobbiesClient.call(endpoints.joinOrRejoin, { route, params, body, hint, signal });
+      return response.player ? { ...response, player: normalizePlayerNameEntry(response.player) } : response;
     } catch (error) {
-      if (error instanceof DOMException && error.name === "AbortError") throw error;
+      if (isAbortError(error)) throw error;
       lastError = error instanceof Error ? error : new Error("Unbekannter Fehler");
     }
   }
@@ -247,23 +300,19 @@ export async function presencePing({
 
   const encodedLobbyId = encodeURIComponent(lobbyId);
   const encodedPlayerId = encodeURIComponent(playerId);
-  const payload = JSON.stringify({
+  const body = {
     playerId,
     ...(clientSessionId ? { clientSessionId } : {}),
-  });
+  };
 
   let missingEndpoints = 0;
   for (const buildPath of PRESENCE_ENDPOINTS) {
     const path = buildPath({ lobbyId: encodedLobbyId, playerId: encodedPlayerId });
     try {
-      const res = await fetch(`${LOBBIES_BASE_URL}${path}`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: payload,
-        signal,
-        keepalive: keepAlive,
-      });
+      const res = await lobbiesClient.send("POST", path, { body, signal, keepalive: keepAlive });
       if (res.status === 404 || res.status === 405 || res.status === 501) {
+        // Ein 404 mit JSON-Fehler stammt vom Handler selbst (Lobby/Spieler fehlt), nicht von einer fehlenden Route.
+        if (res.status === 404 && (await isHandledNotFound(res))) return;
         missingEndpoints++;
         continue;
       }
@@ -310,9 +359,9 @@ export async function deleteLobby({
   if (shouldAttemptHardDelete) {
     const hardCandidates = buildHardDeleteCandidates(identifiers);
     for (const candidate of hardCandidates) {
-      const context = { baseUrl: candidate.baseUrl, path: candidate.path };
+      const context = { baseUrl: candidate.client.baseUrl, path: candidate.path };
       try {
-        const res = await performRequest(candidate, signal);
+        const res = await candidate.client.send(candidate.method, candidate.path, { body: candidate.body, signal });
         if (res.status === 404) {
           const notFoundResult = await handleNotFoundResponse(res, identifiers, context);
           if (notFoundResult.ok) return notFoundResult;
@@ -358,45 +407,44 @@ export async function deleteLobby({
  */
 function buildHardDeleteCandidates({ lobbyId, lobbyName }: { lobbyId?: string; lobbyName?: string }) {
   const candidates: RequestCandidate[] = [];
-  const jsonHeaders = { "Content-Type": "application/json" };
-  const payload = JSON.stringify({ lobbyId, lobbyName, hard: true });
+  const payload = { lobbyId, lobbyName, hard: true };
 
   if (lobbyId) {
     const encodedId = encodeURIComponent(lobbyId);
-    for (const baseUrl of DELETE_BASE_URLS) {
+    for (const client of DELETE_CLIENTS) {
       candidates.push(
-        { baseUrl, path: `/lobbies/${encodedId}`, method: "DELETE" },
-        { baseUrl, path: `/lobbies/${encodedId}?hard=true`, method: "DELETE" },
-        { baseUrl, path: `/leaderboard/${encodedId}`, method: "DELETE" },
-        { baseUrl, path: `/leaderboards/${encodedId}`, method: "DELETE" },
-        { baseUrl, path: `/lobbies/${encodedId}/delete`, method: "POST", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/lobbies/${encodedId}/hard-delete`, method: "POST", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboard/${encodedId}/delete`, method: "POST", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboards/${encodedId}/delete`, method: "POST", headers: jsonHeaders, body: payload }
+        { client, path: `/lobbies/${encodedId}`, method: "DELETE" },
+        { client, path: `/lobbies/${encodedId}?hard=true`, method: "DELETE" },
+        { client, path: `/leaderboard/${encodedId}`, method: "DELETE" },
+        { client, path: `/leaderboards/${encodedId}`, method: "DELETE" },
+        { client, path: `/lobbies/${encodedId}/delete`, method: "POST", body: payload },
+        { client, path: `/lobbies/${encodedId}/hard-delete`, method: "POST", body: payload },
+        { client, path: `/leaderboard/${encodedId}/delete`, method: "POST", body: payload },
+        { client, path: `/leaderboards/${encodedId}/delete`, method: "POST", body: payload }
       );
     }
   }
 
   if (lobbyName) {
     const encodedName = encodeURIComponent(lobbyName);
-    for (const baseUrl of DELETE_BASE_URLS) {
+    for (const client of DELETE_CLIENTS) {
       candidates.push(
-        { baseUrl, path: `/lobbies/by-name/${encodedName}`, method: "DELETE" },
-        { baseUrl, path: `/lobbies/by-name/${encodedName}?hard=true`, method: "DELETE" },
-        { baseUrl, path: `/leaderboard/by-name/${encodedName}`, method: "DELETE" },
-        { baseUrl, path: `/leaderboards/by-name/${encodedName}`, method: "DELETE" },
-        { baseUrl, path: `/lobbies/by-name/${encodedName}/delete`, method: "POST", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboard/by-name/${encodedName}/delete`, method: "POST", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboards/by-name/${encodedName}/delete`, method: "POST", headers: jsonHeaders, body: payload }
+        { client, path: `/lobbies/by-name/${encodedName}`, method: "DELETE" },
+        { client, path: `/lobbies/by-name/${encodedName}?hard=true`, method: "DELETE" },
+        { client, path: `/leaderboard/by-name/${encodedName}`, method: "DELETE" },
+        { client, path: `/leaderboards/by-name/${encodedName}`, method: "DELETE" },
+        { client, path: `/lobbies/by-name/${encodedName}/delete`, method: "POST", body: payload },
+        { client, path: `/leaderboard/by-name/${encodedName}/delete`, method: "POST", body: payload },
+        { client, path: `/leaderboards/by-name/${encodedName}/delete`, method: "POST", body: payload }
       );
     }
   }
 
-  for (const baseUrl of DELETE_BASE_URLS) {
+  for (const client of DELETE_CLIENTS) {
     candidates.push(
-      { baseUrl, path: "/lobbies/delete", method: "POST", headers: jsonHeaders, body: payload },
-      { baseUrl, path: "/leaderboard/delete", method: "POST", headers: jsonHeaders, body: payload },
-      { baseUrl, path: "/leaderboards/delete", method: "POST", headers: jsonHeaders, body: payload }
+      { client, path: "/lobbies/delete", method: "POST", body: payload },
+      { client, path: "/leaderboard/delete", method: "POST", body: payload },
+      { client, path: "/leaderboards/delete", method: "POST", body: payload }
     );
   }
 
@@ -410,33 +458,32 @@ async function attemptSoftDelete(
 ): Promise<DeleteLobbyResult> {
   const { lobbyId, lobbyName } = identifiers;
   const candidates: RequestCandidate[] = [];
-  const payload = JSON.stringify({ status: "closed" });
-  const jsonHeaders = { "Content-Type": "application/json" };
+  const payload = { status: "closed" };
 
   if (lobbyId) {
     const encodedId = encodeURIComponent(lobbyId);
-    for (const baseUrl of DELETE_BASE_URLS) {
+    for (const client of DELETE_CLIENTS) {
       candidates.push(
-        { baseUrl, path: `/lobbies/${encodedId}`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/lobbies/${encodedId}/status`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboard/${encodedId}`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboards/${encodedId}`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboard/${encodedId}/status`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboards/${encodedId}/status`, method: "PATCH", headers: jsonHeaders, body: payload }
+        { client, path: `/lobbies/${encodedId}`, method: "PATCH", body: payload },
+        { client, path: `/lobbies/${encodedId}/status`, method: "PATCH", body: payload },
+        { client, path: `/leaderboard/${encodedId}`, method: "PATCH", body: payload },
+        { client, path: `/leaderboards/${encodedId}`, method: "PATCH", body: payload },
+        { client, path: `/leaderboard/${encodedId}/status`, method: "PATCH", body: payload },
+        { client, path: `/leaderboards/${encodedId}/status`, method: "PATCH", body: payload }
       );
     }
   }
 
   if (lobbyName) {
     const encodedName = encodeURIComponent(lobbyName);
-    for (const baseUrl of DELETE_BASE_URLS) {
+    for (const client of DELETE_CLIENTS) {
       candidates.push(
-        { baseUrl, path: `/lobbies/by-name/${encodedName}`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/lobbies/by-name/${encodedName}/status`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboard/by-name/${encodedName}`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboards/by-name/${encodedName}`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboard/by-name/${encodedName}/status`, method: "PATCH", headers: jsonHeaders, body: payload },
-        { baseUrl, path: `/leaderboards/by-name/${encodedName}/status`, method: "PATCH", headers: jsonHeaders, body: payload }
+        { client, path: `/lobbies/by-name/${encodedName}`, method: "PATCH", body: payload },
+        { client, path: `/lobbies/by-name/${encodedName}/status`, method: "PATCH", body: payload },
+        { client, path: `/leaderboard/by-name/${encodedName}`, method: "PATCH", body: payload },
+        { client, path: `/leaderboards/by-name/${encodedName}`, method: "PATCH", body: payload },
+        { client, path: `/leaderboard/by-name/${encodedName}/status`, method: "PATCH", body: payload },
+        { client, path: `/leaderboards/by-name/${encodedName}/status`, method: "PATCH", body: payload }
       );
     }
   }
@@ -444,9 +491,9 @@ async function attemptSoftDelete(
   let lastError: DeleteLobbyResult | null = null;
 
   for (const candidate of candidates) {
-    const context = { baseUrl: candidate.baseUrl, path: candidate.path };
+    const context = { baseUrl: candidate.client.baseUrl, path: candidate.path };
     try {
-      const res = await performRequest(candidate, signal);
+      const res = await candidate.client.send(candidate.method, candidate.path, { body: candidate.body, signal });
       if (res.status === 404) {
         const notFoundResult = await handleNotFoundResponse(res, identifiers, context);
         if (notFoundResult.ok) return notFoundResult;
@@ -561,29 +608,20 @@ function mapDeleteMessage(status: number, serverMessage?: string) {
   };
 }
 
-async function parseErrorPayload(res: Response) {
-  try {
-    const data = await res.json();
-    const code = typeof data?.code === "string" ? data.code : undefined;
-    const message =
-      typeof data?.message === "string"
-        ? data.message
-        : typeof data?.error === "string"
-        ? data.error
-        : undefined;
-    return { code, message };
-  } catch {
-    return { message: `HTTP ${res.status}` };
-  }
+/** Liest errorCode/code und die Server-Meldung aus einer Fehlerantwort (über HttpError, wie alle anderen API-Fehler). */
+async function parseErrorPayload(res: Response): Promise<ParsedErrorPayload> {
+  const error = await HttpError.fromResponse(res);
+  return { code: error.errorCode, message: error.serverMessage };
 }
 
-function isConflictStatus(status: number) {
-  return status === 409 || status === 412 || status === 423 || status === 428;
+/** Prüft, ob eine 404-Antwort eine JSON-Fehlermeldung des Servers enthält (Route existiert also). */
+async function isHandledNotFound(res: Response) {
+  const { message } = await parseErrorPayload(res);
+  return Boolean(message);
 }
 
-/** Type Guard für AbortError, damit Fetch-Abbrüche sauber propagiert werden. */
-function isAbortError(error: unknown): error is DOMException {
-  return error instanceof DOMException && error.name === "AbortError";
+function isConflictStatus(status: number) {
+  return status === 409 || status === 412 || status === 423 || status === 428;
 }
 
 /** Standardisierte Struktur für Netzwerkausfälle während Delete. */
@@ -615,234 +653,3 @@ function logDeleteWarning(
     path: context?.path,
   });
 }
-
-/** Führt einen HTTP-Request aus und kapselt Timeout-/Abort-Handling. */
-async function performRequest(candidate: RequestCandidate, signal?: AbortSignal) {
-  const { signal: requestSignal, cleanup, timedOut } = createAbortSignal(signal, REQUEST_TIMEOUT_MS);
-  const baseUrl = candidate.baseUrl ?? LOBBIES_BASE_URL;
-  try {
-    return await fetch(`${baseUrl}${candidate.path}`, {
-      method: candidate.method,
-      headers: candidate.headers,
-      body: candidate.body,
-      signal: requestSignal,
-    });
-  } catch (error) {
-    if (isAbortError(error) && timedOut()) {
-      throw new Error("Timeout beim Löschversuch.");
-    }
-    throw error;
-  } finally {
-    cleanup();
-  }
-}
-
-/**
- * Kombiniert internen AbortController mit optionalem externen Signal plus Timeout,
- * damit Delete-Versuche deterministisch abbrechen können.
- */
-function createAbortSignal(externalSignal?: AbortSignal, timeoutMs = REQUEST_TIMEOUT_MS) {
-  const controller = new AbortController();
-  let timedOut = false;
-  const timeoutHandle: ReturnType<typeof setTimeout> | undefined =
-    timeoutMs > 0
-      ? setTimeout(() => {
-          timedOut = true;
-          controller.abort();
-        }, timeoutMs)
-      : undefined;
-
-  const onExternalAbort = () => controller.abort();
-
-  if (externalSignal) {
-    if (externalSignal.aborted) {
-      controller.abort();
-    } else {
-      externalSignal.addEventListener("abort", onExternalAbort);
-    }
-  }
-
-  const cleanup = () => {
-    if (timeoutHandle) clearTimeout(timeoutHandle);
-    if (externalSignal) {
-      externalSignal.removeEventListener("abort", onExternalAbort);
-    }
-  };
-
-  return {
-    signal: controller.signal,
-    cleanup,
-    timedOut: () => timedOut,
-  };
-}
-
-/** Kapselt Response-Payload in ein Error-Objekt inkl. optionaler errorCode-Zuweisung. */
-async function buildError(res: Response) {
-  const fallback = `HTTP ${res.status}`;
-  try {
-    const data = await res.json();
-    const message =
-      typeof data?.message === "string"
-        ? data.message
-        : typeof data?.error === "string"
-          ? data.error
-          : undefined;
-    const error = new Error(message || fallback) as ResponseError;
-    if (typeof data?.errorCode === "string") {
-      error.code = data.errorCode;
-    }
-    return error;
-  } catch {
-    // ignore JSON parse errors
-  }
-  return new Error(fallback);
-}
-
-type ResponseError = Error & { code?: string };
-
-type JoinPayloadContext = {
-  lobbyId?: string | null;
-  lobbyName?: string | null;
-  playerName: string;
-};
-
-type JoinPayload = {
-  ok?: boolean;
-  mode?: string;
-  playerId?: string;
-  isActive?: boolean;
-  player?: PlayerLike;
-  sessionId?: string | null;
-  sessionReplaced?: boolean;
-  playerLives?: unknown;
-  errorCode?: string;
-  message?: string;
-};
-
-type PlayerLike = Partial<Player> & {
-  id?: string;
-  name?: string;
-  lobbyId?: string;
-  joinedAt?: string;
-  isActive?: boolean;
-};
-
-/**
- * Interpretiert verschiedene Backend-Response-Formate (neues JSON, legacy Player-only)
- * und bietet dem Frontend eine einheitliche JoinOrRejoinResponse an.
- */
-function normalizeJoinOrRejoinPayload(payload: unknown, context: JoinPayloadContext): JoinOrRejoinResponse {
-  if (payload && typeof payload === "object" && ("ok" in (payload as object) || "mode" in (payload as object))) {
-    const typed = payload as JoinPayload;
-    const ok = typed.ok !== false;
-    const mode = typed.mode === "rejoin" ? "rejoin" : "join";
-    const errorCode = parseJoinErrorCode(typed.errorCode);
-    const player =
-      ok && typed.player
-        ? normalizePlayerPayload(typed.player, context, typed.playerId)
-        : ok && typed.playerId
-        ? normalizePlayerPayload({ id: typed.playerId }, context, typed.playerId)
-        : undefined;
-    const playerId = typed.playerId || player?.id || "";
-    const isActive =
-      typeof typed.isActive === "boolean" ? typed.isActive : player ? player.isActive !== false : true;
-    const sessionId = parseSessionId(typed.sessionId);
-    const sessionReplaced = typed.sessionReplaced === true;
-    const playerLives = normalizePlayerLives(typed.playerLives);
-
-    if (ok && !playerId) {
-      throw new Error("Antwort ohne Spieler-Referenz.");
-    }
-
-    return {
-      ok,
-      mode,
-      playerId,
-      isActive,
-      player,
-      sessionId,
-      sessionReplaced,
-      playerLives,
-      errorCode,
-      message: typeof typed.message === "string" ? typed.message : undefined,
-    };
-  }
-
-  if (looksLikePlayerPayload(payload)) {
-    const player = normalizePlayerPayload(payload as PlayerLike, context);
-    return {
-      ok: true,
-      mode: "join",
-      playerId: player.id,
-      isActive: player.isActive !== false,
-      player,
-    };
-  }
-
-  throw new Error("Unerwartete Antwort vom Lobby-Server.");
-}
-
-function looksLikePlayerPayload(payload: unknown): payload is PlayerLike {
-  if (!payload || typeof payload !== "object") return false;
-  const candidate = payload as PlayerLike;
-  return typeof candidate.id === "string" && typeof candidate.name === "string";
-}
-
-/** Formatiert Spieler-Payloads aus Responses zu unserem Player-Typ inklusive Fallback-Namen. */
-function normalizePlayerPayload(player: PlayerLike, context: JoinPayloadContext, fallbackId?: string): Player {
-  const id = player.id ?? fallbackId;
-  if (!id) throw new Error("Spieler-ID fehlt in der Serverantwort.");
-  const rawName =
-    typeof player.name === "string" && player.name.trim().length > 0 ? player.name : context.playerName;
-  const cleanName = (rawName ?? "").toString().trim().toUpperCase();
-  const normalizedPlayer: Player = {
-    id,
-    name: cleanName || context.playerName,
-    lobbyId: player.lobbyId ?? context.lobbyId ?? "",
-    joinedAt: player.joinedAt ?? new Date().toISOString(),
-    ...(typeof player.isActive === "boolean" ? { isActive: player.isActive } : {}),
-  };
-  return normalizedPlayer;
-}
-
-function parseSessionId(value: unknown): string | undefined {
-  if (typeof value !== "string") return undefined;
-  const trimmed = value.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function normalizePlayerLives(value: unknown): PlayerLifeSnapshot | undefined {
-  if (!value || typeof value !== "object") return undefined;
-  const entry = value as Partial<PlayerLifeSnapshot>;
-  if (
-    typeof entry.id !== "string" ||
-    typeof entry.roundId !== "string" ||
-    typeof entry.playerId !== "string" ||
-    typeof entry.livesRemaining !== "number"
-  ) {
-    return undefined;
-  }
-  return {
-    id: entry.id,
-    roundId: entry.roundId,
-    playerId: entry.playerId,
-    livesRemaining: entry.livesRemaining,
-    updatedAt: typeof entry.updatedAt === "string" ? entry.updatedAt : new Date().toISOString(),
-    ...(typeof entry.roundNumber === "number" ? { roundNumber: entry.roundNumber } : {}),
-  };
-}
-
-function parseJoinErrorCode(value: unknown): JoinOrRejoinErrorCode | undefined {
-  if (typeof value !== "string") return undefined;
-  const upper = value.toUpperCase() as JoinOrRejoinErrorCode;
-  switch (upper) {
-    case "LOBBY_FULL":
-    case "NAME_ACTIVE":
-    case "NAME_TAKEN":
-    case "MAX_PLAYERS":
-    case "UNKNOWN":
-      return upper;
-    default:
-      return undefined;
-  }
-}
@@ -1,8 +1,9 @@
 /**
- * SSE-Utilities für Lobby-Ereignisse (z. B. Löschung einer Lobby).
+ * SSE-Utilities für Lobby-Ereignisse (z. B. Löschung einer Lobby, Beitritte, Presence-Wechsel, neue Sitzordnung).
  * Stellt einen Subscribe-Helper bereit, der optional auf eine konkrete Lobby-ID filtert und bei Eintreffen den Callback feuert.
  */
-import { DEFAULT_API_BASE_URL } from "./http";
+import { subscribeStream, whenType } from "./realtime";
+import type { Player } from "./types";
 
 export type LobbyDeletedEvent = {
   type: "LOBBY_DELETED";
@@ -14,8 +15,47 @@ export type LobbyDeletedEvent = {
   timestamp?: string;
 };
 
+export type PlayerPresenceEvent = {
+  type: "PLAYER_ACTIVE" | "PLAYER_INACTIVE";
+  lobbyId: string;
+  playerId: string;
+  playerName?: string;
+  lastSeen?: string | null;
+  timestamp?: string;
+};
+
+/** Neue Person in der Lobby (join) oder bekannte Person wieder da (rejoin). */
+export type PlayerJoinedEvent = {
+  type: "PLAYER_JOINED";
+  lobbyId: string;
+  player: Player;
+  mode: "join" | "rejoin";
+  timestamp?: string;
+};
+
+/** Person hat die Lobby verlassen; bisher nur über ausbleibende Presence-Pings (reason "timeout"). */
+export type PlayerLeftEvent = {
+  type: "PLAYER_LEFT";
+  lobbyId: string;
+  playerId: string;
+  playerName?: string;
+  reason: "timeout";
+  timestamp?: string;
+};
+
+export type SeatsUpdatedEvent = {
+  type: "SEATS_UPDATED";
+  lobbyId: string;
+  seatOrder: string[];
+  timestamp?: string;
+};
+
 export type LobbyEventCallbacks = {
   onDeleted?: (event: LobbyDeletedEvent) => void;
+  onPlayerJoined?: (event: PlayerJoinedEvent) => void;
+  onPlayerLeft?: (event: PlayerLeftEvent) => void;
+  onPresenceChanged?: (event: PlayerPresenceEvent) => void;
+  onSeatsUpdated?: (event: SeatsUpdatedEvent) => void;
   onError?: (error: Error) => void;
 };
 
@@ -24,38 +64,29 @@ export type LobbyEventSubscribeOptions = {
 };
 
 /**
- * Abonniert Lobby-bezogene SSE-Events (Thema "lobby") und ruft die Callbacks bei Löschung auf.
- * Gibt eine Cleanup-Funktion zurück, die den EventSource-Stream sauber schließt.
+ * Abonniert Lobby-bezogene Events (Thema "lobby") über den gemeinsamen Stream und ruft die Callbacks bei Löschung,
+ * Beitritten, Abgängen, Presence-Wechseln bzw. neuer Sitzordnung auf.
+ * Gibt eine Cleanup-Funktion zurück, die nur diese Callbacks abmeldet.
  */
-export function subscribeLobbyEvents(
-  { lobbyId, onDeleted, onError }: LobbyEventSubscribeOptions & LobbyEventCallbacks
-): () => void {
-  if (typeof window === "undefined" || typeof EventSource === "undefined") return () => {};
-
-  const params = new URLSearchParams();
-  if (lobbyId) params.set("lobbyId", lobbyId);
-  params.set("topic", "lobby");
-
-  const source = new EventSource(`${DEFAULT_API_BASE_URL}/events?${params.toString()}`);
-
-  const handleLobbyDeleted = (event: MessageEvent<string>) => {
-    try {
-      const payload = JSON.parse(event.data) as LobbyDeletedEvent | null;
-      if (!payload || payload.type !== "LOBBY_DELETED") return;
-      onDeleted?.(payload);
-    } catch (error) {
-      onError?.(error as Error);
-    }
-  };
-
-  source.addEventListener("lobby_deleted", handleLobbyDeleted);
-
-  source.onerror = () => {
-    onError?.(new Error("Lobby-Events unterbrochen"));
-  };
-
-  return () => {
-    source.removeEventListener("lobby_deleted", handleLobbyDeleted);
-    source.close();
-  };
+export function subscribeLobbyEvents({
+  lobbyId,
+  onDeleted,
+  onPlayerJoined,
+  onPlayerLeft,
+  onPresenceChanged,
+  onSeatsUpdated,
+  onError,
+}: LobbyEventSubscribeOptions & LobbyEventCallbacks): () => void {
+  return subscribeStream({
+    lobbyId,
+    events: {
+      lobby_deleted: whenType(["LOBBY_DELETED"], onDeleted),
+      player_joined: whenType(["PLAYER_JOINED"], onPlayerJoined),
+      player_left: whenType(["PLAYER_LEFT"], onPlayerLeft),
+      player_active: whenType(["PLAYER_ACTIVE"], onPresenceChanged),
+      player_inactive: whenType(["PLAYER_INACTIVE"], onPresenceChanged),
+      seats_updated: whenType(["SEATS_UPDATED"], onSeatsUpdated),
+    },
+    onError,
+  });
 }
@@ -0,0 +1,22 @@
+/**
+ * Spieler-API über Lobbygrenzen hinweg: Wertung und Verlauf pro Spielername.
+ * Der Server fasst Namen ohne Groß-/Kleinschreibung zusammen, daher reicht der Anzeigename als Schlüssel.
+ */
+import { endpoints } from "@schwimm/contracts";
+import { apiClient } from "./client";
+import type { HeadToHead, PlayerRating, PlayerStats } from "./types";
+
+/** Lädt die Elo-Wertung eines Spielernamens inkl. Verlauf (max. 50 Einträge, neueste zuerst). */
+export async function getPlayerRatings(name: string, options?: { limit?: number }): Promise<PlayerRating> {
+  return apiClient.call(endpoints.getPlayerRatings, { params: { name: name.trim() }, query: { limit: options?.limit || undefined } });
+}
+
+/** Lädt die Profil-Statistik eines Spielernamens (Siege, Platzierungen, Schwimmst, Lieblingslobbys, Form). */
+export async function getPlayerStats(name: string): Promise<PlayerStats> {
+  return apiClient.call(endpoints.getPlayerStats, { params: { name: name.trim() } });
+}
+
+/** Vergleicht zwei Spielernamen direkt (gemeinsame Runden, Siege, wer vorn lag, Serien). */
+export async function getHeadToHead(a: string, b: string): Promise<HeadToHead> {
+  return apiClient.call(endpoints.getHeadToHead, { query: { a: a.trim(), b: b.trim() } });
+}
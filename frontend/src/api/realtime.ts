@@ -0,0 +1,263 @@
+/**
+ * Gemeinsamer Echtzeit-Stream pro Lobby.
+ * Alle Seiten und Hooks abonnieren über diesen Manager; je Lobby bleibt genau eine Verbindung (alle Themen) offen,
+ * eingehende Events werden an die registrierten Handler verteilt und Verbindungsstatus samt Transport gemeldet.
+ * Bevorzugt wird SSE; kommt innerhalb von CONNECT_TIMEOUT_MS kein connected an (z. B. Proxy puffert text/event-stream) oder
+ * scheitert der Aufbau, schaltet der Kanal auf WebSocket und zuletzt auf Long-Polling weiter (siehe streamTransports.ts).
+ * Nach einem Abbruch liefert der Server verpasste Events anhand der Last-Event-ID nach; ist die Lücke zu groß, meldet er
+ * resync (onResync). Den Gesamtstand der Spiel-Screens hält unabhängig davon watchLobbyState (lobbies.ts) per Long-Polling aktuell.
+ */
+import { isTransportSupported, openTransport, type StreamTransport, type StreamTransportKind } from "./streamTransports";
+
+export type { StreamTransportKind } from "./streamTransports";
+
+export type StreamStatus = "connecting" | "open" | "closed";
+
+/** Handler je Eventname; die Payload ist das geparste JSON aus `data`. */
+export type StreamHandlers = Record<string, ((payload: unknown) => void) | undefined>;
+
+export type StreamSubscribeOptions = {
+  /** Ohne Lobby-ID kommen nur lobbyübergreifende Events. */
+  lobbyId?: string | null;
+  events?: StreamHandlers;
+  /** Wird sofort mit dem aktuellen Status und danach bei jedem Wechsel von Status oder Transport aufgerufen. */
+  onStatus?: (status: StreamStatus, transport: StreamTransportKind | null) => void;
+  /** Der Server konnte verpasste Events nicht nachliefern (Puffer übergelaufen oder Neustart); der Stand muss per REST neu geladen werden. */
+  onResync?: (event: ResyncRequiredEvent) => void;
+  onError?: (error: Error) => void;
+};
+
+export type ResyncRequiredEvent = {
+  type: "RESYNC_REQUIRED";
+  lobbyId: string | null;
+  lastEventId: number;
+  reason: "gap" | "restart";
+  timestamp?: string;
+};
+
+type Subscriber = Omit<StreamSubscribeOptions, "lobbyId">;
+
+type Channel = {
+  lobbyId: string | null;
+  /** Verfügbare Transporte in Wunschreihenfolge; transportIndex zeigt auf den aktuellen. */
+  transports: StreamTransportKind[];
+  transportIndex: number;
+  transport: StreamTransport | null;
+  /** Der aktuelle Transport hat schon ein connected geliefert; Abbrüche werden dann mit ihm neu versucht statt weiterzuschalten. */
+  proven: boolean;
+  status: StreamStatus;
+  /** Zuletzt an onStatus gemeldeter Transport, damit nur echte Wechsel gemeldet werden. */
+  reportedTransport: StreamTransportKind | null;
+  /** ID des zuletzt empfangenen Events; wird beim Neuöffnen als ?lastEventId= mitgegeben (den Header setzt der Browser nur bei eigenem Reconnect). */
+  lastEventId: string;
+  subscribers: Set<Subscriber>;
+  /** Eventnamen mit mindestens einem Handler; SSE legt dafür Listener an. */
+  names: Set<string>;
+  closeTimer?: ReturnType<typeof setTimeout>;
+  reopenTimer?: ReturnType<typeof setTimeout>;
+  connectTimer?: ReturnType<typeof setTimeout>;
+};
+
+/** Nach dem letzten Abmelden bleibt der Stream so lange offen, damit ein Seitenwechsel keinen Neuaufbau auslöst. */
+const CLOSE_LINGER_MS = 5000;
+/** Wartezeit, bevor ein abgebrochener Stream mit demselben Transport neu geöffnet wird. */
+const REOPEN_DELAY_MS = 5000;
+/** So lange darf ein noch nicht bewährter Transport bis zum connected-Event brauchen, bevor der nächste versucht wird. */
+const CONNECT_TIMEOUT_MS = 6000;
+const TRANSPORT_ORDER: StreamTransportKind[] = ["sse", "websocket", "polling"];
+
+const channels = new Map<string, Channel>();
+
+/**
+ * Meldet Handler am gemeinsamen Stream der Lobby an und öffnet ihn bei Bedarf.
+ * Liefert eine Cleanup-Funktion; der Stream schließt erst, wenn sich alle abgemeldet haben.
+ */
+export function subscribeStream({ lobbyId = null, ...subscriber }: StreamSubscribeOptions): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  const channel = acquireChannel(lobbyId || null);
+  channel.subscribers.add(subscriber);
+  Object.entries(subscriber.events ?? {}).forEach(([name, handler]) => {
+    if (handler) listenFor(channel, name);
+  });
+  subscriber.onStatus?.(channel.status, channel.transport?.kind ?? null);
+
+  return () => {
+    if (!channel.subscribers.delete(subscriber) || channel.subscribers.size) return;
+    channel.closeTimer = setTimeout(() => closeChannel(channel), CLOSE_LINGER_MS);
+  };
+}
+
+/** Aktueller Status des Streams einer Lobby; "closed", wenn niemand ihn abonniert hat. */
+export function getStreamStatus(lobbyId?: string | null): StreamStatus {
+  return channels.get(channelKey(lobbyId || null))?.status ?? "closed";
+}
+
+/** Transport, über den der Stream der Lobby gerade läuft; null, solange er nicht offen ist. */
+export function getStreamTransport(lobbyId?: string | null): StreamTransportKind | null {
+  const channel = channels.get(channelKey(lobbyId || null));
+  return channel?.status === "open" ? (channel.transport?.kind ?? null) : null;
+}
+
+/**
+ * Baut einen Handler, der nur Payloads mit einem der erwarteten type-Werte weiterreicht.
+ * Ohne Callback entsteht kein Handler, damit für ungenutzte Events kein Listener angelegt wird.
+ */
+export function whenType<T extends { type: string }>(types: T["type"][], callback?: (event: T) => void) {
+  if (!callback) return undefined;
+  return (payload: unknown) => {
+    const type = (payload as { type?: unknown } | null)?.type;
+    if (typeof type === "string" && (types as string[]).includes(type)) callback(payload as T);
+  };
+}
+
+function channelKey(lobbyId: string | null) {
+  return lobbyId ?? "*";
+}
+
+/** Liefert den Kanal der Lobby, legt ihn bei Bedarf an und bricht ein geplantes Schließen ab. */
+function acquireChannel(lobbyId: string | null) {
+  const key = channelKey(lobbyId);
+  let channel = channels.get(key);
+  if (!channel) {
+    channel = {
+      lobbyId,
+      transports: TRANSPORT_ORDER.filter(isTransportSupported),
+      transportIndex: 0,
+      transport: null,
+      proven: false,
+      status: "connecting",
+      reportedTransport: null,
+      lastEventId: "",
+      subscribers: new Set(),
+      names: new Set(),
+    };
+    channels.set(key, channel);
+    connect(channel);
+  }
+  if (channel.closeTimer) {
+    clearTimeout(channel.closeTimer);
+    channel.closeTimer = undefined;
+  }
+  return channel;
+}
+
+/** Öffnet den aktuellen Transport; ein noch nicht bewährter bekommt CONNECT_TIMEOUT_MS Zeit, sofern es eine Alternative gibt. */
+function connect(channel: Channel) {
+  const kind = channel.transports[channel.transportIndex];
+  channel.transport = openTransport(kind, {
+    lobbyId: channel.lobbyId,
+    lastEventId: () => channel.lastEventId,
+    names: channel.names,
+    onEvent: (name, read, id) => deliver(channel, name, read, id),
+    onDrop: (willReconnect) => handleDrop(channel, willReconnect),
+    onError: (error) => channel.subscribers.forEach((subscriber) => subscriber.onError?.(error)),
+  });
+  setStatus(channel, "connecting");
+  if (!channel.proven && hasFallback(channel)) {
+    channel.connectTimer = setTimeout(() => fallBack(channel), CONNECT_TIMEOUT_MS);
+  }
+}
+
+function hasFallback(channel: Channel) {
+  return channel.transportIndex < channel.transports.length - 1;
+}
+
+/** Verwirft den aktuellen Transport und versucht den nächsten; die Last-Event-ID bleibt, verpasste Events kommen also nach. */
+function fallBack(channel: Channel) {
+  clearTimeout(channel.connectTimer);
+  channel.connectTimer = undefined;
+  channel.transport?.close();
+  channel.transportIndex += 1;
+  connect(channel);
+}
+
+/** Verarbeitet ein Event des Transports: connected öffnet den Kanal, resync geht an onResync, alles andere an die Handler. */
+function deliver(channel: Channel, name: string, read: () => unknown, id: string) {
+  if (id) channel.lastEventId = id;
+  if (name === "connected") {
+    clearTimeout(channel.connectTimer);
+    channel.connectTimer = undefined;
+    channel.proven = true;
+    setStatus(channel, "open");
+    return;
+  }
+
+  let payload: unknown;
+  try {
+    payload = read();
+  } catch (error) {
+    if (name === "resync") payload = { type: "RESYNC_REQUIRED", lobbyId: channel.lobbyId, lastEventId: 0, reason: "gap" };
+    else {
+      channel.subscribers.forEach((subscriber) => {
+        if (subscriber.events?.[name]) subscriber.onError?.(error as Error);
+      });
+      return;
+    }
+  }
+  if (name === "resync") {
+    channel.subscribers.forEach((subscriber) => subscriber.onResync?.(payload as ResyncRequiredEvent));
+    return;
+  }
+
+  channel.subscribers.forEach((subscriber) => {
+    const handler = subscriber.events?.[name];
+    if (!handler) return;
+    try {
+      handler(payload);
+    } catch (error) {
+      subscriber.onError?.(error as Error);
+    }
+  });
+}
+
+/**
+ * Verbindung verloren. Verbindet der Transport selbst neu (EventSource), wird nur der Status gemeldet.
+ * Sonst schaltet ein noch nicht bewährter Transport weiter; ein bewährter (oder der letzte) wird nach REOPEN_DELAY_MS neu geöffnet.
+ */
+function handleDrop(channel: Channel, willReconnect: boolean) {
+  channel.subscribers.forEach((subscriber) => subscriber.onError?.(new Error("Echtzeit-Stream unterbrochen")));
+  if (willReconnect) {
+    setStatus(channel, "connecting");
+    return;
+  }
+  if (!channel.proven && hasFallback(channel)) {
+    fallBack(channel);
+    return;
+  }
+
+  clearTimeout(channel.connectTimer);
+  channel.connectTimer = undefined;
+  channel.transport?.close();
+  channel.transport = null;
+  setStatus(channel, "closed");
+  channel.reopenTimer = setTimeout(() => {
+    channel.reopenTimer = undefined;
+    if (channels.get(channelKey(channel.lobbyId)) === channel) connect(channel);
+  }, REOPEN_DELAY_MS);
+}
+
+/** Meldet einen Eventnamen beim Kanal und beim laufenden Transport an. */
+function listenFor(channel: Channel, name: string) {
+  if (channel.names.has(name)) return;
+  channel.names.add(name);
+  channel.transport?.listen(name);
+}
+
+function setStatus(channel: Channel, status: StreamStatus) {
+  const transport = channel.transport?.kind ?? null;
+  if (channel.status === status && channel.reportedTransport === transport) return;
+  channel.status = status;
+  channel.reportedTransport = transport;
+  channel.subscribers.forEach((subscriber) => subscriber.onStatus?.(status, transport));
+}
+
+function closeChannel(channel: Channel) {
+  if (channel.subscribers.size) return;
+  clearTimeout(channel.reopenTimer);
+  clearTimeout(channel.connectTimer);
+  channel.transport?.close();
+  channel.transport = null;
+  channel.status = "closed";
+  channels.delete(channelKey(channel.lobbyId));
+}
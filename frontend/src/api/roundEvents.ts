@@ -1,9 +1,18 @@
 /**
- * SSE-Client für Rundenevents (aktuell nur ROUND_FINISHED).
- * Bindet die EventSource an eine Lobby und leitet Statusänderungen an Callbacks weiter.
+ * SSE-Client für Rundenevents (ROUND_STARTED, ROUND_FINISHED, ROUND_REOPENED, LIFE_UPDATED, TABLE_UPDATED, SHOWDOWN_*, WINNER_CLAIM, LIFE_CORRECTED).
+ * Hängt sich an den gemeinsamen Stream der Lobby und leitet Statusänderungen an Callbacks weiter.
  */
-import { DEFAULT_API_BASE_URL } from "./http";
-import type { Round, Score } from "./types";
+import { subscribeStream, whenType } from "./realtime";
+import type { LifeEvent, LifeState, Round, Score, ShowdownView, TableView, WinnerClaim } from "./types";
+
+/** Neue Runde mit frischen Leben; im Tischmodus ohne Karten, die eigene Hand kommt per REST. */
+export type RoundStartedEvent = {
+  type: "ROUND_STARTED";
+  lobbyId: string;
+  roundId: string;
+  round: Round;
+  lives: LifeState[];
+};
 
 export type RoundFinishedEvent = {
   type: "ROUND_FINISHED";
@@ -11,10 +20,72 @@ export type RoundFinishedEvent = {
   roundId: string;
   round?: Round;
   scores?: Score[];
+  /** true, wenn der Server die Runde selbst beendet hat (nur noch eine Person mit Leben). */
+  automatic?: boolean;
+};
+
+/** Eine beendete Runde wurde zurückgenommen und läuft wieder (Punkt bereits abgezogen). */
+export type RoundReopenedEvent = {
+  type: "ROUND_REOPENED";
+  lobbyId: string;
+  roundId: string;
+  round: Round;
+  lives: LifeState[];
+  scores: Score[];
+  reopenedBy: string;
+};
+
+/** Leben wurden abgezogen (Showdown, Tisch oder manuell); enthält alle Leben der Runde. */
+export type LifeUpdatedEvent = {
+  type: "LIFE_UPDATED";
+  lobbyId: string;
+  roundId: string;
+  kind: LifeEvent["kind"];
+  lives: LifeState[];
+  timestamp?: string;
+};
+
+/** Hinweis auf einen neuen Tischstand; Karten werden bewusst nicht mitgesendet, die eigene Hand bringt der nächste Lobby-Stand (watchLobbyState). */
+export type TableUpdatedEvent = {
+  type: "TABLE_UPDATED";
+  lobbyId: string;
+  roundId: string;
+  phase: TableView["phase"];
+  dealNumber: number;
+  turnPlayerId: string | null;
+};
+
+/** Showdown angesagt, Meldung eingegangen oder abgebrochen bzw. ausgewertet (dann inkl. neuer Leben). */
+export type ShowdownEvent =
+  | { type: "SHOWDOWN_UPDATED"; lobbyId: string; roundId: string; showdown: ShowdownView }
+  | { type: "SHOWDOWN_RESOLVED"; lobbyId: string; roundId: string; showdown: ShowdownView; lives: LifeState[] };
+
+/** Sieg-Meldung angelegt, abgestimmt oder entschieden (bestätigt, abgelehnt, verfallen). */
+export type WinnerClaimEvent = {
+  type: "WINNER_CLAIM";
+  lobbyId: string;
+  roundId: string;
+  claim: WinnerClaim;
+};
+
+/** Korrektur eines Lebens inkl. Protokolleintrag und aktueller Leben der Runde. */
+export type LifeCorrectedEvent = {
+  type: "LIFE_CORRECTED";
+  lobbyId: string;
+  roundId: string;
+  entry: LifeEvent;
+  lives: LifeState[];
 };
 
 export type RoundEventCallbacks = {
+  onStarted?: (event: RoundStartedEvent) => void;
   onFinished?: (event: RoundFinishedEvent) => void;
+  onReopened?: (event: RoundReopenedEvent) => void;
+  onLifeUpdated?: (event: LifeUpdatedEvent) => void;
+  onTableUpdated?: (event: TableUpdatedEvent) => void;
+  onShowdown?: (event: ShowdownEvent) => void;
+  onClaim?: (event: WinnerClaimEvent) => void;
+  onLifeCorrected?: (event: LifeCorrectedEvent) => void;
   onError?: (error: Error) => void;
 };
 
@@ -23,38 +94,34 @@ export type RoundEventSubscribeOptions = {
 };
 
 /**
- * Subscribed auf Round-bezogene SSE-Events (z. B. ROUND_FINISHED) für eine Lobby.
- * Liefert eine Cleanup-Funktion, die den EventSource-Stream schließt.
+ * Subscribed auf Round-bezogene Events (z. B. ROUND_FINISHED) einer Lobby über den gemeinsamen Stream.
+ * Liefert eine Cleanup-Funktion, die nur diese Callbacks abmeldet.
  */
-export function subscribeRoundEvents(
-  { lobbyId, onFinished, onError }: RoundEventSubscribeOptions & RoundEventCallbacks
-): () => void {
-  if (typeof window === "undefined" || typeof EventSource === "undefined") return () => {};
-
-  const params = new URLSearchParams();
-  if (lobbyId) params.set("lobbyId", lobbyId);
-  params.set("topic", "round");
-
-  const source = new EventSource(`${DEFAULT_API_BASE_URL}/events?${params.toString()}`);
-
-  const handleRoundFinished = (event: MessageEvent<string>) => {
-    try {
-      const payload = JSON.parse(event.data) as RoundFinishedEvent | null;
-      if (!payload || payload.type !== "ROUND_FINISHED") return;
-      onFinished?.(payload);
-    } catch (error) {
-      onError?.(error as Error);
-    }
-  };
-
-  source.addEventListener("round_finished", handleRoundFinished);
-
-  source.onerror = () => {
-    onError?.(new Error("Round-Events unterbrochen"));
-  };
-
-  return () => {
-    source.removeEventListener("round_finished", handleRoundFinished);
-    source.close();
-  };
+export function subscribeRoundEvents({
+  lobbyId,
+  onStarted,
+  onFinished,
+  onReopened,
+  onLifeUpdated,
+  onTableUpdated,
+  onShowdown,
+  onClaim,
+  onLifeCorrected,
+  onError,
+}: RoundEventSubscribeOptions & RoundEventCallbacks): () => void {
+  return subscribeStream({
+    lobbyId,
+    events: {
+      round_started: whenType(["ROUND_STARTED"], onStarted),
+      round_finished: whenType(["ROUND_FINISHED"], onFinished),
+      round_reopened: whenType(["ROUND_REOPENED"], onReopened),
+      life_updated: whenType(["LIFE_UPDATED"], onLifeUpdated),
+      table_updated: whenType(["TABLE_UPDATED"], onTableUpdated),
+      showdown_updated: whenType(["SHOWDOWN_UPDATED"], onShowdown),
+      showdown_resolved: whenType(["SHOWDOWN_RESOLVED"], onShowdown),
+      winner_claim: whenType(["WINNER_CLAIM"], onClaim),
+      life_corrected: whenType(["LIFE_CORRECTED"], onLifeCorrected),
+    },
+    onError,
+  });
 }
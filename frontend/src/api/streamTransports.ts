@@ -0,0 +1,159 @@
+/**
+ * Übertragungswege für den gemeinsamen Echtzeit-Stream (realtime.ts).
+ * Alle drei liefern dieselben Events mit Name, Payload und ID: per SSE (/events), per WebSocket (/events/ws) für Netze,
+ * deren Proxys text/event-stream puffern, und zuletzt per Long-Polling (/events/poll).
+ */
+import { apiClient } from "./client";
+import { HttpError } from "./errors";
+import { DEFAULT_API_BASE_URL } from "./http";
+
+export type StreamTransportKind = "sse" | "websocket" | "polling";
+
+export type TransportOptions = {
+  lobbyId: string | null;
+  /** ID des zuletzt empfangenen Events; wird bei jedem (Wieder-)Aufbau neu abgefragt. */
+  lastEventId: () => string;
+  /** Eventnamen, für die SSE einen Listener braucht; WebSocket und Long-Polling liefern ohnehin alle. */
+  names: Iterable<string>;
+  /** read liefert die Payload erst bei Bedarf (SSE parst dabei JSON); wirft es, ist das Event kaputt. */
+  onEvent: (name: string, read: () => unknown, id: string) => void;
+  /** Verbindung verloren; willReconnect, wenn der Transport selbst neu verbindet (EventSource). */
+  onDrop: (willReconnect: boolean) => void;
+  /** Nachricht ohne lesbaren Umschlag (WebSocket). */
+  onError: (error: Error) => void;
+};
+
+export type StreamTransport = {
+  kind: StreamTransportKind;
+  /** Meldet einen weiteren Eventnamen an (nur bei SSE wirksam). */
+  listen: (name: string) => void;
+  close: () => void;
+};
+
+/** Nachricht von /events/ws bzw. Eintrag von /events/poll; entspricht einem SSE-Event. */
+type EventEnvelope = { id: number | null; event: string; data: unknown };
+
+type LongPollResponse = { events: EventEnvelope[]; lastEventId: number | null };
+
+/** Länger als der Server eine Long-Poll-Anfrage hält (25 s), damit nicht der Client zuerst aufgibt. */
+const LONG_POLL_TIMEOUT_MS = 35000;
+
+/** Ob der Browser den Transport kennt; Long-Polling geht immer. */
+export function isTransportSupported(kind: StreamTransportKind) {
+  if (kind === "sse") return typeof EventSource !== "undefined";
+  if (kind === "websocket") return typeof WebSocket !== "undefined";
+  return true;
+}
+
+export function openTransport(kind: StreamTransportKind, options: TransportOptions): StreamTransport {
+  if (kind === "sse") return openEventSource(options);
+  if (kind === "websocket") return openWebSocket(options);
+  return openLongPoll(options);
+}
+
+function streamUrl(path: string, lobbyId: string | null, lastEventId: string) {
+  const params = new URLSearchParams();
+  if (lobbyId) params.set("lobbyId", lobbyId);
+  if (lastEventId) params.set("lastEventId", lastEventId);
+  const query = params.toString();
+  return `${DEFAULT_API_BASE_URL}${path}${query ? `?${query}` : ""}`;
+}
+
+function envelopeId(envelope: { id?: number | null; lastEventId?: number | null }) {
+  const id = envelope.id ?? envelope.lastEventId;
+  return id ? String(id) : "";
+}
+
+/** SSE ohne topic, also alle Themen der Lobby; Reconnects samt Last-Event-ID-Header übernimmt der Browser. */
+function openEventSource({ lobbyId, lastEventId, names, onEvent, onDrop }: TransportOptions): StreamTransport {
+  const source = new EventSource(streamUrl("/events", lobbyId, lastEventId()));
+  const listening = new Set<string>();
+  const listen = (name: string) => {
+    if (listening.has(name)) return;
+    listening.add(name);
+    source.addEventListener(name, (event: MessageEvent<string>) => onEvent(name, () => JSON.parse(event.data), event.lastEventId));
+  };
+  ["connected", "resync", ...names].forEach(listen);
+
+  source.onerror = () => {
+    const willReconnect = source.readyState !== EventSource.CLOSED;
+    if (!willReconnect) source.close();
+    onDrop(willReconnect);
+  };
+
+  return { kind: "sse", listen, close: () => source.close() };
+}
+
+/** WebSocket mit denselben Query-Parametern; nach einem Abbruch verbindet realtime.ts neu (mit ?lastEventId=). */
+function openWebSocket({ lobbyId, lastEventId, onEvent, onDrop, onError }: TransportOptions): StreamTransport {
+  const url = new URL(streamUrl("/events/ws", lobbyId, lastEventId()), window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  const socket = new WebSocket(url);
+  let closed = false;
+
+  socket.onmessage = (message: MessageEvent) => {
+    let envelope: EventEnvelope;
+    try {
+      envelope = JSON.parse(String(message.data)) as EventEnvelope;
+    } catch (error) {
+      onError(error as Error);
+      return;
+    }
+    onEvent(envelope.event, () => envelope.data, envelopeId(envelope));
+  };
+
+  // error kommt immer zusammen mit close; gemeldet wird nur einmal.
+  const drop = () => {
+    if (closed) return;
+    closed = true;
+    onDrop(false);
+  };
+  socket.onerror = drop;
+  socket.onclose = drop;
+
+  return {
+    kind: "websocket",
+    listen: () => {},
+    close: () => {
+      closed = true;
+      socket.close();
+    },
+  };
+}
+
+/**
+ * Long-Polling: jede Antwort bringt die Events seit der letzten ID, danach folgt sofort die nächste Anfrage.
+ * Die erste erfolgreiche Antwort gilt als connected (ohne bekannte ID liefert der Server dabei den Startpunkt).
+ */
+function openLongPoll({ lobbyId, lastEventId, onEvent, onDrop }: TransportOptions): StreamTransport {
+  const controller = new AbortController();
+
+  const run = async () => {
+    let connected = false;
+    while (!controller.signal.aborted) {
+      let body: LongPollResponse;
+      try {
+        const res = await apiClient.send("GET", "/events/poll", {
+          query: { lobbyId, lastEventId: lastEventId() },
+          signal: controller.signal,
+          timeoutMs: LONG_POLL_TIMEOUT_MS,
+          retry: false,
+        });
+        if (!res.ok) throw await HttpError.fromResponse(res);
+        body = (await res.json()) as LongPollResponse;
+      } catch {
+        if (!controller.signal.aborted) onDrop(false);
+        return;
+      }
+      if (controller.signal.aborted) return;
+      if (!connected) {
+        connected = true;
+        onEvent("connected", () => ({ ok: true, lobbyId }), body.events.length ? "" : envelopeId(body));
+      }
+      body.events.forEach((envelope) => onEvent(envelope.event, () => envelope.data, envelopeId(envelope)));
+    }
+  };
+  void run();
+
+  return { kind: "polling", listen: () => {}, close: () => controller.abort() };
+}
@@ -1,30 +1,31 @@
 /**
  * Zentrale Typdefinitionen für Lobby/Player/Round.
- * Diese werden in API-Modulen und UI-Komponenten gemeinsam verwendet.
+ * Die Typen stammen aus @schwimm/contracts und werden dort aus denselben Schemas abgeleitet, mit denen der Server Requests
+ * und das Frontend Antworten prüft; hier nur re-exportiert, damit API-Module und UI-Komponenten weiter aus "./types" importieren.
  */
-export type Lobby = { id: string; name: string; createdAt: string; status: "open" | "active" | "closed" };
-export type Player = { id: string; name: string; lobbyId: string; joinedAt: string; isActive?: boolean; lastSeen?: string | null };
-export type Quote = { id: string; text: string; createdAt: string };
-
-export type Round = {
-  id: string;
-  lobbyId: string;
-  number: number;
-  state: "running" | "finished";
-  winnerPlayerId?: string | null;
-  createdAt: string;
-  endedAt?: string | null;
-};
-
-export type LifeState = {
-  id: string;
-  roundId: string;
-  playerId: string;
-  livesRemaining: number;
-  updatedAt: string;
-};
-
-export type Score = {
-  playerId: string;
-  pointsTotal: number;
-};
+export type {
+  Card,
+  CardRank,
+  CardSuit,
+  HandEvaluation,
+  HeadToHead,
+  LifeEvent,
+  LifeState,
+  Lobby,
+  LobbyState,
+  Player,
+  PlayerRating,
+  PlayerStats,
+  Quote,
+  RatingHistoryEntry,
+  Round,
+  RoundHistoryEntry,
+  RoundHistoryPage,
+  RoundMode,
+  Score,
+  ShowdownView,
+  TableAction,
+  TableResult,
+  TableView,
+  WinnerClaim,
+} from "@schwimm/contracts";
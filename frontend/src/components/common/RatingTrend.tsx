@@ -0,0 +1,37 @@
+/**
+ * RatingTrend: Elo-Wertung im Teletext-Stil mit Trendpfeil der letzten gewerteten Runde.
+ * Genutzt in der Spielerliste und in beiden Ranglisten-Ansichten.
+ */
+import clsx from "clsx";
+
+type Props = {
+  rating?: number;
+  delta?: number | null;
+  className?: string;
+};
+
+/** Zeigt Wertung plus ▲/▼/► (grün/rot/grau); ohne Wertung wird nichts gerendert. */
+export default function RatingTrend({ rating, delta, className }: Props) {
+  if (typeof rating !== "number") return null;
+  const direction = !delta ? "flat" : delta > 0 ? "up" : "down";
+  const arrow = direction === "up" ? "▲" : direction === "down" ? "▼" : "►";
+  const label =
+    direction === "flat" ? "unverändert" : `${delta! > 0 ? "+" : ""}${delta} in der letzten Runde`;
+
+  return (
+    <span className={clsx("inline-flex items-baseline gap-1 tabular-nums", className)} title={`Elo ${rating} (${label})`}>
+      <span>{rating}</span>
+      <span
+        aria-hidden="true"
+        className={clsx(
+          direction === "up" && "text-[var(--tt-success,#00ff00)]",
+          direction === "down" && "text-[var(--tt-danger)]",
+          direction === "flat" && "text-[var(--tt-text-muted)]"
+        )}
+      >
+        {arrow}
+      </span>
+      <span className="sr-only">{`Elo, ${label}`}</span>
+    </span>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Digitaler Kartentisch (Schwimmen 31) im Teletext-Stil.
+ * Zeigt eigene Hand, offene Mitte und Zugstatus; Tauschen per Tipp auf Hand- und Mittelkarte, danach Aufdecken mit Verlierern.
+ */
+import { useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import type { Player, TableAction, TableView } from "../../api";
+import TTButton from "../common/ui/TTButton";
+import PlayingCard, { formatHandValue } from "./PlayingCard";
+
+type Props = {
+  table: TableView;
+  players: Player[];
+  currentPlayerId?: string;
+  busy?: boolean;
+  disabled?: boolean;
+  onAction: (move: { action: TableAction; handIndex?: number; middleIndex?: number }) => void;
+  onDealNext: () => void;
+};
+
+const REASON_LABEL: Record<NonNullable<TableView["result"]>["reason"], string> = {
+  knock: "Geklopft",
+  "31": "Einunddreißig!",
+  feuer: "Feuer!",
+  deck_empty: "Stapel leer",
+};
+
+/** Kartentisch mit Zugauswahl; Aktionen werden an den Server delegiert, der Zustand kommt immer aus props.table. */
+export default function CardTable({ table, players, currentPlayerId, busy, disabled, onAction, onDealNext }: Props) {
+  const [selectedHand, setSelectedHand] = useState<number | null>(null);
+  const nameById = useMemo(() => new Map(players.map((p) => [p.id, p.name])), [players]);
+  const nameOf = (playerId: string | null) => (playerId ? nameById.get(playerId) ?? "?" : "-");
+
+  const isSeated = !!currentPlayerId && table.seats.some((seat) => seat.playerId === currentPlayerId);
+  const myTurn = table.phase === "playing" && !!currentPlayerId && table.turnPlayerId === currentPlayerId;
+  const canAct = myTurn && !busy && !disabled;
+
+  // Auswahl zurücksetzen, sobald sich der Tisch ändert (neuer Zug oder neues Spiel).
+  useEffect(() => {
+    setSelectedHand(null);
+  }, [table.updatedAt, table.dealNumber]);
+
+  const handleMiddleClick = (middleIndex: number) => {
+    if (!canAct || selectedHand === null) return;
+    onAction({ action: "swap", handIndex: selectedHand, middleIndex });
+  };
+
+  if (table.phase === "showdown" && table.result) {
+    const result = table.result;
+    return (
+      <div className="flex flex-col gap-3">
+        <p className="tt-text text-sm uppercase tracking-[0.2em] text-[var(--tt-secondary)]">
+          {`Spiel ${table.dealNumber} aufgedeckt - ${REASON_LABEL[result.reason]}`}
+        </p>
+        <ul className="flex flex-col gap-2">
+          {table.seats.map(({ playerId }) => {
+            const isLoser = result.losers.includes(playerId);
+            return (
+              <li key={playerId} className="flex flex-wrap items-center gap-3">
+                <span
+                  className={clsx(
+                    "tt-text w-28 truncate text-sm font-black uppercase",
+                    isLoser ? "text-[var(--tt-danger)]" : "text-white"
+                  )}
+                >
+                  {nameOf(playerId)}
+                </span>
+                <div className="cardtable-row">
+                  {(result.hands[playerId] ?? []).map((card, idx) => (
+                    <PlayingCard key={`${playerId}-${idx}`} card={card} small />
+                  ))}
+                </div>
+                <span className="tt-text tabular-nums text-sm">{formatHandValue(result.values[playerId])}</span>
+                {isLoser && <span className="tt-text text-xs font-black uppercase text-[var(--tt-danger)]">-1 Leben</span>}
+              </li>
+            );
+          })}
+        </ul>
+        <TTButton
+          variant="primary"
+          className="w-full justify-center sm:w-auto"
+          onClick={onDealNext}
+          busy={busy}
+          disabled={busy || disabled}
+        >
+          Nächstes Spiel geben
+        </TTButton>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="tt-text text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]" aria-live="polite">
+        {myTurn ? "Du bist dran" : `Am Zug: ${nameOf(table.turnPlayerId)}`}
+        {table.knockedBy ? ` - ${nameOf(table.knockedBy)} hat geklopft` : ""}
+      </p>
+
+      <div>
+        <p className="tt-text mb-2 text-xs uppercase tracking-[0.2em] text-[var(--tt-secondary)]">Mitte</p>
+        <div className="cardtable-row">
+          {table.middle.map((card, idx) => (
+            <PlayingCard
+              key={`middle-${idx}`}
+              card={card}
+              onClick={canAct && selectedHand !== null ? () => handleMiddleClick(idx) : undefined}
+            />
+          ))}
+        </div>
+      </div>
+
+      {isSeated && table.hand ? (
+        <div>
+          <p className="tt-text mb-2 text-xs uppercase tracking-[0.2em] text-[var(--tt-secondary)]">Deine Hand</p>
+          <div className="cardtable-row">
+            {table.hand.map((card, idx) => (
+              <PlayingCard
+                key={`hand-${idx}`}
+                card={card}
+                selected={selectedHand === idx}
+                onClick={canAct ? () => setSelectedHand((prev) => (prev === idx ? null : idx)) : undefined}
+              />
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="tt-text text-sm text-[var(--tt-text-muted)]">Du sitzt in diesem Spiel nicht mit am Tisch.</p>
+      )}
+
+      {isSeated && (
+        <div className="flex flex-wrap gap-2">
+          <TTButton variant="secondary" onClick={() => onAction({ action: "swap_all" })} disabled={!canAct}>
+            Alle tauschen
+          </TTButton>
+          <TTButton variant="ghost" onClick={() => onAction({ action: "pass" })} disabled={!canAct}>
+            Schieben
+          </TTButton>
+          <TTButton
+            variant="danger"
+            onClick={() => onAction({ action: "knock" })}
+            disabled={!canAct || !!table.knockedBy}
+          >
+            Klopfen
+          </TTButton>
+        </div>
+      )}
+      {canAct && (
+        <p className="tt-text text-xs text-[var(--tt-text-muted)]">
+          {selectedHand === null ? "Tippe eine Handkarte an, um sie zu tauschen." : "Jetzt eine Karte aus der Mitte wählen."}
+        </p>
+      )}
+    </div>
+  );
+}
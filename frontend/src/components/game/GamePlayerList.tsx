@@ -1,12 +1,18 @@
 /**
  * Spieler-/Score-Liste im Teletext-Stil.
- * Sortiert Spieler nach Punkten/Beitritt, markiert den eigenen Eintrag und zeigt optional Pixel-Feuerwerk beim Leader.
+ * Sortiert Spieler nach Sitzordnung (sonst Punkten/Beitritt), markiert den eigenen Eintrag, Geber:in und abwesende Spieler und zeigt optional Pixel-Feuerwerk beim Leader.
+ * Liefern die Scores eine Elo-Wertung mit, steht sie samt Trendpfeil hinter dem Namen; Namen verlinken aufs Spielerprofil.
+ * Mit onReorder lässt sich die Sitzordnung per Drag & Drop ändern.
+ * Im readOnly-Modus (Archivansicht) entfallen Drag & Drop und Anwesenheit; mit lives zeigt die rechte Spalte Leben statt Punkte.
  */
-import { useMemo, type CSSProperties } from "react";
+import { useMemo, useState, type CSSProperties, type DragEvent } from "react";
+import { Link } from "react-router-dom";
 import clsx from "clsx";
 import { Player, Score } from "../../api";
 import { loadSession } from "../../utils/session";
+import { playerPath } from "../../utils/paths";
 import { PixelFireworkRing } from "../common/animations/PixelFirework";
+import RatingTrend from "../common/RatingTrend";
 import { usePixelFirework } from "../../hooks/usePixelFirework";
 import "../../styles/components/player-list.css";
 
@@ -18,6 +24,12 @@ type Props = {
   currentPlayerId?: string;
   currentPlayerName?: string;
   leaderCelebrationKey?: number;
+  seatOrder?: string[];
+  dealerPlayerId?: string | null;
+  onReorder?: (order: string[]) => void;
+  readOnly?: boolean;
+  lives?: Record<string, number>; // playerId -> Leben; ersetzt die Punkte in der rechten Spalte
+  leaderPlayerId?: string | null; // überschreibt die Führung nach Punkten (z. B. Gewinner:in einer alten Runde)
 };
 
 const FIREWORKS_ENABLED = (import.meta.env.VITE_ENABLE_PLAYERLIST_FIREWORKS ?? "true") !== "false";
@@ -35,13 +47,23 @@ export default function GamePlayerList({
   currentPlayerId,
   currentPlayerName,
   leaderCelebrationKey,
+  seatOrder,
+  dealerPlayerId,
+  onReorder: onReorderProp,
+  readOnly,
+  lives,
+  leaderPlayerId,
 }: Props) {
+  const onReorder = readOnly ? undefined : onReorderProp;
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
   const { prefersReducedMotion } = usePixelFirework();
   const canRenderFirework = FIREWORKS_ENABLED;
   const sessionSeed = useMemo(() => loadSession(), []);
   const myPlayerId = currentPlayerId ?? sessionSeed?.playerId ?? "";
   const myPlayerName = (currentPlayerName ?? sessionSeed?.playerName ?? "").toUpperCase();
   const scoreLookup = useMemo(() => {
+    if (lives) return new Map(Object.entries(lives));
     const map = new Map<string, number>();
     scores.forEach((score) => {
       if (!score || typeof score.playerId !== "string") return;
@@ -49,9 +71,13 @@ export default function GamePlayerList({
       map.set(score.playerId, normalized);
     });
     return map;
-  }, [scores]); // Performance: Score-Map vermeidet O(n^2)-find bei jedem Render.
+  }, [scores, lives]); // Performance: Score-Map vermeidet O(n^2)-find bei jedem Render.
+  const ratingLookup = useMemo(
+    () => new Map(scores.filter((score) => typeof score?.rating === "number").map((score) => [score.playerId, score])),
+    [scores]
+  );
 
-  const playersSorted = useMemo(() => {
+  const playersByScore = useMemo(() => {
     const sorted = [...players];
     sorted.sort((a, b) => {
       const scoreDiff = (scoreLookup.get(b.id) ?? 0) - (scoreLookup.get(a.id) ?? 0);
@@ -65,13 +91,34 @@ export default function GamePlayerList({
     return sorted;
   }, [players, scoreLookup]);
 
+  // Mit Sitzordnung zeigt die Liste die Reihenfolge am Tisch; Spieler ohne Platz (gerade beigetreten) hängen hinten an.
+  const playersSorted = useMemo(() => {
+    if (!seatOrder?.length) return playersByScore;
+    const seatIndex = new Map(seatOrder.map((id, idx) => [id, idx]));
+    return [...playersByScore].sort(
+      (a, b) => (seatIndex.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (seatIndex.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+    );
+  }, [playersByScore, seatOrder]);
+
   // Bestimmt die/das führende:n Spieler:in für das Teletext-Feuerwerk (nur visuelle Markierung, keine Logikänderung).
-  const leaderId = playersSorted[0]?.id ?? null;
+  const leaderId = leaderPlayerId !== undefined ? leaderPlayerId : playersByScore[0]?.id ?? null;
   const shouldScroll = playersSorted.length > maxVisible;
   const overflowCount = shouldScroll ? playersSorted.length - maxVisible : 0;
   const scrollVars: PlayerListVars = { "--playerlist-visible": String(maxVisible) };
   const leaderFireKey = leaderCelebrationKey ?? 0;
 
+  /** Verschiebt den gezogenen Eintrag vor das Ziel und meldet die komplette neue Reihenfolge. */
+  const handleDrop = (event: DragEvent<HTMLDivElement>, targetId: string) => {
+    event.preventDefault();
+    const sourceId = dragId;
+    setDragId(null);
+    setDropTargetId(null);
+    if (!onReorder || !sourceId || sourceId === targetId) return;
+    const order = playersSorted.map((p) => p.id).filter((id) => id !== sourceId);
+    order.splice(order.indexOf(targetId), 0, sourceId);
+    onReorder(order);
+  };
+
   return (
     <div className={clsx("w-full", className)}>
       <div className="border-4 border-[var(--tt-primary,#00ffff)] bg-[var(--tt-panel,#0c0c0c)] p-2 sm:p-3 shadow-[0_6px_0_rgba(0,0,0,0.85)]">
@@ -87,15 +134,44 @@ export default function GamePlayerList({
             const displayName = p.name.toUpperCase();
             const isSelf =
               (myPlayerId && p.id === myPlayerId) || (myPlayerName && displayName.localeCompare(myPlayerName, undefined, { sensitivity: "accent" }) === 0);
-            const isLeader = leaderId ? p.id === leaderId : i === 0;
+            const isLeader = leaderId ? p.id === leaderId : !readOnly && i === 0;
+            const isAway = !readOnly && p.isActive === false;
+            const rating = ratingLookup.get(p.id);
 
             return (
               <div
                 key={p.id}
                 className={clsx(
-                  "playerlist-item relative overflow-visible border-4 border-[var(--tt-yellow,#faff00)] bg-black shadow-[0_6px_0_rgba(0,0,0,0.9)] transition-shadow duration-150"
+                  "playerlist-item relative overflow-visible border-4 border-[var(--tt-yellow,#faff00)] bg-black shadow-[0_6px_0_rgba(0,0,0,0.9)] transition-shadow duration-150",
+                  isAway && "playerlist-item--away",
+                  onReorder && "playerlist-item--draggable",
+                  dragId === p.id && "playerlist-item--dragging",
+                  dropTargetId === p.id && dragId !== p.id && "playerlist-item--drop-target"
                 )}
                 aria-current={isSelf ? "true" : undefined}
+                draggable={Boolean(onReorder)}
+                onDragStart={
+                  onReorder
+                    ? (event) => {
+                        event.dataTransfer.effectAllowed = "move";
+                        event.dataTransfer.setData("text/plain", p.id);
+                        setDragId(p.id);
+                      }
+                    : undefined
+                }
+                onDragOver={
+                  onReorder
+                    ? (event) => {
+                        event.preventDefault();
+                        setDropTargetId(p.id);
+                      }
+                    : undefined
+                }
+                onDragEnd={() => {
+                  setDragId(null);
+                  setDropTargetId(null);
+                }}
+                onDrop={onReorder ? (event) => handleDrop(event, p.id) : undefined}
               >
                 <div className="grid h-full grid-cols-[auto_1fr_auto] divide-x-[4px] divide-black">
                   {/* Linke Index-Leiste (blau, Teletext-Pfeil) */}
@@ -125,12 +201,39 @@ export default function GamePlayerList({
                       isSelf && "bg-[var(--tt-panel,#0c0c0c)] font-semibold text-white"
                     )}
                   >
-                    {displayName}
+                    <Link
+                      to={playerPath(p.name)}
+                      draggable={false}
+                      className="truncate underline-offset-4 hover:underline focus-visible:underline"
+                      aria-label={`Profil von ${displayName}`}
+                    >
+                      {displayName}
+                    </Link>
+                    {rating && (
+                      <RatingTrend
+                        rating={rating.rating}
+                        delta={rating.ratingDelta}
+                        className="ml-2 shrink-0 text-xs text-[var(--tt-text-muted)]"
+                      />
+                    )}
+                    {dealerPlayerId === p.id && (
+                      <span className="playerlist-dealer ml-2 shrink-0">
+                        gibt
+                        <span className="sr-only"> (Geber:in dieser Runde)</span>
+                      </span>
+                    )}
+                    {isAway && (
+                      <span className="ml-2 shrink-0 text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+                        weg
+                        <span className="sr-only"> (abwesend)</span>
+                      </span>
+                    )}
                   </div>
 
                   <div className="bg-black text-[#b6ff00] tt-text px-3 py-2 min-w-[58px] sm:min-w-[66px] flex h-full items-center justify-center text-base sm:text-lg leading-tight shadow-[inset_0_0_0_2px_rgba(0,0,0,0.65)]">
                     <span className="tabular-nums whitespace-nowrap">
                       {String(playerScore).padStart(2, "0")}
+                      {lives && <span className="sr-only"> Leben</span>}
                     </span>
                   </div>
                 </div>
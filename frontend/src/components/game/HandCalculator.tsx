@@ -0,0 +1,112 @@
+/**
+ * Handrechner: drei Karten antippen und den Schwimmen-Wert vom Server berechnen lassen.
+ * Gedacht für Runden mit echten Karten; im Showdown dient er zusätzlich zum Melden der eigenen Hand (onSubmit).
+ */
+import { useEffect, useState } from "react";
+import { evaluateHand, type Card, type CardRank, type CardSuit, type HandEvaluation } from "../../api";
+import TTButton from "../common/ui/TTButton";
+import PlayingCard, { formatHandValue } from "./PlayingCard";
+
+const SUITS: CardSuit[] = ["kreuz", "pik", "herz", "karo"];
+const RANKS: CardRank[] = ["7", "8", "9", "10", "B", "D", "K", "A"];
+const HAND_SIZE = 3;
+
+type Props = {
+  onSubmit?: (cards: Card[], evaluation: HandEvaluation) => void;
+  submitLabel?: string;
+  busy?: boolean;
+};
+
+/** Kartenauswahl (max. drei) mit Ergebnisanzeige; eine vierte Karte ersetzt die zuerst gewählte. */
+export default function HandCalculator({ onSubmit, submitLabel = "Hand melden", busy }: Props) {
+  const [selected, setSelected] = useState<Card[]>([]);
+  const [evaluation, setEvaluation] = useState<HandEvaluation | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEvaluation(null);
+    if (selected.length !== HAND_SIZE) return;
+    let alive = true;
+    evaluateHand(selected)
+      .then((result) => {
+        if (!alive) return;
+        setEvaluation(result);
+        setErr(null);
+      })
+      .catch((e: any) => {
+        if (alive) setErr(e?.message ?? "Hand konnte nicht bewertet werden");
+      });
+    return () => {
+      alive = false;
+    };
+  }, [selected]);
+
+  const isSelected = (card: Card) => selected.some((c) => c.suit === card.suit && c.rank === card.rank);
+
+  const toggle = (card: Card) => {
+    setSelected((prev) => {
+      if (prev.some((c) => c.suit === card.suit && c.rank === card.rank)) {
+        return prev.filter((c) => !(c.suit === card.suit && c.rank === card.rank));
+      }
+      const next = [...prev, card];
+      return next.length > HAND_SIZE ? next.slice(next.length - HAND_SIZE) : next;
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {SUITS.map((suit) => (
+        <div key={suit} className="cardtable-row">
+          {RANKS.map((rank) => {
+            const card = { suit, rank };
+            return (
+              <PlayingCard
+                key={`${suit}-${rank}`}
+                card={card}
+                small
+                selected={isSelected(card)}
+                onClick={() => toggle(card)}
+              />
+            );
+          })}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="tt-text m-0 text-sm uppercase tracking-[0.2em]" aria-live="polite">
+          {selected.length < HAND_SIZE ? (
+            <span className="text-[var(--tt-text-muted)]">{`Noch ${HAND_SIZE - selected.length} Karte(n) wählen`}</span>
+          ) : evaluation ? (
+            <>
+              <span className="text-3xl font-black tabular-nums text-white">{formatHandValue(evaluation.value)}</span>
+              <span className="ml-3 text-[var(--tt-secondary)]">{evaluation.label}</span>
+            </>
+          ) : (
+            <span className="text-[var(--tt-text-muted)]">Rechne ...</span>
+          )}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <TTButton variant="ghost" onClick={() => setSelected([])} disabled={!selected.length || busy}>
+            Zurücksetzen
+          </TTButton>
+          {onSubmit && (
+            <TTButton
+              variant="primary"
+              onClick={() => evaluation && onSubmit(selected, evaluation)}
+              disabled={!evaluation || busy}
+              busy={busy}
+            >
+              {submitLabel}
+            </TTButton>
+          )}
+        </div>
+      </div>
+
+      {err && (
+        <p className="tt-text text-sm font-black text-[var(--tt-danger)]" aria-live="assertive">
+          {err}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 /**
  * LifeSticks: Teletext-Streichholz-Anzeige für verbleibende Leben.
- * Verwaltet lokale Klick-States, damit das Frontend sofort Feedback gibt, und synchronisiert nur bei Rundenwechseln mit dem Server.
+ * Verwaltet lokale Klick-States, damit das Frontend sofort Feedback gibt, und übernimmt serverseitige Abzüge (Showdown, Tisch).
+ * Im Korrekturmodus lassen sich gelöschte Streichhölzer antippen; angezündet werden sie erst, wenn der Server mehr Leben meldet.
+ * readOnly (Archivansicht alter Runden) zeigt nur den Stand aus lives, ohne Buttons und lokale Klick-States.
  */
 import { useEffect, useMemo, useRef, useState } from "react";
 import torchOn from "../../assets/ui/torch_lit.png";
 import torchOff from "../../assets/ui/torch_off.png";
 import clsx from "clsx";
+import "../../styles/components/life-sticks.css";
 
 type Props = {
   lives: number;       // echte Leben 1–4 (4 = Start, 1 = Schwimmst aktiv)
@@ -13,6 +16,9 @@ type Props = {
   disabled?: boolean;
   roundId?: string;     // bei neuer Runde resetten
   className?: string;
+  correcting?: boolean; // Korrekturmodus: nur gelöschte Streichhölzer sind klickbar
+  onCorrect?: () => void;
+  readOnly?: boolean;   // reine Anzeige, z. B. für beendete Runden
 };
 
 /**
@@ -22,12 +28,13 @@ type Props = {
  * - Klick schaltet GENAU das betroffene Streichholz aus (einmalig pro Runde).
  * - Lokale Torch-Positionen bleiben stabil und werden NICHT bei jedem 'lives'-Poll neu verteilt.
  * - Reset NUR bei Rundenwechsel (roundId) ODER wenn der Server die Leben ERHÖHT (z. B. Rundenstart).
+ * - Zieht der Server Leben ab, gehen die rechten noch brennenden Streichhölzer aus.
  *
  * Ableitung:
  *   #brennend = lives - 1  (0..3)
  *   nextLives = (#brennend nach Klick) + 1
  */
-export default function LifeSticks({ lives, onChange, disabled, roundId, className }: Props) {
+export default function LifeSticks({ lives, onChange, disabled, roundId, className, correcting, onCorrect, readOnly }: Props) {
   // initial aus Prop ableiten (nur für erste Mount oder Reset)
   const initial = useMemo(() => {
     const litCount = clamp(lives - 1, 0, 3);
@@ -41,7 +48,8 @@ export default function LifeSticks({ lives, onChange, disabled, roundId, classNa
   // Reset-Logik:
   // - Wenn die Runde wechselt → mit neuen Server-Leben initialisieren
   // - Wenn die Leben vom Server STEIGEN (z. B. neue Runde) → initialisieren
-  // - Wenn die Leben gleich bleiben oder fallen → lokale Klick-States behalten
+  // - Wenn die Leben fallen → nur so viele Streichhölzer löschen, wie lokal noch zu viel brennen
+  // - Wenn die Leben gleich bleiben → lokale Klick-States behalten
   useEffect(() => {
     const prevRound = prevRoundRef.current;
     const prevLives = prevLivesRef.current;
@@ -53,6 +61,15 @@ export default function LifeSticks({ lives, onChange, disabled, roundId, classNa
       const litCount = clamp(lives - 1, 0, 3);
       const next = [0, 1, 2].map((i) => i < litCount);
       setState(next);
+    } else if (lives < prevLives) {
+      setState((prev) => {
+        const targetLit = clamp(lives - 1, 0, 3);
+        const next = [...prev];
+        for (let i = next.length - 1; i >= 0 && next.filter(Boolean).length > targetLit; i--) {
+          next[i] = false;
+        }
+        return next;
+      });
     }
 
     prevRoundRef.current = roundId;
@@ -64,6 +81,10 @@ export default function LifeSticks({ lives, onChange, disabled, roundId, classNa
    * Klicks sind nur möglich, solange der Stick noch brennt und nicht disabled ist.
    */
   function handleClick(i: number) {
+    if (correcting) {
+      if (!state[i]) onCorrect?.();
+      return;
+    }
     if (disabled) return;
     if (!state[i]) return; // schon aus → nicht klickbar
 
@@ -76,24 +97,46 @@ export default function LifeSticks({ lives, onChange, disabled, roundId, classNa
     onChange?.(nextLives);
   }
 
+  if (readOnly) {
+    return (
+      <div className={clsx("w-full flex justify-center gap-8", className)} role="img" aria-label={`${lives} Leben`}>
+        {initial.map((isLit, i) => (
+          <span
+            key={i}
+            className="relative inline-flex h-32 w-20 sm:h-36 sm:w-24 flex-shrink-0 select-none items-center justify-center opacity-80"
+          >
+            <img
+              src={isLit ? torchOn : torchOff}
+              alt=""
+              className="max-h-full max-w-full object-contain pointer-events-none drop-shadow-[0_6px_0_rgba(0,0,0,0.9)]"
+              draggable={false}
+            />
+          </span>
+        ))}
+      </div>
+    );
+  }
+
   return (
     <div className={clsx("w-full flex justify-center gap-8", className)}>
       {[0, 1, 2].map((i) => {
         const isLit = state[i];
+        const clickable = correcting ? !isLit : !disabled && isLit;
         return (
           <button
             key={i}
             type="button"
             onClick={() => handleClick(i)}
-            disabled={disabled || !isLit}
+            disabled={!clickable}
             className={clsx(
               "relative inline-flex items-center justify-center",
               "h-32 w-20 sm:h-36 sm:w-24 flex-shrink-0 select-none",
-              disabled || !isLit
+              !clickable
                 ? "opacity-80 cursor-default"
-                : "cursor-pointer active:translate-y-[1px] transition-transform"
+                : "cursor-pointer active:translate-y-[1px] transition-transform",
+              correcting && !isLit && "lifesticks-correctable"
             )}
-            aria-label={`Streichholz ${i + 1} (${isLit ? "an" : "aus"})`}
+            aria-label={`Streichholz ${i + 1} (${isLit ? "an" : correcting ? "aus - antippen zum Wieder-Anzünden" : "aus"})`}
           >
             <img
               src={isLit ? torchOn : torchOff}
@@ -0,0 +1,49 @@
+/**
+ * Einzelne Spielkarte im Teletext-Stil (Rang + Farbsymbol, Herz/Karo rot).
+ * Wird vom Kartentisch und vom Handrechner genutzt; mit onClick als Button, sonst rein darstellend.
+ */
+import clsx from "clsx";
+import type { Card } from "../../api";
+import "../../styles/components/card-table.css";
+
+type Props = {
+  card: Card;
+  small?: boolean;
+  selected?: boolean;
+  disabled?: boolean;
+  onClick?: () => void;
+};
+
+export const SUIT_SYMBOL: Record<Card["suit"], string> = { kreuz: "♣", pik: "♠", herz: "♥", karo: "♦" };
+export const SUIT_LABEL: Record<Card["suit"], string> = { kreuz: "Kreuz", pik: "Pik", herz: "Herz", karo: "Karo" };
+
+/** Kartenfläche; selected hebt die Karte an (z. B. gewählte Handkarte beim Tauschen). */
+export default function PlayingCard({ card, small, selected, disabled, onClick }: Props) {
+  const className = clsx(
+    "cardtable-card",
+    small && "cardtable-card--small",
+    (card.suit === "herz" || card.suit === "karo") && "cardtable-card--red",
+    selected && "cardtable-card--selected"
+  );
+  const content = (
+    <>
+      <span className="cardtable-card__rank">{card.rank}</span>
+      <span className="cardtable-card__suit" aria-hidden="true">
+        {SUIT_SYMBOL[card.suit]}
+      </span>
+      <span className="sr-only">{SUIT_LABEL[card.suit]}</span>
+    </>
+  );
+  if (!onClick) return <span className={className}>{content}</span>;
+  return (
+    <button type="button" className={className} onClick={onClick} disabled={disabled} aria-pressed={selected ?? false}>
+      {content}
+    </button>
+  );
+}
+
+/** Formatiert Handwerte deutsch (30,5 statt 30.5). */
+export function formatHandValue(value: number | undefined) {
+  if (value === undefined) return "-";
+  return Number.isInteger(value) ? String(value) : value.toFixed(1).replace(".", ",");
+}
@@ -0,0 +1,75 @@
+/**
+ * Aktivitätsverlauf einer Runde: wer wann wie viele Leben verloren oder per Korrektur zurückbekommen hat.
+ * Lädt das Protokoll vom Server neu, sobald sich refreshKey ändert (z. B. nach jedem Leben-Update).
+ */
+import { useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import { getRoundActivity, type LifeEvent, type Player } from "../../api";
+
+type Props = {
+  roundId?: string;
+  players: Player[];
+  refreshKey?: string;
+  maxVisible?: number;
+};
+
+const KIND_LABEL: Record<LifeEvent["kind"], string> = {
+  showdown: "Showdown",
+  table: "Tisch",
+  manual: "Gestrichen",
+  correction: "Korrektur",
+};
+
+/** Kompakte Liste der Lebensänderungen, neueste oben; Korrekturen sind farblich hervorgehoben. */
+export default function RoundActivityFeed({ roundId, players, refreshKey, maxVisible = 8 }: Props) {
+  const [entries, setEntries] = useState<LifeEvent[]>([]);
+  const nameById = useMemo(() => new Map(players.map((p) => [p.id, p.name])), [players]);
+  const nameOf = (playerId: string | null) => (playerId ? nameById.get(playerId) ?? "?" : "Server");
+
+  useEffect(() => {
+    if (!roundId) {
+      setEntries([]);
+      return;
+    }
+    let alive = true;
+    getRoundActivity(roundId)
+      .then((list) => {
+        if (alive) setEntries(list);
+      })
+      .catch(() => {
+        /* Verlauf ist optional, nächster Refresh versucht es erneut */
+      });
+    return () => {
+      alive = false;
+    };
+  }, [roundId, refreshKey]);
+
+  if (!entries.length) {
+    return <p className="tt-text text-sm text-[var(--tt-text-muted)]">Noch keine Lebensänderungen in dieser Runde.</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-1">
+      {entries.slice(0, maxVisible).map((entry) => (
+        <li key={entry.id} className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="tt-text w-14 tabular-nums text-[var(--tt-text-muted)]">{formatTime(entry.createdAt)}</span>
+          <span className="tt-text w-28 truncate font-black uppercase text-white">{nameOf(entry.playerId)}</span>
+          <span className="tt-text tabular-nums">{`${entry.from} → ${entry.to}`}</span>
+          <span
+            className={clsx(
+              "tt-text text-xs font-black uppercase",
+              entry.kind === "correction" ? "text-[var(--tt-yellow,#ffff00)]" : "text-[var(--tt-text-muted)]"
+            )}
+          >
+            {KIND_LABEL[entry.kind]}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Uhrzeit (HH:MM) für die Verlaufsliste. */
+function formatTime(iso: string) {
+  return new Date(iso).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" });
+}
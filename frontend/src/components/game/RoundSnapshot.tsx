@@ -0,0 +1,103 @@
+/**
+ * Archivansicht einer bereits beendeten (oder abgelösten) Runde, z. B. beim Öffnen eines alten Rundenlinks.
+ * Rein lesend: Gewinner, Dauer, wer die Runde beendet hat und die Leben pro Spieler:in zum Rundenende.
+ */
+import { useMemo } from "react";
+import type { Player, RoundHistoryEntry } from "../../api";
+import TTPanel from "../common/ui/TTPanel";
+import TTButton from "../common/ui/TTButton";
+import LifeSticks from "./LifeSticks";
+import GamePlayerList from "./GamePlayerList";
+import { formatDateTime, formatDuration } from "../../utils/time";
+
+type Props = {
+  snapshot: RoundHistoryEntry;
+  currentNumber: number | null;
+  currentPlayerId?: string;
+  currentPlayerName?: string;
+  onJumpToCurrent: () => void;
+};
+
+/** Zeigt den Endstand einer Runde ohne Interaktion und bietet den Sprung zur aktuellen Runde an. */
+export default function RoundSnapshot({ snapshot, currentNumber, currentPlayerId, currentPlayerName, onJumpToCurrent }: Props) {
+  const roundLabel = String(snapshot.number).padStart(2, "0");
+  const nameById = useMemo(
+    () => new Map(snapshot.lives.map((life) => [life.playerId, life.playerName ?? "?"])),
+    [snapshot.lives]
+  );
+
+  // Spieler:innen aus dem Schnappschuss, damit auch inzwischen ausgetretene Personen erscheinen.
+  const players = useMemo<Player[]>(
+    () =>
+      snapshot.lives.map((life) => ({
+        id: life.playerId,
+        name: life.playerName ?? "?",
+        lobbyId: "",
+        joinedAt: "",
+      })),
+    [snapshot.lives]
+  );
+  const livesByPlayer = useMemo(
+    () => Object.fromEntries(snapshot.lives.map((life) => [life.playerId, life.livesRemaining])),
+    [snapshot.lives]
+  );
+  const myLives = currentPlayerId ? livesByPlayer[currentPlayerId] : undefined;
+
+  const endedLabel =
+    snapshot.state === "running"
+      ? "Diese Runde läuft noch."
+      : snapshot.endReason === "automatic"
+        ? "Automatisch beendet - nur noch eine Person hatte Leben."
+        : snapshot.endedByName
+          ? `Gemeldet von ${snapshot.endedByName}${
+              snapshot.confirmedBy.length
+                ? `, bestätigt von ${snapshot.confirmedBy.map((id) => nameById.get(id) ?? "?").join(", ")}`
+                : ""
+            }`
+          : "Beendet";
+
+  return (
+    <>
+      <TTPanel title={`Runde ${roundLabel}`} eyebrow=">> Archiv 404" variant="cyan">
+        <div className="flex flex-wrap items-baseline justify-between gap-4">
+          <div className="tt-text text-3xl sm:text-4xl font-black uppercase tracking-[0.2em] text-[var(--tt-secondary)]">
+            {snapshot.state === "running" ? "Läuft" : snapshot.winnerName ?? "Unbekannt"}
+          </div>
+          <div className="tt-text text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+            {snapshot.durationMs !== null ? `Dauer ${formatDuration(snapshot.durationMs)}` : formatDateTime(snapshot.startedAt)}
+          </div>
+        </div>
+        <p className="mt-2 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">{endedLabel}</p>
+        <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+          <p className="tt-text m-0 text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+            {currentNumber ? `Aktuell läuft Runde ${String(currentNumber).padStart(2, "0")}` : "Keine aktuelle Runde"}
+          </p>
+          <TTButton variant="primary" onClick={onJumpToCurrent} disabled={!currentNumber}>
+            Zur aktuellen Runde
+          </TTButton>
+        </div>
+      </TTPanel>
+
+      {myLives !== undefined && (
+        <TTPanel title="Deine Leben" eyebrow=">> Endstand 456" variant="magenta" className="tt-transparent-panel">
+          <LifeSticks className="mt-2" lives={myLives} readOnly />
+        </TTPanel>
+      )}
+
+      <TTPanel title="Spieler:innen" eyebrow=">> Leben zum Schluss 1010" variant="cyan" className="tt-transparent-panel">
+        <GamePlayerList
+          className="mt-1 w-full"
+          players={players}
+          scores={[]}
+          maxVisible={4}
+          currentPlayerId={currentPlayerId}
+          currentPlayerName={currentPlayerName}
+          dealerPlayerId={snapshot.dealerPlayerId}
+          lives={livesByPlayer}
+          leaderPlayerId={snapshot.winnerPlayerId}
+          readOnly
+        />
+      </TTPanel>
+    </>
+  );
+}
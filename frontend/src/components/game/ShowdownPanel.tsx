@@ -0,0 +1,114 @@
+/**
+ * Showdown für Runden mit echten Karten: ansagen, eigene Hand melden, Ergebnis anzeigen.
+ * Die Lebensvergabe passiert ausschließlich serverseitig, sobald alle Beteiligten gemeldet haben.
+ */
+import { useMemo } from "react";
+import clsx from "clsx";
+import type { Card, Player, ShowdownView } from "../../api";
+import TTButton from "../common/ui/TTButton";
+import HandCalculator from "./HandCalculator";
+import { formatHandValue } from "./PlayingCard";
+
+type Props = {
+  showdown: ShowdownView | null;
+  players: Player[];
+  currentPlayerId?: string;
+  busy?: boolean;
+  disabled?: boolean;
+  onStart: () => void;
+  onSubmit: (cards: Card[]) => void;
+  onCancel: () => void;
+};
+
+/** Zeigt je nach Showdown-Status Ansage-Button, Meldestatus oder das aufgedeckte Ergebnis. */
+export default function ShowdownPanel({
+  showdown,
+  players,
+  currentPlayerId,
+  busy,
+  disabled,
+  onStart,
+  onSubmit,
+  onCancel,
+}: Props) {
+  const nameById = useMemo(() => new Map(players.map((p) => [p.id, p.name])), [players]);
+  const nameOf = (playerId: string) => nameById.get(playerId) ?? "?";
+  const collecting = showdown?.state === "collecting" ? showdown : null;
+  const resolved = showdown?.state === "resolved" ? showdown : null;
+  const myEntry = collecting?.participants.find((p) => p.playerId === currentPlayerId) ?? null;
+
+  if (collecting) {
+    const pending = collecting.participants.filter((p) => !p.submitted).length;
+    return (
+      <div className="flex flex-col gap-3">
+        <p className="tt-text text-sm uppercase tracking-[0.2em] text-[var(--tt-secondary)]" aria-live="polite">
+          {pending ? `Warte auf ${pending} Meldung(en)` : "Werte komplett - wird ausgewertet"}
+        </p>
+        <ul className="flex flex-wrap gap-2">
+          {collecting.participants.map((p) => (
+            <li
+              key={p.playerId}
+              className={clsx(
+                "tt-text border-2 px-2 py-1 text-xs font-black uppercase",
+                p.submitted ? "border-[var(--tt-success,#00ff00)] text-white" : "border-[var(--tt-text-muted)] text-[var(--tt-text-muted)]"
+              )}
+            >
+              {nameOf(p.playerId)} {p.submitted ? "✓" : "..."}
+            </li>
+          ))}
+        </ul>
+        {myEntry && !myEntry.submitted ? (
+          <HandCalculator onSubmit={(cards) => onSubmit(cards)} submitLabel="Hand melden" busy={busy} />
+        ) : (
+          <p className="tt-text text-sm text-[var(--tt-text-muted)]">
+            {myEntry ? "Deine Hand ist gemeldet." : "Du bist in diesem Showdown nicht dabei."}
+          </p>
+        )}
+        <TTButton variant="ghost" className="self-start" onClick={onCancel} disabled={busy || disabled}>
+          Showdown abbrechen
+        </TTButton>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {resolved && (
+        <div className="flex flex-col gap-2">
+          <p className="tt-text text-sm uppercase tracking-[0.2em] text-[var(--tt-secondary)]">
+            {resolved.feuer ? "Feuer! Alle anderen verlieren ein Leben" : "Letzter Showdown"}
+          </p>
+          <ul className="flex flex-col gap-1">
+            {resolved.participants.map((p) => {
+              const isLoser = resolved.losers.includes(p.playerId);
+              return (
+                <li key={p.playerId} className="flex items-center gap-3 text-sm">
+                  <span
+                    className={clsx(
+                      "tt-text w-28 truncate font-black uppercase",
+                      isLoser ? "text-[var(--tt-danger)]" : "text-white"
+                    )}
+                  >
+                    {nameOf(p.playerId)}
+                  </span>
+                  <span className="tt-text tabular-nums">{formatHandValue(p.value ?? undefined)}</span>
+                  <span className="tt-text text-xs text-[var(--tt-text-muted)]">{p.label}</span>
+                  {isLoser && <span className="tt-text text-xs font-black uppercase text-[var(--tt-danger)]">-1 Leben</span>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+      <TTButton
+        variant="danger"
+        className="w-full justify-center sm:w-auto"
+        onClick={onStart}
+        busy={busy}
+        disabled={busy || disabled}
+      >
+        Showdown ansagen
+      </TTButton>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Sieg-Meldungen einer Runde: offene Meldung mit Abstimmung bzw. Wartehinweis und Countdown, darunter der Verlauf.
+ * Der Punkt wird erst vergeben, wenn der Server genug Zustimmungen gezählt hat.
+ */
+import { useMemo } from "react";
+import clsx from "clsx";
+import type { Player, WinnerClaim } from "../../api";
+import TTButton from "../common/ui/TTButton";
+import { useSecondsUntil } from "../../hooks/useSecondsUntil";
+
+type Props = {
+  claims: WinnerClaim[];
+  players: Player[];
+  currentPlayerId?: string;
+  busy?: boolean;
+  onVote: (claim: WinnerClaim, approve: boolean) => void;
+};
+
+const STATE_LABEL: Record<WinnerClaim["state"], string> = {
+  pending: "offen",
+  approved: "bestätigt",
+  rejected: "abgelehnt",
+  expired: "verfallen",
+  superseded: "überholt",
+  revoked: "zurückgenommen",
+};
+
+/** Zeigt Abstimmung (Mitspieler:innen), Wartestatus (Meldende:r) und die bisherigen Meldungen der Runde. */
+export default function WinnerClaimPanel({ claims, players, currentPlayerId, busy, onVote }: Props) {
+  const nameById = useMemo(() => new Map(players.map((p) => [p.id, p.name])), [players]);
+  const nameOf = (playerId: string) => nameById.get(playerId) ?? "?";
+  const pending = claims.find((c) => c.state === "pending") ?? null;
+  const history = claims.filter((c) => c !== pending);
+  const secondsLeft = useSecondsUntil(pending?.expiresAt ?? null);
+
+  const isClaimant = !!pending && pending.claimantId === currentPlayerId;
+  const canVote =
+    !!pending &&
+    !!currentPlayerId &&
+    pending.voters.includes(currentPlayerId) &&
+    !pending.approvals.includes(currentPlayerId) &&
+    !pending.rejections.includes(currentPlayerId);
+
+  return (
+    <div className="flex flex-col gap-3">
+      {pending && (
+        <div className="flex flex-col gap-2" aria-live="polite">
+          <p className="tt-text text-sm uppercase tracking-[0.2em] text-[var(--tt-secondary)]">
+            {isClaimant ? "Warte auf Bestätigung deines Siegs" : `${nameOf(pending.claimantId)} meldet den Sieg`}
+          </p>
+          <p className="tt-text text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+            {`${pending.approvals.length}/${pending.quorum} Zustimmungen - noch ${secondsLeft} s`}
+          </p>
+          {canVote && (
+            <div className="flex flex-wrap gap-2">
+              <TTButton variant="success" onClick={() => onVote(pending, true)} busy={busy} disabled={busy}>
+                Stimmt
+              </TTButton>
+              <TTButton variant="danger" onClick={() => onVote(pending, false)} disabled={busy}>
+                Stimmt nicht
+              </TTButton>
+            </div>
+          )}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <ul className="flex flex-col gap-1">
+          {history.map((claim) => (
+            <li key={claim.id} className="flex items-center gap-3 text-sm">
+              <span className="tt-text w-28 truncate font-black uppercase text-white">{nameOf(claim.claimantId)}</span>
+              <span
+                className={clsx(
+                  "tt-text text-xs font-black uppercase",
+                  claim.state === "approved" && "text-[var(--tt-success,#00ff00)]",
+                  claim.state === "rejected" && "text-[var(--tt-danger)]",
+                  claim.state !== "approved" && claim.state !== "rejected" && "text-[var(--tt-text-muted)]"
+                )}
+              >
+                {STATE_LABEL[claim.state]}
+              </span>
+              <span className="tt-text text-xs tabular-nums text-[var(--tt-text-muted)]">
+                {`${claim.approvals.length} ja / ${claim.rejections.length} nein`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
  */
 import { useCallback, useState } from "react";
 import type { Player } from "../api";
+import { isApiError } from "../api/errors";
 import {
   joinOrRejoin as joinOrRejoinApi,
   type JoinOrRejoinParams,
@@ -120,12 +121,12 @@ export function isJoinMutationError(error: unknown): error is JoinMutationError
 
 /**
  * Vereinheitlicht unbekannte Fehler zu JoinMutationError mit bestmöglichem Code,
- * damit UI/Funktionen stets über `code` verfügen.
+ * damit UI/Funktionen stets über `code` verfügen. Bei API-Fehlern dient der errorCode des Servers als Ausgangswert.
  */
 function toJoinMutationError(error: unknown): JoinMutationError {
   if (error instanceof Error) {
     const joinError = error as JoinMutationError;
-    joinError.code = normalizeJoinErrorCode(joinError.code, error.message);
+    joinError.code = normalizeJoinErrorCode(joinError.code ?? (isApiError(error) ? error.errorCode : undefined), error.message);
     return joinError;
   }
   const fallback = new Error("Beitreten nicht möglich.") as JoinMutationError;
@@ -0,0 +1,20 @@
+/**
+ * Hook für sekundengenaue Countdowns bis zu einem Server-Zeitpunkt.
+ * Genutzt für verfallende Sieg-Meldungen im Game-Screen und das Rückgängig-Fenster im Win-Screen.
+ */
+import { useEffect, useState } from "react";
+
+/** Restsekunden bis iso (aufgerundet, nie negativ); 0 ohne Zeitpunkt oder nach Ablauf. */
+export function useSecondsUntil(iso: string | null | undefined) {
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!iso) return;
+    setNowMs(Date.now());
+    const t = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [iso]);
+
+  if (!iso) return 0;
+  return Math.max(0, Math.ceil((Date.parse(iso) - nowMs) / 1000));
+}
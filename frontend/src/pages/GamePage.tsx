@@ -9,10 +9,40 @@ import LifeSticks from "../components/game/LifeSticks";
 import GamePlayerList from "../components/game/GamePlayerList";
 import EndRoundSlider from "../components/game/EndRoundSlider";
 import SchwimmstBanner from "../components/game/SchwimmstBanner";
-import { api, LifeState, Player, Round, Score } from "../api";
+import CardTable from "../components/game/CardTable";
+import HandCalculator from "../components/game/HandCalculator";
+import ShowdownPanel from "../components/game/ShowdownPanel";
+import WinnerClaimPanel from "../components/game/WinnerClaimPanel";
+import RoundActivityFeed from "../components/game/RoundActivityFeed";
+import RoundSnapshot from "../components/game/RoundSnapshot";
+import {
+  api,
+  cancelShowdown,
+  correctLife,
+  dealNextTableGame,
+  getRoundByNumber,
+  LifeState,
+  LobbyState,
+  openTable,
+  performTableAction,
+  Player,
+  Round,
+  RoundHistoryEntry,
+  RoundMode,
+  Score,
+  setLobbyMode,
+  startShowdown,
+  submitShowdownHand,
+  subscribeRoundEvents,
+  TableAction,
+  updateSeatOrder,
+  voteOnClaim,
+  watchLobbyState,
+  WinnerClaim,
+} from "../api";
 import { useLobbyParams } from "../hooks/useLobbyParams";
 import { useRoundParams } from "../hooks/useRoundParams";
-import { losePath, roundPath, winPath, withSearch } from "../utils/paths";
+import { historyPath, losePath, roundPath, winPath, withSearch } from "../utils/paths";
 import { getClientSessionId, loadSession, persistClientSessionId, storeSession, updateSession, type ResumeView } from "../utils/session";
 import RootLayout from "../components/common/layout/RootLayout";
 import TTPanel from "../components/common/ui/TTPanel";
@@ -22,6 +52,7 @@ import { useJoinOrRejoin, isJoinMutationError } from "../hooks/useJoinOrRejoin";
 import { startPresence } from "../lib/sessionPresence";
 import RouteGuardNotice from "../components/common/RouteGuardNotice";
 import { useLobbyDeletionGuard } from "../hooks/useLobbyDeletionGuard";
+import { subscribeLobbyEvents } from "../api/lobbyEvents";
 
 const AUTO_BOOT = import.meta.env.VITE_DEV_AUTO_BOOT === "1";
 
@@ -80,6 +111,12 @@ export default function GamePage() {
   const [busy, setBusy] = useState(false);
   const [booting, setBooting] = useState(true);
   const [leaderCelebrationKey, setLeaderCelebrationKey] = useState(0);
+  const [lobbyMode, setLobbyModeState] = useState<RoundMode>("companion");
+  const [seatOrder, setSeatOrder] = useState<string[]>([]);
+  const [roundActionBusy, setRoundActionBusy] = useState(false);
+  const [correcting, setCorrecting] = useState(false);
+  const [followedRoundNumber, setFollowedRoundNumber] = useState<number | null>(null);
+  const [archivedRound, setArchivedRound] = useState<RoundHistoryEntry | null>(null);
 
   const startingRoundRef = useRef(false);
   const forcedLoseRoundRef = useRef<number | null>(null);
@@ -92,7 +129,21 @@ export default function GamePage() {
   );
 
   const isRunning = round?.state === "running";
+  const isTableRound = round?.mode === "table" && !!round.table;
+  const canOpenTable = isRunning && round?.mode !== "table" && lives.every((l) => l.livesRemaining === 4);
   const currentRoundNumber = round?.number ?? null;
+  const roundClaims = round?.claims ?? [];
+  // Korrigieren lässt sich nur ein eigener Tipp, den der Server als zurücknehmbar meldet (nie Showdown- oder Tisch-Abzüge).
+  const canTapLife = isRunning && !isTableRound && !!playerId && !!round?.manualLives;
+  const canCorrectLife = isRunning && !isTableRound && !!playerId && !!round?.correctableLifeEventId;
+  const livesKey = lives.map((l) => `${l.playerId}:${l.livesRemaining}`).join("|");
+  const hasPendingClaim = roundClaims.some((c) => c.state === "pending");
+  // Alte Rundennummer in der URL, die hier nicht live verfolgt wurde (geteilter/alter Link) → Archivansicht statt Umleitung.
+  const archiveNumber =
+    !!currentRoundNumber && !!roundNumberParam && roundNumberParam < currentRoundNumber && followedRoundNumber !== roundNumberParam
+      ? roundNumberParam
+      : null;
+  const viewingArchive = archiveNumber !== null;
   const showSchwimmst = useMemo(
     () => !!myLife && myLife.livesRemaining === 1 && isRunning,
     [myLife, isRunning]
@@ -227,7 +278,9 @@ export default function GamePage() {
     };
   }, [applySessionId, clientSessionId, lobbyId, navigate, performJoinOrRejoin, persistSession, playerName]);
 
-  // Hauptinitialisierung + Polling: lädt Lobby, Runde, Lives und Spieler und hält diese Werte aktuell.
+  // Hauptinitialisierung + Long-Polling: startet bei Bedarf die erste Runde und tritt bei; den Gesamtstand (Lobby, Runde, Lives, Spieler)
+  // hält watchLobbyState aktuell – jedes Event erhöht die Version, der Stand kommt also direkt danach. Die Events unten übernehmen
+  // ihre Nutzdaten zusätzlich sofort; Daten, die nur der eigene Stand enthält (Hand, Korrigierbarkeit), liefert allein der Lobby-Stand.
   useEffect(() => {
     if (!lobbyId) return;
     let alive = true;
@@ -238,25 +291,16 @@ export default function GamePage() {
 
         const current = await ensureCurrentRound(lobbyId);
         const ensured = await ensurePlayerInLobby(lobbyId, playerName);
-
-        const [lb, ps] = await Promise.all([api.getLobby(lobbyId), api.listPlayers(lobbyId)]);
         if (!alive) return;
 
-        setLobbyTitle(lb.name.toUpperCase());
-        persistSession({ lobbyName: lb.name });
-
-        if (!playerId) {
-          const me = ensured || ps.find((p) => p.name === playerName);
-          if (me) {
-            setPlayerId(me.id);
-            persistSession({ playerId: me.id });
-          }
+        if (!playerId && ensured) {
+          setPlayerId(ensured.id);
+          persistSession({ playerId: ensured.id });
         }
 
         setRound(current.round);
         setLives(current.lives);
         setScores(current.scores);
-        setPlayers(ps);
         setErr(null);
       } catch (e: any) {
         if (handleLobbyMissingError(e)) return;
@@ -268,54 +312,163 @@ export default function GamePage() {
 
     init();
 
-    const t = setInterval(async () => {
-      try {
-        const [lb, current, ps] = await Promise.all([
-          api.getLobby(lobbyId),
-          getSafeCurrentRound(lobbyId),
-          api.listPlayers(lobbyId),
-        ]);
-        if (!alive) return;
-        setLobbyTitle(lb.name.toUpperCase());
-        setRound(current.round);
-        setLives(current.lives);
-        setScores(current.scores);
-        setPlayers(ps);
-
-        if (!playerId) {
-          const me = ps.find((p) => p.name === playerName);
-          if (me) {
-            setPlayerId(me.id);
-            persistSession({ playerId: me.id });
-          }
+    const applyState = (state: LobbyState) => {
+      setLobbyTitle(state.lobby.name.toUpperCase());
+      setLobbyModeState(state.lobby.mode ?? "companion");
+      setSeatOrder(state.lobby.seatOrder ?? []);
+      persistSession({ lobbyName: state.lobby.name });
+      // Ohne Runde (frische Lobby) bleibt der Stand aus init, bis ensureCurrentRound sie angelegt hat.
+      if (state.round) {
+        setRound(state.round);
+        setLives(state.lives);
+      }
+      setScores(state.scores);
+      setPlayers(state.players);
+
+      if (!playerId) {
+        const me = state.players.find((p) => p.name === playerName);
+        if (me) {
+          setPlayerId(me.id);
+          persistSession({ playerId: me.id });
         }
-      } catch (error) {
-        if (handleLobbyMissingError(error)) return;
       }
-    }, 2000);
+    };
+    const stopWatching = watchLobbyState(lobbyId, {
+      viewer: roundViewer,
+      onState: applyState,
+      onError: handleLobbyMissingError,
+    });
 
     return () => {
       alive = false;
-      clearInterval(t);
+      stopWatching();
     };
-  }, [handleLobbyMissingError, lobbyId, playerId, playerName, persistSession]);
+  }, [clientSessionId, handleLobbyMissingError, lobbyId, playerId, playerName, persistSession]);
 
   useEffect(() => {
     if (!lobbyId || !playerId || !clientSessionId) return;
     return startPresence({ lobbyId, playerId, clientSessionId });
   }, [clientSessionId, lobbyId, playerId]);
 
+  // Beitritte und Presence-Wechsel (abwesend/zurück) sofort übernehmen, statt auf den nächsten Poll zu warten.
+  useEffect(() => {
+    if (!lobbyId) return;
+    return subscribeLobbyEvents({
+      lobbyId,
+      onPlayerJoined: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setPlayers((prev) =>
+          prev.some((p) => p.id === event.player.id)
+            ? prev.map((p) => (p.id === event.player.id ? event.player : p))
+            : [...prev, event.player]
+        );
+      },
+      onPlayerLeft: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setPlayers((prev) => prev.map((p) => (p.id === event.playerId ? { ...p, isActive: false } : p)));
+      },
+      onPresenceChanged: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        const isActive = event.type === "PLAYER_ACTIVE";
+        setPlayers((prev) =>
+          prev.map((p) => (p.id === event.playerId ? { ...p, isActive, lastSeen: event.lastSeen ?? p.lastSeen } : p))
+        );
+      },
+      onSeatsUpdated: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setSeatOrder(event.seatOrder);
+      },
+    });
+  }, [lobbyId]);
+
+  // Rundenereignisse ohne REST-Abgleich übernehmen; die eigene Hand in Tischrunden kommt mit dem nächsten Lobby-Stand.
+  useEffect(() => {
+    if (!lobbyId) return;
+    return subscribeRoundEvents({
+      lobbyId,
+      onStarted: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setRound((prev) => (prev && prev.number >= event.round.number ? prev : event.round));
+        setLives(event.lives);
+      },
+      // Beendete Runde samt Scores übernehmen; der Redirect-Effekt wechselt zum Win-Screen.
+      onFinished: (event) => {
+        if (event.lobbyId !== lobbyId || !event.round) return;
+        const finished = event.round;
+        setRound((prev) => (prev && prev.id === event.roundId ? { ...prev, ...finished } : prev));
+        if (event.scores) setScores(event.scores);
+      },
+      onLifeUpdated: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setLives((prev) => (prev.some((l) => l.roundId === event.roundId) ? event.lives : prev));
+      },
+      // Zug und Phase sofort zeigen; Karten und Mitte folgen mit dem Lobby-Stand.
+      onTableUpdated: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setRound((prev) =>
+          prev && prev.id === event.roundId && prev.table
+            ? {
+                ...prev,
+                table: { ...prev.table, phase: event.phase, dealNumber: event.dealNumber, turnPlayerId: event.turnPlayerId },
+              }
+            : prev
+        );
+      },
+      onShowdown: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setRound((prev) => (prev && prev.id === event.roundId ? { ...prev, showdown: event.showdown } : prev));
+        if (event.type === "SHOWDOWN_RESOLVED") setLives(event.lives);
+      },
+      onLifeCorrected: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setLives((prev) => (prev.some((l) => l.roundId === event.roundId) ? event.lives : prev));
+      },
+      // Ein bestätigter Sieg beendet die Runde; Runde und Scores bringt das round_finished-Event, der Redirect-Effekt wechselt zum Win-Screen.
+      onClaim: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        setRound((prev) => {
+          if (!prev || prev.id !== event.roundId) return prev;
+          const others = (prev.claims ?? []).filter((c) => c.id !== event.claim.id);
+          return { ...prev, claims: [...others, event.claim].sort((a, b) => a.createdAt.localeCompare(b.createdAt)) };
+        });
+      },
+    });
+  }, [clientSessionId, lobbyId, playerId]);
+
   useEffect(() => {
     if (!round?.number || !effectiveLobbyName) return;
-    if (roundNumberParam === round.number) return;
+    if (roundNumberParam === round.number) {
+      setFollowedRoundNumber(round.number);
+      return;
+    }
+    if (viewingArchive) return;
     navigate(roundPath({ lobbyName: effectiveLobbyName, lobbyId, roundNumber: round.number }), { replace: true });
-  }, [effectiveLobbyName, lobbyId, navigate, round?.number, roundNumberParam]);
+  }, [effectiveLobbyName, lobbyId, navigate, round?.number, roundNumberParam, viewingArchive]);
 
   useEffect(() => {
+    if (archiveNumber === null || !lobbyId) {
+      setArchivedRound(null);
+      return;
+    }
+    let alive = true;
+    getRoundByNumber(lobbyId, archiveNumber)
+      .then((res) => {
+        if (alive) setArchivedRound(res.round);
+      })
+      .catch((e: any) => {
+        if (alive) setErr(e?.message ?? "Runde konnte nicht geladen werden");
+      });
+    return () => {
+      alive = false;
+    };
+  }, [archiveNumber, lobbyId]);
+
+  useEffect(() => {
+    if (viewingArchive) return;
     if (!round || round.state !== "finished" || !round.winnerPlayerId || !effectiveLobbyName) return;
     persistSession({ resumeView: "win", resumeRoundNumber: round.number ?? null });
     navigate(winPath({ lobbyName: effectiveLobbyName, lobbyId }));
-  }, [effectiveLobbyName, lobbyId, navigate, persistSession, round?.number, round?.state, round?.winnerPlayerId]);
+  }, [effectiveLobbyName, lobbyId, navigate, persistSession, round?.number, round?.state, round?.winnerPlayerId, viewingArchive]);
 
   useEffect(() => {
     if (!round || round.state !== "running") return;
@@ -328,20 +481,20 @@ export default function GamePage() {
   /** Holt oder erzeugt die aktuelle Runde, inklusive Retry bei frischen Lobbys. */
   async function ensureCurrentRound(lobbyId: string): Promise<CurrentRoundBundle> {
     try {
-      const res = await api.getCurrentRound(lobbyId);
+      const res = await api.getCurrentRound(lobbyId, roundViewer());
       return { round: res.round, lives: res.lives, scores: res.scores ?? [] };
     } catch (e: any) {
       const msg = String(e?.message || "");
       if (msg.includes("Keine Runde") || msg.includes("404")) {
         if (startingRoundRef.current) {
           await sleep(250);
-          const again = await api.getCurrentRound(lobbyId);
+          const again = await api.getCurrentRound(lobbyId, roundViewer());
           return { round: again.round, lives: again.lives, scores: again.scores ?? [] };
         }
         startingRoundRef.current = true;
         try {
           const r = await api.startNextRound(lobbyId);
-          const confirmed = await api.getCurrentRound(lobbyId);
+          const confirmed = await api.getCurrentRound(lobbyId, roundViewer());
           return { round: confirmed.round, lives: confirmed.lives, scores: confirmed.scores ?? [] };
         } finally {
           startingRoundRef.current = false;
@@ -351,10 +504,10 @@ export default function GamePage() {
     }
   }
 
-  /** Polling-Helfer ohne Auto-Start, nutzt direkten Backend-Status. */
-  async function getSafeCurrentRound(lobbyId: string): Promise<CurrentRoundBundle> {
-    const res = await api.getCurrentRound(lobbyId);
-    return { round: res.round, lives: res.lives, scores: res.scores ?? [] };
+  /** Eigener Spieler für Tischsichten; ohne bekannte ID liefert der Server nur die öffentliche Sicht. */
+  function roundViewer() {
+    const id = playerId || sessionRef.current?.playerId;
+    return id ? { playerId: id, clientSessionId } : null;
   }
 
   /** Prüft, ob der aktuelle Spieler existiert, und führt sonst einen Join/Rejoin aus. */
@@ -392,37 +545,73 @@ export default function GamePage() {
     return new Promise((res) => setTimeout(res, ms));
   }
 
-  /** Optimistisch Lives schreiben und mit Serverantwort abgleichen. */
-  async function updateMyLife(nextLives: number) {
-    if (!round || !myLife) return;
-    const prevLivesEntry = myLife;
-    setLives((prev) =>
-      prev.map((l) => (l.playerId === prevLivesEntry.playerId ? { ...l, livesRemaining: nextLives } : l))
-    );
+  /**
+   * Führt eine Runden-Aktion aus (Tischzug, Austeilen, Umschalten, Showdown) und übernimmt Runde + Leben aus der Antwort.
+   * Leben ändern sich hier nur serverseitig (Aufdecken am Tisch bzw. ausgewerteter Showdown); eigene Tipps laufen über tapMyLife.
+   */
+  async function runRoundAction(
+    request: (roundId: string, viewer: { playerId: string; clientSessionId?: string | null }) => Promise<{
+      round: Round;
+      lives: LifeState[];
+    }>
+  ) {
+    if (!round || !playerId) return;
+    setRoundActionBusy(true);
     try {
-      const updated = await api.updateLife(round.id, prevLivesEntry.playerId, nextLives, clientSessionId);
-      setLives((prev) => prev.map((l) => (l.id === updated.id ? updated : l)));
+      const res = await request(round.id, { playerId, clientSessionId });
+      setRound(res.round);
+      setLives(res.lives);
       setErr(null);
     } catch (e: any) {
-      setLives((prev) =>
-        prev.map((l) =>
-          l.playerId === prevLivesEntry.playerId ? { ...l, livesRemaining: prevLivesEntry.livesRemaining } : l
-        )
-      );
-      setErr(e?.message ?? "Fehler beim Aktualisieren der Leben");
+      setErr(e?.message ?? "Aktion fehlgeschlagen");
+    } finally {
+      setRoundActionBusy(false);
     }
   }
 
-  /** Meldet das Rundenergebnis per Slider-Aktion und navigiert zum Win-Screen. */
+  function handleTableAction(move: { action: TableAction; handIndex?: number; middleIndex?: number }) {
+    return runRoundAction((roundId, viewer) => performTableAction(roundId, viewer, move));
+  }
+
+  /** Wechselt den Lobby-Modus für kommende Runden (die laufende Runde bleibt unverändert). */
+  async function changeLobbyMode(mode: RoundMode) {
+    if (!lobbyId) return;
+    try {
+      const lb = await setLobbyMode(lobbyId, mode);
+      setLobbyModeState(lb.mode ?? mode);
+      setErr(null);
+    } catch (e: any) {
+      setErr(e?.message ?? "Spielmodus konnte nicht gesetzt werden");
+    }
+  }
+
+  /** Übernimmt eine per Drag & Drop geänderte Sitzordnung optimistisch und speichert sie in der Lobby. */
+  async function changeSeatOrder(order: string[]) {
+    if (!lobbyId || !playerId) return;
+    const previous = seatOrder;
+    setSeatOrder(order);
+    try {
+      const lb = await updateSeatOrder({ lobbyId, playerId, clientSessionId, order });
+      setSeatOrder(lb.seatOrder ?? order);
+      setErr(null);
+    } catch (e: any) {
+      setSeatOrder(previous);
+      setErr(e?.message ?? "Sitzordnung konnte nicht gespeichert werden");
+    }
+  }
+
+  /**
+   * Meldet den eigenen Sieg per Slider. Ohne Mitspieler:innen endet die Runde sofort,
+   * sonst wartet die Meldung auf Bestätigung und der Win-Screen folgt über den Rundenstatus.
+   */
   async function finishByWinner() {
     if (!round || !playerId || !effectiveLobbyName) return;
     setBusy(true);
     try {
       const r = await api.finishRound(round.id, playerId, clientSessionId);
       setRound(r.round);
-      setScores(r.scores);
+      if (r.scores) setScores(r.scores);
       setErr(null);
-      navigate(winPath({ lobbyName: effectiveLobbyName, lobbyId }));
     } catch (e: any) {
       setErr(e?.message ?? "Fehler beim Beenden der Runde");
     } finally {
@@ -430,6 +619,54 @@ export default function GamePage() {
     }
   }
 
+  /** Eigener Streichholz-Tipp (nur wenn das Backend MANUAL_LIVES erlaubt); ein Versehen nimmt die Korrektur zurück. */
+  async function tapMyLife(next: number) {
+    if (!round || !playerId) return;
+    setRoundActionBusy(true);
+    try {
+      const updated = await api.updateLife(round.id, playerId, next, clientSessionId);
+      setLives((prev) => prev.map((l) => (l.playerId === updated.playerId && l.roundId === updated.roundId ? updated : l)));
+      setErr(null);
+    } catch (e: any) {
+      setErr(e?.message ?? "Leben konnte nicht gespeichert werden");
+    } finally {
+      setRoundActionBusy(false);
+    }
+  }
+
+  /** Korrektur: nimmt den letzten eigenen Tipp zurück; der Server protokolliert die Erhöhung. */
+  async function correctMyLife() {
+    if (!round || !playerId) return;
+    setRoundActionBusy(true);
+    try {
+      const res = await correctLife(round.id, { playerId, clientSessionId });
+      setLives(res.lives);
+      setRound((prev) => (prev && prev.id === round.id ? { ...prev, correctableLifeEventId: null } : prev));
+      setCorrecting(false);
+      setErr(null);
+    } catch (e: any) {
+      setErr(e?.message ?? "Korrektur fehlgeschlagen");
+    } finally {
+      setRoundActionBusy(false);
+    }
+  }
+
+  /** Stimmt über die Sieg-Meldung einer Mitspielerin/eines Mitspielers ab. */
+  async function voteOnWinnerClaim(claim: WinnerClaim, approve: boolean) {
+    if (!round || !playerId) return;
+    setRoundActionBusy(true);
+    try {
+      const res = await voteOnClaim(round.id, claim.id, { playerId, clientSessionId }, approve);
+      setRound(res.round);
+      if (res.scores) setScores(res.scores);
+      setErr(null);
+    } catch (e: any) {
+      setErr(e?.message ?? "Abstimmung fehlgeschlagen");
+    } finally {
+      setRoundActionBusy(false);
+    }
+  }
+
   /** Öffnet den Lose-Screen und persistiert den Resume-Context. */
   const openLose = useCallback(
     (roundOverride?: number | null) => {
@@ -450,9 +687,9 @@ export default function GamePage() {
 
   useEffect(() => {
     if (sessionSeed?.resumeView !== "lose") return;
-    if (!playerId) return;
+    if (!playerId || viewingArchive) return;
     openLose(sessionSeed.resumeRoundNumber ?? roundNumberParam ?? null);
-  }, [openLose, playerId, roundNumberParam, sessionSeed?.resumeRoundNumber, sessionSeed?.resumeView]);
+  }, [openLose, playerId, roundNumberParam, sessionSeed?.resumeRoundNumber, sessionSeed?.resumeView, viewingArchive]);
 
   useEffect(() => {
     if (sessionRef.current?.resumeView !== "lose") return;
@@ -472,14 +709,20 @@ export default function GamePage() {
   }, [currentRoundNumber, isRunning, myLife?.livesRemaining]);
 
   useEffect(() => {
-    if (!isRunning) return;
+    if (!isRunning || viewingArchive) return;
     if (!myLife || myLife.livesRemaining > 0) return;
     if (!playerId || !effectiveLobbyName) return;
     const roundKey = currentRoundNumber ?? -1;
     if (forcedLoseRoundRef.current === roundKey) return;
     forcedLoseRoundRef.current = roundKey;
     openLose(currentRoundNumber ?? roundNumberParam);
-  }, [currentRoundNumber, effectiveLobbyName, isRunning, myLife?.livesRemaining, openLose, playerId, roundNumberParam]);
+  }, [currentRoundNumber, effectiveLobbyName, isRunning, myLife?.livesRemaining, openLose, playerId, roundNumberParam, viewingArchive]);
+
+  /** Verlässt die Archivansicht und springt zur laufenden Runde der Lobby. */
+  function jumpToCurrentRound() {
+    if (!currentRoundNumber || !effectiveLobbyName) return;
+    navigate(roundPath({ lobbyName: effectiveLobbyName, lobbyId, roundNumber: currentRoundNumber }));
+  }
 
   return guardActive ? (
     <RootLayout
@@ -495,6 +738,32 @@ export default function GamePage() {
         />
       </div>
     </RootLayout>
+  ) : viewingArchive ? (
+    <RootLayout
+      header={<TeletextHeader mode="GAME" />}
+      footer={<span className="tt-text text-xs">Lobby: {effectiveLobbyName || "-"}</span>}
+    >
+      <div className={`tt-stack pb-10`}>
+        {archivedRound ? (
+          <RoundSnapshot
+            snapshot={archivedRound}
+            currentNumber={currentRoundNumber}
+            currentPlayerId={playerId || undefined}
+            currentPlayerName={playerName || undefined}
+            onJumpToCurrent={jumpToCurrentRound}
+          />
+        ) : (
+          <p className="tt-text text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]" aria-live="polite">
+            {`Lade Runde ${String(archiveNumber).padStart(2, "0")} ...`}
+          </p>
+        )}
+        {err && (
+          <p className="tt-text text-sm font-black text-[var(--tt-danger)]" aria-live="assertive">
+            {err}
+          </p>
+        )}
+      </div>
+    </RootLayout>
   ) : (
     <RootLayout
       header={<TeletextHeader mode="GAME" />}
@@ -516,6 +785,39 @@ export default function GamePage() {
               <TTButton as={Link} to="/leaderboard" variant="secondary" className="w-full justify-center sm:w-auto">
                 Rangliste
               </TTButton>
+              {effectiveLobbyName && (
+                <TTButton
+                  as={Link}
+                  to={historyPath({ lobbyName: effectiveLobbyName, lobbyId })}
+                  variant="ghost"
+                  className="w-full justify-center sm:w-auto"
+                >
+                  Historie
+                </TTButton>
+              )}
+              {canOpenTable && (
+                <TTButton
+                  variant="info"
+                  className="w-full justify-center sm:w-auto"
+                  onClick={() => {
+                    setLobbyModeState("table");
+                    runRoundAction(openTable);
+                  }}
+                  busy={roundActionBusy}
+                  disabled={roundActionBusy || !playerId}
+                >
+                  Karten digital austeilen
+                </TTButton>
+              )}
+              {lobbyMode === "table" && (
+                <TTButton
+                  variant="ghost"
+                  className="w-full justify-center sm:w-auto"
+                  onClick={() => changeLobbyMode("companion")}
+                >
+                  Ab nächster Runde Papier
+                </TTButton>
+              )}
             </div>
           </div>
         </TTPanelCollapsible>
@@ -532,26 +834,89 @@ export default function GamePage() {
           </p>
         </TTPanel>
 
+        {isTableRound && round?.table && (
+          <TTPanel title="Kartentisch" eyebrow=">> Digital gemischt 031" variant="cyan" className="tt-transparent-panel">
+            <CardTable
+              table={round.table}
+              players={players}
+              currentPlayerId={playerId || undefined}
+              busy={roundActionBusy}
+              disabled={!isRunning}
+              onAction={handleTableAction}
+              onDealNext={() => runRoundAction(dealNextTableGame)}
+            />
+          </TTPanel>
+        )}
+
         {!showSchwimmst ? (
           <TTPanel title="Leben" eyebrow=">> Justiere 456" variant="magenta" className="tt-transparent-panel">
             <LifeSticks
               className="mt-2"
               lives={myLifeValue}
-              onChange={updateMyLife}
-              disabled={!isRunning}
+              disabled={!canTapLife || roundActionBusy}
+              onChange={tapMyLife}
               roundId={round?.id}
+              correcting={correcting && canCorrectLife && !roundActionBusy}
+              onCorrect={correctMyLife}
             />
+            <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+              <p className="m-0 text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+                {correcting
+                  ? "Gelöschtes Streichholz antippen, um es wieder anzuzünden."
+                  : isTableRound
+                    ? "Leben zählt der Tisch beim Aufdecken."
+                    : canTapLife
+                      ? "Streichholz antippen, wenn du ein Leben verlierst - oder Showdown ansagen."
+                      : "Leben zählt der Showdown."}
+              </p>
+              {canCorrectLife && (
+                <TTButton variant="ghost" onClick={() => setCorrecting((value) => !value)} disabled={roundActionBusy}>
+                  {correcting ? "Korrektur beenden" : "Korrektur"}
+                </TTButton>
+              )}
+            </div>
           </TTPanel>
         ) : (
           <TTPanel title="Reiß dich zamm!" eyebrow=">> Letzte Chance 000" variant="danger">
             <SchwimmstBanner className="mt-2" onBubblesClick={openLose} />
+            {canCorrectLife && (
+              <TTButton variant="ghost" className="mt-3" onClick={correctMyLife} busy={roundActionBusy} disabled={roundActionBusy}>
+                Korrektur: Streichholz zurück
+              </TTButton>
+            )}
           </TTPanel>
         )}
 
+        {!isTableRound && (
+          <TTPanel title="Showdown" eyebrow=">> Karten auf den Tisch 033" variant="danger" className="tt-transparent-panel">
+            <ShowdownPanel
+              showdown={round?.showdown ?? null}
+              players={players}
+              currentPlayerId={playerId || undefined}
+              busy={roundActionBusy}
+              disabled={!isRunning || !playerId}
+              onStart={() => runRoundAction(startShowdown)}
+              onSubmit={(cards) => runRoundAction((roundId, viewer) => submitShowdownHand(roundId, viewer, { cards }))}
+              onCancel={() => runRoundAction(cancelShowdown)}
+            />
+          </TTPanel>
+        )}
+
+        {!isTableRound && round?.showdown?.state !== "collecting" && (
+          <TTPanelCollapsible title="Handrechner" eyebrow=">> Streitschlichter 031" initialExpanded={false} variant="default">
+            <HandCalculator />
+          </TTPanelCollapsible>
+        )}
+
+        <TTPanelCollapsible title="Verlauf" eyebrow=">> Protokoll 112" initialExpanded={false} variant="default">
+          <RoundActivityFeed roundId={round?.id} players={players} refreshKey={livesKey} />
+        </TTPanelCollapsible>
+
         <TTPanel title="Spieler:innen" eyebrow=">> Reihenfolge 1010" variant="cyan" className="tt-transparent-panel">
           <div className="flex items-center justify-between gap-3 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
             <span className="text-left">
               <span className="tabular-nums text-white">{playerCounter}</span>/08 Spieler
+              <span className="hidden sm:inline"> - ziehen zum Umsetzen</span>
             </span>
             <span className="ml-auto pr-2 text-right">
               {scores.length ? "Punkte Ticker" : "Noch keine Punkte eingetrudelt"}
@@ -565,16 +930,32 @@ export default function GamePage() {
             currentPlayerId={playerId || undefined}
             currentPlayerName={playerName || undefined}
             leaderCelebrationKey={leaderCelebrationKey}
+            seatOrder={seatOrder}
+            dealerPlayerId={round?.dealerPlayerId ?? null}
+            onReorder={playerId ? changeSeatOrder : undefined}
           />
         </TTPanel>
 
         <TTPanel title="Runde melden" eyebrow=">> Gewinner durchgeben 999" variant="danger" className="tt-transparent-panel">
+          {roundClaims.length > 0 && (
+            <div className="mb-4">
+              <WinnerClaimPanel
+                claims={roundClaims}
+                players={players}
+                currentPlayerId={playerId || undefined}
+                busy={roundActionBusy}
+                onVote={voteOnWinnerClaim}
+              />
+            </div>
+          )}
+          {/* Neuer Key pro Meldung: nach Ablehnung oder Ablauf steht der Slider wieder am Start. */}
           <EndRoundSlider
+            key={`${round?.id ?? "none"}-${roundClaims.length}`}
             onComplete={() => {
               setLeaderCelebrationKey((key) => key + 1);
               finishByWinner();
             }}
-            disabled={busy || booting || !playerId}
+            disabled={busy || booting || !playerId || hasPendingClaim || (myLife?.livesRemaining ?? 1) <= 0}
           />
         </TTPanel>
 
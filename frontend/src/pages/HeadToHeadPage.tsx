@@ -0,0 +1,270 @@
+/**
+ * Direktvergleich zweier Spieler:innen im Teletext-Stil: gemeinsame Runden, Siege, wer öfter vorn lag und Serien.
+ * Die Namen stehen in der URL (/compare?a=..&b=..) und werden über dieselbe Namensliste wie beim Login ausgewählt.
+ */
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import clsx from "clsx";
+import TeletextHeader from "../components/common/TeletextHeader";
+import RootLayout from "../components/common/layout/RootLayout";
+import TTPanel from "../components/common/ui/TTPanel";
+import TTButton from "../components/common/ui/TTButton";
+import RatingTrend from "../components/common/RatingTrend";
+import LobbyDropdown from "../components/lobby/LobbyDropdown";
+import { api, getHeadToHead, type HeadToHead } from "../api";
+import { playerPath, roundPath } from "../utils/paths";
+import { formatDateTime } from "../utils/time";
+
+const MAX_PLAYER_NAME = 18;
+
+/** Vergleichsseite: zwei Namensfelder, darunter Bilanz und die letzten gemeinsamen Runden. */
+export default function HeadToHeadPage() {
+  const [sp, setSp] = useSearchParams();
+  const nameA = sp.get("a") ?? "";
+  const nameB = sp.get("b") ?? "";
+  const [draftA, setDraftA] = useState(nameA.toUpperCase());
+  const [draftB, setDraftB] = useState(nameB.toUpperCase());
+  const [names, setNames] = useState<string[]>([]);
+  const [result, setResult] = useState<HeadToHead | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    api
+      .fetchAllPlayerNames()
+      .then((list) => {
+        if (alive) setNames(list);
+      })
+      .catch(() => {
+        // Ohne Vorschläge bleiben freie Eingaben möglich.
+        if (alive) setNames([]);
+      });
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  // Browser-Zurück oder geteilte Links: Eingabefelder an die URL angleichen.
+  useEffect(() => {
+    setDraftA(nameA.toUpperCase());
+    setDraftB(nameB.toUpperCase());
+  }, [nameA, nameB]);
+
+  useEffect(() => {
+    if (!nameA.trim() || !nameB.trim()) {
+      setResult(null);
+      setError(null);
+      return;
+    }
+    let alive = true;
+    setLoading(true);
+    getHeadToHead(nameA, nameB)
+      .then((data) => {
+        if (!alive) return;
+        setResult(data);
+        setError(null);
+      })
+      .catch((e: any) => {
+        if (!alive) return;
+        setResult(null);
+        setError(e?.message ?? "Vergleich konnte nicht geladen werden.");
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [nameA, nameB]);
+
+  const sameName = draftA.trim() !== "" && draftA.trim().toLowerCase() === draftB.trim().toLowerCase();
+  const canCompare = draftA.trim() !== "" && draftB.trim() !== "" && !sameName;
+
+  /** Schreibt die gewählten Namen in die URL; der Fetch-Effekt lädt daraufhin den Vergleich. */
+  function submit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!canCompare) return;
+    setSp({ a: draftA.trim(), b: draftB.trim() });
+  }
+
+  /** Tauscht beide Seiten, auch in der URL, falls schon verglichen wurde. */
+  function swap() {
+    setDraftA(draftB);
+    setDraftB(draftA);
+    if (nameA && nameB) setSp({ a: nameB, b: nameA });
+  }
+
+  const title = result ? `${result.a.name} vs ${result.b.name}`.toUpperCase() : "Direktvergleich";
+
+  return (
+    <RootLayout
+      header={<TeletextHeader mode="VERSUS" />}
+      footer={<span className="tt-text text-xs">Vergleich: {title}</span>}
+    >
+      <div className="tt-stack pb-10 w-full max-w-4xl mx-auto">
+        <TTPanel title="Direktvergleich" eyebrow=">> Duell 808" variant="cyan">
+          <form className="grid gap-3" onSubmit={submit}>
+            <div className="grid gap-3 sm:grid-cols-[1fr_auto_1fr] sm:items-center">
+              <LobbyDropdown
+                value={draftA}
+                onChange={setDraftA}
+                options={names}
+                maxLen={MAX_PLAYER_NAME}
+                placeholder="Spieler:in A"
+                openOnFocus
+              />
+              <TTButton type="button" variant="ghost" onClick={swap} aria-label="Seiten tauschen">
+                VS
+              </TTButton>
+              <LobbyDropdown
+                value={draftB}
+                onChange={setDraftB}
+                options={names}
+                maxLen={MAX_PLAYER_NAME}
+                placeholder="Spieler:in B"
+                error={sameName ? "Bitte zwei verschiedene Namen wählen." : null}
+                openOnFocus
+              />
+            </div>
+            <TTButton type="submit" variant="primary" className="w-full justify-center" disabled={!canCompare} busy={loading}>
+              Vergleichen
+            </TTButton>
+          </form>
+        </TTPanel>
+
+        {result && <HeadToHeadSummary result={result} />}
+
+        {result && (
+          <TTPanel
+            title="Gemeinsame Runden"
+            eyebrow=">> Letzte 10 Duelle 810"
+            variant="magenta"
+            className="tt-transparent-panel"
+          >
+            {result.rounds.length ? (
+              <ul className="grid gap-1">
+                {result.rounds.map((round) => (
+                  <HeadToHeadRoundRow key={round.roundId} round={round} result={result} />
+                ))}
+              </ul>
+            ) : (
+              <p className="tt-text m-0 text-sm text-[var(--tt-text-muted)]">
+                Die beiden haben noch keine beendete Runde zusammen gespielt.
+              </p>
+            )}
+          </TTPanel>
+        )}
+
+        {error && (
+          <p className="tt-text text-sm font-black text-[var(--tt-danger)]" aria-live="assertive">
+            {error}
+          </p>
+        )}
+
+        <div className="grid w-full grid-cols-2 gap-2">
+          <TTButton as={Link} to="/leaderboard" variant="secondary" className="w-full justify-center">
+            Rangliste
+          </TTButton>
+          <TTButton as={Link} to="/" variant="ghost" className="w-full justify-center">
+            Home
+          </TTButton>
+        </div>
+      </div>
+    </RootLayout>
+  );
+}
+
+/** Bilanz beider Seiten nebeneinander: Siege, vorn gelegen, Elo und längste Serie. */
+function HeadToHeadSummary({ result }: { result: HeadToHead }) {
+  const streakLabel = useMemo(() => {
+    if (!result.currentStreak) return result.sharedRounds ? "Keine laufende Serie" : "Noch kein Duell";
+    const holder = result.currentStreak.holder === "a" ? result.a.name : result.b.name;
+    return `${holder.toUpperCase()} liegt ${result.currentStreak.length}x in Folge vorn`;
+  }, [result]);
+
+  const sides = [
+    { key: "a", player: result.a, wins: result.winsA, ahead: result.aheadA, longest: result.longestStreakA },
+    { key: "b", player: result.b, wins: result.winsB, ahead: result.aheadB, longest: result.longestStreakB },
+  ] as const;
+
+  return (
+    <TTPanel title="Bilanz" eyebrow={`>> ${result.sharedRounds} gemeinsame Runden`} variant="default" className="tt-transparent-panel">
+      <div className="grid grid-cols-2 gap-4">
+        {sides.map((side) => {
+          const leading = side.ahead > (side.key === "a" ? result.aheadB : result.aheadA);
+          return (
+            <div key={side.key} className={clsx("border-2 p-3", leading ? "border-[var(--tt-success,#00ff00)]" : "border-white/20")}>
+              <Link
+                to={playerPath(side.player.name)}
+                className="tt-text block truncate text-lg font-black uppercase text-white underline-offset-4 hover:underline"
+              >
+                {side.player.name}
+              </Link>
+              <dl className="mt-2 grid gap-2">
+                <VersusStat label="Siege" value={side.wins} />
+                <VersusStat label="Vorn gelegen" value={side.ahead} />
+                <VersusStat label="Längste Serie" value={side.longest} />
+                <div>
+                  <dt className="text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">Elo</dt>
+                  <dd className="tt-text m-0 text-xl font-black text-white">
+                    <RatingTrend rating={side.player.rating} />
+                  </dd>
+                </div>
+              </dl>
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-3 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+        {`${streakLabel} · ${result.ties} Gleichstand${result.ties === 1 ? "" : "e"}`}
+      </p>
+    </TTPanel>
+  );
+}
+
+/** Kennzahl einer Seite im Vergleich. */
+function VersusStat({ label, value }: { label: string; value: number }) {
+  return (
+    <div>
+      <dt className="text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">{label}</dt>
+      <dd className="tt-text m-0 text-xl font-black tabular-nums text-white">{value}</dd>
+    </div>
+  );
+}
+
+/** Eine gemeinsame Runde: Lobby/Nummer, Plätze beider Seiten und Link zur Archivansicht. */
+function HeadToHeadRoundRow({ round, result }: { round: HeadToHead["rounds"][number]; result: HeadToHead }) {
+  const aheadName = round.ahead === "a" ? result.a.name : round.ahead === "b" ? result.b.name : null;
+  const label = `${round.lobbyName ?? "Gelöschte Lobby"} - Runde ${String(round.number).padStart(2, "0")}`;
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 border-b border-white/10 py-1">
+      <div className="min-w-0">
+        {round.lobbyName ? (
+          <Link
+            to={roundPath({ lobbyName: round.lobbyName, lobbyId: round.lobbyId, roundNumber: round.number })}
+            className="block truncate text-[var(--tt-danger)] underline-offset-4 hover:underline"
+          >
+            {label.toUpperCase()}
+          </Link>
+        ) : (
+          <span className="block truncate text-[var(--tt-text-muted)]">{label.toUpperCase()}</span>
+        )}
+        {round.endedAt && (
+          <span className="text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">{formatDateTime(round.endedAt)}</span>
+        )}
+      </div>
+      <span className="text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+        <span className={clsx("font-black", round.ahead === "a" ? "text-[var(--tt-success,#00ff00)]" : "text-white")}>
+          {round.winner === "a" ? "S" : round.placeA}
+        </span>
+        {" : "}
+        <span className={clsx("font-black", round.ahead === "b" ? "text-[var(--tt-success,#00ff00)]" : "text-white")}>
+          {round.winner === "b" ? "S" : round.placeB}
+        </span>
+        {` von ${round.participants} · ${aheadName ? `${aheadName.toUpperCase()} vorn` : "Gleichstand"}`}
+      </span>
+    </li>
+  );
+}
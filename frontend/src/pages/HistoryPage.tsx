@@ -0,0 +1,197 @@
+/**
+ * Rundenhistorie einer Lobby im Teletext-Stil: Gewinner, Zeiten, Dauer und Endstand der Leben pro Runde.
+ * Erreichbar aus den Game-Optionen und der Rangliste; blättert seitenweise über GET /lobbies/:id/rounds.
+ */
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import clsx from "clsx";
+import TeletextHeader from "../components/common/TeletextHeader";
+import RootLayout from "../components/common/layout/RootLayout";
+import TTPanel from "../components/common/ui/TTPanel";
+import TTButton from "../components/common/ui/TTButton";
+import { api, listLobbyRounds, type RoundHistoryEntry } from "../api";
+import { useLobbyParams } from "../hooks/useLobbyParams";
+import { roundPath } from "../utils/paths";
+import { formatDateTime, formatDuration } from "../utils/time";
+
+const PAGE_SIZE = 10;
+
+/** Historienseite: löst die Lobby über Name/ID auf und zeigt die Runden seitenweise (neueste zuerst). */
+export default function HistoryPage() {
+  const { lobbyName: routeLobbyName, lobbyId: lobbyIdFromParams } = useLobbyParams();
+  const [lobbyId, setLobbyId] = useState(lobbyIdFromParams);
+  const [lobbyName, setLobbyName] = useState(routeLobbyName);
+  const [rounds, setRounds] = useState<RoundHistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ohne lobbyId in Query/Session über den Namen auflösen (z. B. geteilte Links).
+  useEffect(() => {
+    if (lobbyId || !routeLobbyName) return;
+    let alive = true;
+    api
+      .listLobbies()
+      .then((list) => {
+        if (!alive) return;
+        const match = list.find((l) => l.name.toLowerCase() === routeLobbyName.toLowerCase());
+        if (match) setLobbyId(match.id);
+        else {
+          setError("Lobby nicht gefunden.");
+          setLoading(false);
+        }
+      })
+      .catch((e: any) => {
+        if (!alive) return;
+        setError(e?.message ?? "Lobby konnte nicht geladen werden.");
+        setLoading(false);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [lobbyId, routeLobbyName]);
+
+  useEffect(() => {
+    if (!lobbyId) return;
+    let alive = true;
+    setLoading(true);
+    Promise.all([api.getLobby(lobbyId), listLobbyRounds(lobbyId, { limit: PAGE_SIZE, offset })])
+      .then(([lobby, page]) => {
+        if (!alive) return;
+        setLobbyName(lobby.name);
+        setRounds(page.rounds);
+        setTotal(page.total);
+        setError(null);
+      })
+      .catch((e: any) => {
+        if (alive) setError(e?.message ?? "Historie konnte nicht geladen werden.");
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [lobbyId, offset]);
+
+  const pageLabel = useMemo(() => {
+    if (!total) return "Keine Runden";
+    const from = offset + 1;
+    const to = Math.min(offset + PAGE_SIZE, total);
+    return `Runden ${from}-${to} von ${total}`;
+  }, [offset, total]);
+
+  const displayName = (lobbyName || "Lobby").toUpperCase();
+
+  return (
+    <RootLayout
+      header={<TeletextHeader mode="HISTORY" />}
+      footer={<span className="tt-text text-xs">Lobby: {displayName}</span>}
+    >
+      <div className="tt-stack pb-10 w-full max-w-4xl mx-auto">
+        <TTPanel title={displayName} eyebrow=">> Archiv 404" variant="cyan">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="tt-text m-0 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]" aria-live="polite">
+              {loading ? "Blättere im Archiv ..." : pageLabel}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <TTButton as={Link} to={roundPath({ lobbyName: lobbyName || routeLobbyName, lobbyId })} variant="secondary">
+                Zum Spiel
+              </TTButton>
+              <TTButton as={Link} to="/leaderboard" variant="ghost">
+                Rangliste
+              </TTButton>
+            </div>
+          </div>
+        </TTPanel>
+
+        {rounds.map((round) => (
+          <HistoryRoundPanel
+            key={round.id}
+            round={round}
+            to={roundPath({ lobbyName: lobbyName || routeLobbyName, lobbyId, roundNumber: round.number })}
+          />
+        ))}
+
+        {!loading && !error && !rounds.length && (
+          <p className="tt-text text-sm font-black text-[var(--tt-secondary)]">Hier wurde noch keine Runde gespielt.</p>
+        )}
+
+        <div className="grid w-full grid-cols-2 gap-2">
+          <TTButton
+            variant="ghost"
+            className="w-full justify-center"
+            onClick={() => setOffset((value) => Math.max(0, value - PAGE_SIZE))}
+            disabled={loading || offset === 0}
+          >
+            Neuere
+          </TTButton>
+          <TTButton
+            variant="ghost"
+            className="w-full justify-center"
+            onClick={() => setOffset((value) => value + PAGE_SIZE)}
+            disabled={loading || offset + PAGE_SIZE >= total}
+          >
+            Ältere
+          </TTButton>
+        </div>
+
+        {error && (
+          <p className="tt-text text-sm font-black text-[var(--tt-danger)]" aria-live="assertive">
+            {error}
+          </p>
+        )}
+      </div>
+    </RootLayout>
+  );
+}
+
+/** Eine Runde der Historie: Kopfzeile mit Gewinner und Dauer, darunter der Endstand der Leben und der Link zur Archivansicht. */
+function HistoryRoundPanel({ round, to }: { round: RoundHistoryEntry; to: string }) {
+  const rejectedClaims = round.claims.filter((claim) => claim.state === "rejected" || claim.state === "expired").length;
+  const lives = [...round.lives].sort((a, b) => b.livesRemaining - a.livesRemaining);
+
+  return (
+    <TTPanel
+      title={`Runde ${String(round.number).padStart(2, "0")}`}
+      eyebrow={`${formatDateTime(round.startedAt)}${round.mode === "table" ? " - Tisch" : ""}`}
+      variant={round.state === "running" ? "magenta" : "default"}
+      className="tt-transparent-panel"
+    >
+      <div className="flex flex-wrap items-baseline justify-between gap-3">
+        <p className="tt-text m-0 text-lg font-black uppercase text-white">
+          {round.state === "running" ? "Läuft noch" : round.winnerName ?? "Unbekannt"}
+        </p>
+        <p className="tt-text m-0 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+          {round.durationMs !== null ? `Dauer ${formatDuration(round.durationMs)}` : "-"}
+        </p>
+      </div>
+      <ul className="mt-2 flex flex-wrap gap-2">
+        {lives.map((life) => (
+          <li
+            key={life.playerId}
+            className={clsx(
+              "tt-text border-2 px-2 py-1 text-xs font-black uppercase",
+              life.playerId === round.winnerPlayerId
+                ? "border-[var(--tt-success,#00ff00)] text-white"
+                : life.livesRemaining > 0
+                  ? "border-[var(--tt-text-muted)] text-white"
+                  : "border-[var(--tt-danger)] text-[var(--tt-danger)]"
+            )}
+          >
+            {`${life.playerName ?? "?"} ${life.livesRemaining}`}
+          </li>
+        ))}
+      </ul>
+      {rejectedClaims > 0 && (
+        <p className="tt-text mt-2 text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+          {`${rejectedClaims} Sieg-Meldung(en) abgelehnt oder verfallen`}
+        </p>
+      )}
+      <TTButton as={Link} to={to} variant="ghost" className="mt-3">
+        {round.state === "running" ? "Mitspielen" : "Ansehen"}
+      </TTButton>
+    </TTPanel>
+  );
+}
@@ -1,14 +1,17 @@
 /**
  * Leaderboard-Seite: zeigt aggregierte Lobby-Scores, bietet Suche, Rejoin-Links und Admin-Löschfunktionen.
  * Nutzt Polling/SSE, um Einträge aktuell zu halten, und verknüpft zum Resume-Callout.
+ * Der Tab „Spieler“ zeigt stattdessen die lobbyübergreifende Rangliste pro Spieler:in.
  */
 import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import TeletextHeader from "../components/common/TeletextHeader";
 import {
   fetchLeaderboards,
+  fetchPlayerLeaderboard,
   subscribeLeaderboards,
   type LeaderboardEntry,
+  type PlayerLeaderboardEntry,
 } from "../api/leaderboards";
 import { deleteLobby } from "../api/lobbies";
 import { api } from "../api";
@@ -18,16 +21,22 @@ import TTInput from "../components/common/ui/TTInput";
 import TTButton from "../components/common/ui/TTButton";
 import TTPanel from "../components/common/ui/TTPanel";
 import ResumeGameCallout from "../components/common/ResumeGameCallout";
+import RatingTrend from "../components/common/RatingTrend";
 import { loadSession } from "../utils/session";
 import { formatPoints } from "../utils/points";
+import { comparePath, historyPath, playerPath } from "../utils/paths";
 import { useLobbyDeletionGuard } from "../hooks/useLobbyDeletionGuard";
 
 const DEBOUNCE_MS = 300;
 const SUBSCRIBE_POLL_MS = 4000;
 
+type LeaderboardTab = "lobbies" | "players";
+
 /** Rangliste mit Echtzeit-Updates, Suche und Hard-Delete-Verknüpfung. */
 export default function LeaderboardPage() {
-  // Suchinput für die Lobby-Filtersuche.
+  // Aktiver Tab: Lobby-Kacheln oder Spieler-Rangliste.
+  const [tab, setTab] = useState<LeaderboardTab>("lobbies");
+  // Suchinput für die Lobby- bzw. Spielersuche (je nach Tab).
   const [search, setSearch] = useState("");
   // Aktuelle Leaderboard-Einträge aus API/SSE.
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
@@ -64,7 +73,8 @@ export default function LeaderboardPage() {
   );
 
   useEffect(() => {
-    // Lädt initial und bei Suchänderung die Leaderboard-Daten.
+    // Lädt initial und bei Suchänderung die Leaderboard-Daten (nur im Lobby-Tab).
+    if (tab !== "lobbies") return;
     const controller = new AbortController();
     setLoading(true);
     setError(null);
@@ -81,7 +91,7 @@ export default function LeaderboardPage() {
       });
 
     return () => controller.abort();
-  }, [debouncedSearch, refreshKey]);
+  }, [debouncedSearch, refreshKey, tab]);
 
   useEffect(() => {
     // Prüft, ob die gespeicherte Session weiterhin aktiv ist → Resume-Hinweis.
@@ -129,6 +139,12 @@ export default function LeaderboardPage() {
 
   const handleRetry = triggerRefresh;
   const handleClear = () => setSearch("");
+  const switchTab = (next: LeaderboardTab) => {
+    if (next === tab) return;
+    setTab(next);
+    setSearch("");
+  };
+  const searchLabel = tab === "players" ? "Spieler:in suchen" : "Lobby suchen";
 
   return (
     <RootLayout
@@ -138,20 +154,45 @@ export default function LeaderboardPage() {
       <div className="tt-stack pb-10 w-full max-w-4xl mx-auto">
         <TTToolbar
           title="Rangliste"
-          description="Lobby · Suche"
+          description={tab === "players" ? "Spieler · Suche" : "Lobby · Suche"}
           className="w-full"
         >
+          <div className="grid w-full grid-cols-2 gap-2" role="group" aria-label="Ranglisten-Ansicht">
+            <TTButton
+              type="button"
+              variant={tab === "lobbies" ? "secondary" : "ghost"}
+              aria-pressed={tab === "lobbies"}
+              onClick={() => switchTab("lobbies")}
+              className="w-full justify-center"
+            >
+              Lobbys
+            </TTButton>
+            <TTButton
+              type="button"
+              variant={tab === "players" ? "secondary" : "ghost"}
+              aria-pressed={tab === "players"}
+              onClick={() => switchTab("players")}
+              className="w-full justify-center"
+            >
+              Spieler
+            </TTButton>
+          </div>
           <div className="flex w-full flex-col gap-2 sm:flex-row sm:items-end sm:gap-4" role="search">
             <TTInput
               id="leaderboard-search"
               type="search"
               value={search}
               onChange={(e) => setSearch(e.target.value)}
-              placeholder="Lobby suchen …"
-              aria-label="Lobby suchen"
+              placeholder={`${searchLabel} …`}
+              aria-label={searchLabel}
               autoComplete="off"
               wrapperClassName="flex-1 min-w-[260px] sm:min-w-[320px]"
             />
+            {tab === "players" && (
+              <TTButton as={Link} to={comparePath()} variant="info" className="justify-center">
+                Vergleichen
+              </TTButton>
+            )}
           </div>
         </TTToolbar>
 
@@ -162,42 +203,48 @@ export default function LeaderboardPage() {
           className="w-full"
         />
 
-        <div className="w-full space-y-3" aria-live="polite">
-          {loading && (
-            <p className="tt-text text-sm text-[var(--tt-text-muted)]" role="status" aria-busy="true">
-              Lade Rangliste im Teletext-Takt …
-            </p>
-          )}
-
-          {error && (
-            <TTPanel variant="danger" role="alert">
-              <div className="flex flex-wrap items-center gap-3 text-sm text-white">
-                <span>Hoppla, Fehler: {error}</span>
-                <TTButton type="button" variant="danger" onClick={handleRetry}>
-                  Noch mal laden
-                </TTButton>
-              </div>
-            </TTPanel>
-          )}
-
-          {hasNoResults && (
-            <p className="tt-text text-sm font-black text-[var(--tt-secondary)]" aria-live="polite">
-              Junge die Lobby gibts nich!
-            </p>
-          )}
-        </div>
+        {tab === "players" ? (
+          <PlayerRanking search={debouncedSearch} refreshKey={refreshKey} />
+        ) : (
+          <>
+            <div className="w-full space-y-3" aria-live="polite">
+              {loading && (
+                <p className="tt-text text-sm text-[var(--tt-text-muted)]" role="status" aria-busy="true">
+                  Lade Rangliste im Teletext-Takt …
+                </p>
+              )}
+
+              {error && (
+                <TTPanel variant="danger" role="alert">
+                  <div className="flex flex-wrap items-center gap-3 text-sm text-white">
+                    <span>Hoppla, Fehler: {error}</span>
+                    <TTButton type="button" variant="danger" onClick={handleRetry}>
+                      Noch mal laden
+                    </TTButton>
+                  </div>
+                </TTPanel>
+              )}
+
+              {hasNoResults && (
+                <p className="tt-text text-sm font-black text-[var(--tt-secondary)]" aria-live="polite">
+                  Junge die Lobby gibts nich!
+                </p>
+              )}
+            </div>
 
-        {/* Rendert jede sichtbare Lobby als Panel inkl. Aktionen. */}
-        <div
-          className="w-full space-y-4 sm:overflow-y-auto sm:max-h-[var(--leaderboard-max)]"
-          role="list"
-          aria-busy={loading}
-          style={{ "--leaderboard-max": "calc(100dvh - 14rem)" } as CSSProperties}
-        >
-          {visibleEntries.map((entry) => (
-            <LobbyCard key={entry.lobbyId} lobby={entry} onDeleted={handleLobbyDeleted} />
-          ))}
-        </div>
+            {/* Rendert jede sichtbare Lobby als Panel inkl. Aktionen. */}
+            <div
+              className="w-full space-y-4 sm:overflow-y-auto sm:max-h-[var(--leaderboard-max)]"
+              role="list"
+              aria-busy={loading}
+              style={{ "--leaderboard-max": "calc(100dvh - 14rem)" } as CSSProperties}
+            >
+              {visibleEntries.map((entry) => (
+                <LobbyCard key={entry.lobbyId} lobby={entry} onDeleted={handleLobbyDeleted} />
+              ))}
+            </div>
+          </>
+        )}
 
         <div className="pt-2">
           <TTButton
@@ -390,6 +437,15 @@ function LobbyCard({ lobby, onDeleted }: LobbyCardProps) {
             Löschen
           </TTButton>
         </div>
+        <TTButton
+          as={Link}
+          to={historyPath({ lobbyName: lobby.lobbyName, lobbyId: lobby.lobbyId })}
+          variant="ghost"
+          aria-label={`Rundenhistorie von ${lobby.lobbyName}`}
+          className="mt-2 w-full justify-center"
+        >
+          Historie
+        </TTButton>
       </div>
       {showConfirm && (
         <div
@@ -441,9 +497,14 @@ function LobbyCard({ lobby, onDeleted }: LobbyCardProps) {
               key={player.id || `${player.name}-${index}`}
               className="flex items-center justify-between border-b border-white/10 py-1 text-[var(--tt-danger)]"
             >
-              <span className="truncate pr-2">{player.name}</span>
-              <span className="font-black text-white">
-                {typeof player.pointsTotal === "number" ? formatPoints(player.pointsTotal) : "–"}
+              <Link to={playerPath(player.name)} className="truncate pr-2 underline-offset-4 hover:underline">
+                {player.name}
+              </Link>
+              <span className="flex items-baseline gap-3">
+                <RatingTrend rating={player.rating} delta={player.ratingDelta} className="text-xs text-[var(--tt-text-muted)]" />
+                <span className="font-black text-white">
+                  {typeof player.pointsTotal === "number" ? formatPoints(player.pointsTotal) : "–"}
+                </span>
               </span>
             </div>
           ))
@@ -487,6 +548,98 @@ function LobbyCard({ lobby, onDeleted }: LobbyCardProps) {
   );
 }
 
+type PlayerRankingProps = {
+  search: string;
+  refreshKey: number;
+};
+
+/** Lobbyübergreifende Spieler-Rangliste: Platz, Siege, gespielte Runden und Siegquote. */
+function PlayerRanking({ search, refreshKey }: PlayerRankingProps) {
+  const [players, setPlayers] = useState<PlayerLeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [retryKey, setRetryKey] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+
+    fetchPlayerLeaderboard({ search: search || undefined, signal: controller.signal })
+      .then((data) => setPlayers(data))
+      .catch((err) => {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(err?.message || "Fehler beim Laden der Spieler-Rangliste");
+        setPlayers([]);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [search, refreshKey, retryKey]);
+
+  return (
+    <div className="w-full space-y-3" aria-live="polite">
+      {loading && (
+        <p className="tt-text text-sm text-[var(--tt-text-muted)]" role="status" aria-busy="true">
+          Zähle Siege quer durch alle Lobbys …
+        </p>
+      )}
+
+      {error && (
+        <TTPanel variant="danger" role="alert">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-white">
+            <span>Hoppla, Fehler: {error}</span>
+            <TTButton type="button" variant="danger" onClick={() => setRetryKey((key) => key + 1)}>
+              Noch mal laden
+            </TTButton>
+          </div>
+        </TTPanel>
+      )}
+
+      {!loading && !error && players.length === 0 && (
+        <p className="tt-text text-sm font-black text-[var(--tt-secondary)]">
+          {search ? "Niemand mit dem Namen gefunden." : "Noch keine beendeten Runden."}
+        </p>
+      )}
+
+      {players.length > 0 && (
+        <TTPanel variant="cyan" title="Alle Lobbys" eyebrow="Elo · Siege · Runden · Quote" className="w-full">
+          <div className="grid gap-1" role="list" aria-label="Spieler-Rangliste">
+            {players.map((player) => (
+              <div
+                key={player.key}
+                role="listitem"
+                className="grid grid-cols-[2.5rem_1fr_auto] items-center gap-2 border-b border-white/10 py-1"
+              >
+                <span className="tt-text tabular-nums text-[var(--tt-text-muted)]">
+                  {String(player.rank).padStart(2, "0")}
+                </span>
+                <Link
+                  to={playerPath(player.name)}
+                  className="truncate pr-2 text-[var(--tt-danger)] underline-offset-4 hover:underline"
+                >
+                  {player.name.toUpperCase()}
+                </Link>
+                <span className="flex items-baseline gap-3 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+                  <RatingTrend rating={player.rating} delta={player.ratingDelta} className="text-white" />
+                  <span className="font-black text-white">{`${player.wins} S`}</span>
+                  <span>{`${player.roundsPlayed} R`}</span>
+                  <span className="w-12 text-right tabular-nums text-white">{`${Math.round(player.winRate * 100)}%`}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+            Elo mit Trend · S = Siege · R = gespielte Runden · % = Siegquote
+          </p>
+        </TTPanel>
+      )}
+    </div>
+  );
+}
+
 /** Simpler Debounce-Hook, damit die Suche nicht bei jedem Tastendruck feuert. */
 function useDebounce<T>(value: T, ms: number) {
   const [state, setState] = useState(value);
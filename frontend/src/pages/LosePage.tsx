@@ -5,7 +5,7 @@
 import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import TeletextHeader from "../components/common/TeletextHeader";
-import { api, LifeState, Round, subscribeRoundEvents } from "../api";
+import { api, LifeState, LobbyState, Round, subscribeRoundEvents, watchLobbyState } from "../api";
 import waitGif from "../assets/ui/wait.gif";
 import { useLobbyParams } from "../hooks/useLobbyParams";
 import { useRoundParams } from "../hooks/useRoundParams";
@@ -139,8 +139,13 @@ export default function LosePage() {
         if (event.lobbyId && event.lobbyId !== lobbyId) return;
         navigateToWin(event.round?.number ?? null);
       },
+      onLifeUpdated: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        const me = event.lives.find((l) => l.playerId === playerId);
+        if (me) setMyLife(me);
+      },
     });
-  }, [guardActive, lobbyId, navigateToWin]);
+  }, [guardActive, lobbyId, navigateToWin, playerId]);
 
   /**
    * Navigiert zurück zur Game-Ansicht und aktualisiert die Session,
@@ -166,60 +171,44 @@ export default function LosePage() {
     navigate(target);
   }, [currentRound?.number, initialRoundNumber, lobbyId, lookupName, navigate, roundNumber]);
 
+  // Neue Runde gestartet: sofort zurück ins Spiel statt auf den nächsten Poll zu warten.
+  useEffect(() => {
+    if (guardActive || !lobbyId) return;
+    return subscribeRoundEvents({
+      lobbyId,
+      onStarted: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        backToGame(event.round.number);
+      },
+    });
+  }, [backToGame, guardActive, lobbyId]);
+
   useEffect(() => {
-    // Holt aktuelle Lobby-/Rundendaten und pollt regelm??ig f?r ?nderungen.
+    // Hält Lobby-/Rundendaten per Long-Polling aktuell; jede Änderung kommt als neuer Gesamtstand.
     if (!lobbyId) return;
-    let alive = true;
 
-    const init = async () => {
-      try {
-        const [lb, cr] = await Promise.all([api.getLobby(lobbyId), api.getCurrentRound(lobbyId)]);
-        if (!alive) return;
-        setLobbyName(lb.name);
-        setCurrentRound(cr.round);
-        const me = cr.lives.find((l) => l.playerId === playerId) || null;
-        setMyLife(me);
-        if (initialRoundRef.current === null && typeof cr.round.number === "number") {
-          initialRoundRef.current = cr.round.number;
-        }
-        if (cr.round.state === "finished" && cr.round.winnerPlayerId) {
-          navigateToWin(cr.round.number ?? null);
-          return;
-        }
-      } catch (error) {
-        if (handleLobbyMissingError(error)) return;
-      }
-    };
-    init();
+    const applyState = (state: LobbyState) => {
+      setLobbyName(state.lobby.name);
+      if (redirectedToWinRef.current || !state.round) return;
+      const round = state.round;
+      setCurrentRound(round);
+      const me = state.lives.find((l) => l.playerId === playerId) || null;
+      setMyLife(me);
 
-    const t = setInterval(async () => {
-      if (redirectedToWinRef.current) return;
-      try {
-        const cr = await api.getCurrentRound(lobbyId);
-        setCurrentRound(cr.round);
-        const me = cr.lives.find((l) => l.playerId === playerId) || null;
-        setMyLife(me);
-
-        if (cr.round.state === "finished" && cr.round.winnerPlayerId) {
-          navigateToWin(cr.round.number ?? null);
-          return;
-        }
-
-        const nextRoundNumber = typeof cr.round.number === "number" ? cr.round.number : null;
-        if (initialRoundRef.current === null && nextRoundNumber !== null) {
-          initialRoundRef.current = nextRoundNumber;
-        } else if (nextRoundNumber !== null && initialRoundRef.current !== null && nextRoundNumber !== initialRoundRef.current) {
-          backToGame(nextRoundNumber);
-        }
-      } catch (error) {
-        if (handleLobbyMissingError(error)) return;
+      if (round.state === "finished" && round.winnerPlayerId) {
+        navigateToWin(round.number ?? null);
+        return;
       }
-    }, 1500);
 
-    return () => {
-      alive = false;
-      clearInterval(t);
+      const nextRoundNumber = typeof round.number === "number" ? round.number : null;
+      if (initialRoundRef.current === null && nextRoundNumber !== null) {
+        initialRoundRef.current = nextRoundNumber;
+      } else if (nextRoundNumber !== null && initialRoundRef.current !== null && nextRoundNumber !== initialRoundRef.current) {
+        backToGame(nextRoundNumber);
+      }
     };
+
+    return watchLobbyState(lobbyId, { onState: applyState, onError: handleLobbyMissingError });
   }, [backToGame, handleLobbyMissingError, initialRoundNumber, lobbyId, navigateToWin, playerId]);
 
   useEffect(() => {
@@ -0,0 +1,185 @@
+/**
+ * Spielerprofil im Teletext-Stil: Siege, Runden, Ø-Platzierung, Elo, Schwimmst-Bilanz, Lieblingslobbys und Formkurve.
+ * Die Werte gelten lobbyübergreifend für den Spielernamen aus der URL (/player/:name) und kommen aus GET /players/:name/stats.
+ */
+import { useEffect, useState, type ReactNode } from "react";
+import { Link, useParams } from "react-router-dom";
+import clsx from "clsx";
+import TeletextHeader from "../components/common/TeletextHeader";
+import RootLayout from "../components/common/layout/RootLayout";
+import TTPanel from "../components/common/ui/TTPanel";
+import TTButton from "../components/common/ui/TTButton";
+import RatingTrend from "../components/common/RatingTrend";
+import { getPlayerStats, type PlayerStats } from "../api";
+import { comparePath, historyPath } from "../utils/paths";
+import { formatPoints } from "../utils/points";
+
+/** Profilseite: lädt die Statistik zum Namen und rendert sie in Teletext-Panels. */
+export default function PlayerProfilePage() {
+  const { name: routeName = "" } = useParams();
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!routeName.trim()) {
+      setError("Kein Spielername angegeben.");
+      setLoading(false);
+      return;
+    }
+    let alive = true;
+    setLoading(true);
+    getPlayerStats(routeName)
+      .then((data) => {
+        if (!alive) return;
+        setStats(data);
+        setError(null);
+      })
+      .catch((e: any) => {
+        if (!alive) return;
+        setStats(null);
+        setError(e?.message ?? "Profil konnte nicht geladen werden.");
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+    return () => {
+      alive = false;
+    };
+  }, [routeName]);
+
+  const displayName = (stats?.name || routeName || "Spieler").toUpperCase();
+
+  return (
+    <RootLayout
+      header={<TeletextHeader mode="PROFILE" />}
+      footer={<span className="tt-text text-xs">Profil: {displayName}</span>}
+    >
+      <div className="tt-stack pb-10 w-full max-w-4xl mx-auto">
+        <TTPanel title={displayName} eyebrow=">> Steckbrief 707" variant="cyan">
+          {loading && (
+            <p className="tt-text m-0 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]" role="status">
+              Krame in den Akten ...
+            </p>
+          )}
+          {stats && (
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-3 sm:grid-cols-3">
+              <ProfileStat label="Siege" value={String(stats.wins)} />
+              <ProfileStat label="Runden" value={String(stats.roundsPlayed)} />
+              <ProfileStat label="Quote" value={`${Math.round(stats.winRate * 100)}%`} />
+              <ProfileStat
+                label="Ø Platz"
+                value={stats.averagePlace !== null ? stats.averagePlace.toFixed(1).replace(".", ",") : "-"}
+              />
+              <ProfileStat label="Elo" value={<RatingTrend rating={stats.rating} delta={stats.ratingDelta} />} />
+              <ProfileStat label="Punkte" value={formatPoints(stats.pointsTotal)} />
+            </dl>
+          )}
+        </TTPanel>
+
+        {stats && (
+          <>
+            <TTPanel title="Schwimmst" eyebrow=">> Letztes Leben 000" variant="danger" className="tt-transparent-panel">
+              <p className="tt-text m-0 text-lg font-black uppercase text-white">
+                {`${stats.schwimmstWins} von ${stats.schwimmstRounds}`}
+              </p>
+              <p className="mt-1 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+                {stats.schwimmstRounds
+                  ? "Runden auf dem letzten Leben trotzdem gewonnen."
+                  : "Noch nie auf dem letzten Leben gelandet."}
+              </p>
+            </TTPanel>
+
+            <TTPanel title="Form" eyebrow=">> Letzte 10 Runden 010" variant="magenta" className="tt-transparent-panel">
+              {stats.form.length ? (
+                <>
+                  <ol className="flex flex-wrap gap-2" aria-label="Formkurve, älteste Runde zuerst">
+                    {[...stats.form].reverse().map((entry) => (
+                      <li
+                        key={entry.roundId}
+                        title={`${entry.lobbyName ?? "Lobby"} - Runde ${entry.number}: Platz ${entry.place} von ${entry.participants}`}
+                        className={clsx(
+                          "tt-text flex h-10 w-10 items-center justify-center border-2 text-lg font-black tabular-nums",
+                          entry.won
+                            ? "border-[var(--tt-success,#00ff00)] text-[var(--tt-success,#00ff00)]"
+                            : entry.place === entry.participants
+                              ? "border-[var(--tt-danger)] text-[var(--tt-danger)]"
+                              : "border-[var(--tt-text-muted)] text-white"
+                        )}
+                      >
+                        {entry.won ? "S" : entry.place}
+                      </li>
+                    ))}
+                  </ol>
+                  <p className="mt-2 text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+                    S = Sieg · Zahl = Platz · neueste Runde rechts
+                  </p>
+                </>
+              ) : (
+                <p className="tt-text m-0 text-sm text-[var(--tt-text-muted)]">Noch keine beendete Runde.</p>
+              )}
+            </TTPanel>
+
+            <TTPanel title="Lieblingslobbys" eyebrow=">> Stammtisch 303" variant="cyan" className="tt-transparent-panel">
+              {stats.favouriteLobbies.length ? (
+                <ul className="grid gap-1">
+                  {stats.favouriteLobbies.map((lobby) => (
+                    <li
+                      key={lobby.lobbyId}
+                      className="flex items-center justify-between gap-3 border-b border-white/10 py-1"
+                    >
+                      {lobby.lobbyName ? (
+                        <Link
+                          to={historyPath({ lobbyName: lobby.lobbyName, lobbyId: lobby.lobbyId })}
+                          className="truncate text-[var(--tt-danger)] underline-offset-4 hover:underline"
+                        >
+                          {lobby.lobbyName.toUpperCase()}
+                        </Link>
+                      ) : (
+                        <span className="truncate text-[var(--tt-text-muted)]">Gelöschte Lobby</span>
+                      )}
+                      <span className="text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
+                        <span className="font-black text-white">{lobby.rounds}</span> Runden ·{" "}
+                        <span className="font-black text-white">{lobby.wins}</span> Siege
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="tt-text m-0 text-sm text-[var(--tt-text-muted)]">Noch in keiner Lobby fertig gespielt.</p>
+              )}
+            </TTPanel>
+          </>
+        )}
+
+        {error && (
+          <p className="tt-text text-sm font-black text-[var(--tt-danger)]" aria-live="assertive">
+            {error}
+          </p>
+        )}
+
+        <div className="grid w-full grid-cols-3 gap-2">
+          <TTButton as={Link} to={comparePath(stats?.name ?? routeName)} variant="info" className="w-full justify-center">
+            Vergleichen
+          </TTButton>
+          <TTButton as={Link} to="/leaderboard" variant="secondary" className="w-full justify-center">
+            Rangliste
+          </TTButton>
+          <TTButton as={Link} to="/" variant="ghost" className="w-full justify-center">
+            Home
+          </TTButton>
+        </div>
+      </div>
+    </RootLayout>
+  );
+}
+
+/** Einzelner Kennwert im Steckbrief (Label klein, Wert groß). */
+function ProfileStat({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">{label}</dt>
+      <dd className="tt-text m-0 text-2xl font-black text-white">{value}</dd>
+    </div>
+  );
+}
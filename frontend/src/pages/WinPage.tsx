@@ -1,12 +1,13 @@
 ﻿/**
  * Gewinnerseite, die den Rundenabschluss feiert, Presence-Pings fortsetzt und neue Runden starten kann.
- * Wird vom GameScreen nach `api.finishRound` angesteuert und synchronisiert sich per Polling mit dem Backend.
+ * Wird vom GameScreen nach `api.finishRound` angesteuert und hält sich per Long-Polling (watchLobbyState) mit dem Backend synchron.
+ * Kurz nach Rundenende lässt sich der Sieg per „Rückgängig“ zurücknehmen; alle Geräte kehren dann ins Spiel zurück.
  */
 import { useEffect, useMemo, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import TeletextHeader from "../components/common/TeletextHeader";
 import winnerGif from "../assets/ui/winner.gif";
-import { api, Player } from "../api";
+import { api, LobbyState, Player, reopenRound, subscribeRoundEvents, watchLobbyState } from "../api";
 import { useLobbyParams } from "../hooks/useLobbyParams";
 import { getClientSessionId, loadSession, updateSession } from "../utils/session";
 import { roundPath } from "../utils/paths";
@@ -17,6 +18,7 @@ import TTPanelCollapsible from "../components/common/ui/TTPanelCollapsible";
 import { startPresence } from "../lib/sessionPresence";
 import RouteGuardNotice from "../components/common/RouteGuardNotice";
 import { useLobbyDeletionGuard } from "../hooks/useLobbyDeletionGuard";
+import { useSecondsUntil } from "../hooks/useSecondsUntil";
 
 /** Gewinner-Ansicht: zeigt den Sieger, hält Spieler präsent und startet neue Runden. */
 export default function WinPage() {
@@ -28,9 +30,13 @@ export default function WinPage() {
   const [lobbyName, setLobbyName] = useState(routeLobbyName || sessionSeed?.lobbyName || "");
   const [players, setPlayers] = useState<Player[]>([]);
   const [winnerPlayerId, setWinnerPlayerId] = useState<string | null>(null);
+  const [nextDealerPlayerId, setNextDealerPlayerId] = useState<string | null>(null);
   const [roundNumber, setRoundNumber] = useState<number | null>(null);
+  const [roundId, setRoundId] = useState<string | null>(null);
+  const [reopenableUntil, setReopenableUntil] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [busyNext, setBusyNext] = useState(false);
+  const [busyUndo, setBusyUndo] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const effectiveLobbyName = lobbyName || routeLobbyName || sessionSeed?.lobbyName || "";
@@ -71,53 +77,62 @@ export default function WinPage() {
     };
   }, [effectiveLobbyName, lobbyId]);
 
-  // Lädt den aktuellen Sieger-Snapshot und pollt weiter, bis eine neue Runde erkannt wird.
+  // Lädt den aktuellen Sieger-Snapshot und wartet per Long-Polling auf Änderungen, bis eine neue Runde erkannt wird.
   useEffect(() => {
     if (!lobbyId) return;
-    let alive = true;
 
-    const loadSnapshot = async () => {
-      try {
-        const [lb, snapshot, ps] = await Promise.all([
-          api.getLobby(lobbyId),
-          api.getCurrentRound(lobbyId),
-          api.listPlayers(lobbyId),
-        ]);
-        if (!alive) return;
-        setLobbyName(lb.name);
-        setPlayers(ps);
-        setWinnerPlayerId(snapshot.round.winnerPlayerId || null);
-        setRoundNumber(snapshot.round.number ?? null);
-        setError(null);
-
-        if (snapshot.round.state === "running" && snapshot.round.number) {
-          updateSession({
-            resumeView: "game",
-            resumeRoundNumber: snapshot.round.number,
-          });
-          navigate(roundPath({ lobbyName: lb.name, lobbyId, roundNumber: snapshot.round.number }), { replace: true });
-        } else {
-          updateSession({
-            resumeView: "win",
-            resumeRoundNumber: snapshot.round.number ?? null,
-          });
-        }
-      } catch (e: any) {
-        if (handleLobbyMissingError(e)) return;
-        if (alive) setError(e?.message ?? "Gewinner konnte nicht geladen werden - bitte gleich noch mal probieren.");
-      } finally {
-        if (alive) setLoading(false);
+    const applyState = ({ lobby, round, players: ps }: LobbyState) => {
+      setLobbyName(lobby.name);
+      setPlayers(ps);
+      setLoading(false);
+      setError(null);
+      if (!round) return;
+      setWinnerPlayerId(round.winnerPlayerId || null);
+      setNextDealerPlayerId(round.nextDealerPlayerId ?? null);
+      setRoundNumber(round.number ?? null);
+      setRoundId(round.id);
+      setReopenableUntil(round.state === "finished" ? round.reopenableUntil ?? null : null);
+
+      if (round.state === "running" && round.number) {
+        updateSession({
+          resumeView: "game",
+          resumeRoundNumber: round.number,
+        });
+        navigate(roundPath({ lobbyName: lobby.name, lobbyId, roundNumber: round.number }), { replace: true });
+      } else {
+        updateSession({
+          resumeView: "win",
+          resumeRoundNumber: round.number ?? null,
+        });
       }
     };
 
-    loadSnapshot();
-    const t = setInterval(loadSnapshot, 3500);
-    return () => {
-      alive = false;
-      clearInterval(t);
-    };
+    return watchLobbyState(lobbyId, {
+      onState: applyState,
+      onError: (e: any) => {
+        setLoading(false);
+        if (handleLobbyMissingError(e)) return;
+        setError(e?.message ?? "Gewinner konnte nicht geladen werden - bitte gleich noch mal probieren.");
+      },
+    });
   }, [handleLobbyMissingError, lobbyId, navigate, updateSession]);
 
+  // Zurückgenommene oder neu gestartete Runde: alle Geräte sofort zurück ins Spiel, ohne auf den nächsten Poll zu warten.
+  useEffect(() => {
+    if (!lobbyId) return;
+    return subscribeRoundEvents({
+      lobbyId,
+      onReopened: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        returnToGame(event.round.number);
+      },
+      onStarted: (event) => {
+        if (event.lobbyId !== lobbyId) return;
+        returnToGame(event.round.number);
+      },
+    });
+  }, [effectiveLobbyName, lobbyId]);
+
   useEffect(() => {
     if (!lobbyId || !storedPlayerId || !clientSessionId) return;
     return startPresence({ lobbyId, playerId: storedPlayerId, clientSessionId });
@@ -129,6 +144,35 @@ export default function WinPage() {
     return player?.name ?? "";
   }, [players, winnerPlayerId]);
 
+  const nextDealerName = useMemo(() => {
+    if (!nextDealerPlayerId) return "";
+    return players.find((p) => p.id === nextDealerPlayerId)?.name ?? "";
+  }, [nextDealerPlayerId, players]);
+  const isNextDealer = Boolean(nextDealerPlayerId && nextDealerPlayerId === storedPlayerId);
+  const undoSecondsLeft = useSecondsUntil(reopenableUntil);
+
+  /** Setzt den Resume-Context auf das Spiel und navigiert zur angegebenen Runde. */
+  function returnToGame(targetRoundNumber: number) {
+    if (!lobbyId || !effectiveLobbyName) return;
+    updateSession({ resumeView: "game", resumeRoundNumber: targetRoundNumber });
+    navigate(roundPath({ lobbyName: effectiveLobbyName, lobbyId, roundNumber: targetRoundNumber }), { replace: true });
+  }
+
+  /** Nimmt den gerade vergebenen Sieg zurück; der Server zieht den Punkt ab und holt alle zurück ins Spiel. */
+  async function undoFinish() {
+    if (!roundId || !storedPlayerId) return;
+    setBusyUndo(true);
+    try {
+      const res = await reopenRound(roundId, { playerId: storedPlayerId, clientSessionId });
+      returnToGame(res.round.number);
+    } catch (e: any) {
+      setReopenableUntil(null);
+      setError(e?.message ?? "Rückgängig hat nicht geklappt.");
+    } finally {
+      setBusyUndo(false);
+    }
+  }
+
   /**
    * Startet die nächste Runde per API und navigiert den gesamten Tisch zurück zum GameScreen.
    * Erwartet einen gültigen Lobby-Kontext; Fehler landen als Meldung unter dem CTA.
@@ -201,6 +245,22 @@ export default function WinPage() {
           <div className="mt-3 text-sm uppercase tracking-[0.2em] text-[var(--tt-text-muted)]">
             Runde {roundLabel} im Archiv
           </div>
+          {(isNextDealer || nextDealerName) && (
+            <div className="mt-2 tt-text text-lg font-black uppercase tracking-[0.2em] text-[var(--tt-secondary)]">
+              {isNextDealer ? "Du gibst" : `${nextDealerName} gibt`}
+            </div>
+          )}
+          {undoSecondsLeft > 0 && (
+            <TTButton
+              variant="secondary"
+              className="mt-4 w-full justify-center sm:w-auto"
+              onClick={undoFinish}
+              busy={busyUndo}
+              disabled={busyUndo}
+            >
+              {`Rückgängig (${undoSecondsLeft} s)`}
+            </TTButton>
+          )}
         </TTPanel>
 
         <TTPanel
@@ -49,6 +49,22 @@ export function winPath({ lobbyName, lobbyId }: LobbyPathArgs) {
   return appendLobbyId(`/lobby/${segment}/win`, lobbyId);
 }
 
+/** Baut die Rundenhistorie einer Lobby, z. B. `/lobby/Alpha/history?lobbyId=123`. */
+export function historyPath({ lobbyName, lobbyId }: LobbyPathArgs) {
+  const segment = encodeLobbySegment(lobbyName);
+  return appendLobbyId(`/lobby/${segment}/history`, lobbyId);
+}
+
+/** Baut die Profilseite eines Spielernamens, z. B. `/player/Anna`. */
+export function playerPath(name: string) {
+  return `/player/${encodeURIComponent(name.trim())}`;
+}
+
+/** Baut den Direktvergleich zweier Spieler:innen, z. B. `/compare?a=Anna&b=Ben`; leere Namen entfallen. */
+export function comparePath(a?: string | null, b?: string | null) {
+  return withSearch("/compare", { a: a?.trim() || undefined, b: b?.trim() || undefined });
+}
+
 /**
  * Basis-Lobby-Route ohne weitere Segmente.
  * Praktisch für Links auf die Lobby-Startseite oder als Ausgangspunkt für weitere manuelle Anhänge.
@@ -0,0 +1,20 @@
+/**
+ * Zeit-Formatierung für Rundenhistorie und Archivansicht alter Runden.
+ * Alle Ausgaben sind kompakt gehalten, damit sie in Teletext-Zeilen passen.
+ */
+/** Datum und Uhrzeit kompakt (TT.MM. HH:MM). */
+export function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  const date = d.toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit" });
+  const time = d.toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" });
+  return `${date} ${time}`;
+}
+
+/** Dauer als M:SS bzw. H:MM:SS. */
+export function formatDuration(ms: number) {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}